@@ -1,10 +1,43 @@
-import React, { useState, useEffect } from 'react';
-import { Activity, BrainCircuit, Share2, Info, AlertTriangle, ArrowRight, Database, Maximize2, Minimize2, X, BookOpen, Layers, MousePointerClick, Shuffle, GitBranch, Cpu, Network, ShieldCheck, Zap, Globe, GitPullRequest, Clock, Trash2, Eye, ChevronDown, ChevronUp, Plus, MinusCircle, Eraser, Moon, Sun, Download } from 'lucide-react';
-import NetworkGraph from './components/NetworkGraph';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Activity, BrainCircuit, Share2, Info, AlertTriangle, ArrowRight, Database, Maximize2, Minimize2, X, BookOpen, Layers, MousePointerClick, Shuffle, GitBranch, Cpu, Network, ShieldCheck, Zap, Globe, GitPullRequest, Clock, Trash2, Eye, ChevronDown, ChevronUp, Plus, MinusCircle, Eraser, Moon, Sun, Download, Archive, RefreshCw, Stethoscope, Timer, ArrowUpDown, Pill, Route, PlusCircle } from 'lucide-react';
+import NetworkGraph, { GraphHighlight } from './components/NetworkGraph';
 import DrugInput from './components/DrugInput';
 import WorkflowDiagram from './components/WorkflowDiagram';
-import { predictInteractions } from './services/geminiService';
-import { AnalysisResult, GraphNode, AnalysisSession } from './types';
+import GnnComparison from './components/GnnComparison';
+import DatasetImporter from './components/DatasetImporter';
+import PkCrossCheck, { pkVerdictLinkColors } from './components/PkCrossCheck';
+import PredictionIntervals from './components/PredictionIntervals';
+import EvidenceList from './components/EvidenceList';
+import PairwiseMatrix from './components/PairwiseMatrix';
+import PatientProfilePanel from './components/PatientProfilePanel';
+import PkSimulator from './components/PkSimulator';
+import RunDetails from './components/RunDetails';
+import AlternativesComparison from './components/AlternativesComparison';
+import GlobalGraphFilters from './components/GlobalGraphFilters';
+import PathExplanation from './components/PathExplanation';
+import GraphAnalyticsPanel from './components/GraphAnalyticsPanel';
+import SeverityBadge, { SEVERITY_BORDERS, SEVERITY_COLORS, UNGRADED_COLOR } from './components/SeverityBadge';
+import { describeOutdatedSettings, getPredictionProvider, runEnsemblePrediction, runNodeExpansion, runPrediction } from './services/predictionProvider';
+import { hasPromptTemplate } from './services/prompts';
+import { knowledgeStoreProvider } from './services/knowledgeStore';
+import { clearAnalysisCache } from './services/resultCache';
+import { compareByProbability, compareBySeverity } from './services/severity';
+import { combinationRisk, runDecomposition } from './services/decomposition';
+import { findAlternatives, runAlternatives } from './services/alternatives';
+import { drugSetKey } from './services/drugSet';
+import { describePatientProfile, isEmptyPatientProfile, normalizePatientProfile } from './services/patientProfile';
+import { isRegimenSet } from './services/pkSimulator';
+import { canonicalizeDrugs } from './services/drugDictionary';
+import { assertSafeInput } from './services/inputSanitizer';
+import { nodeTypeStyle } from './services/nodeOntology';
+import { migrateSession } from './services/sessionMigration';
+import { GlobalGraphFilter, buildGlobalGraph, listSessionDrugs } from './services/globalGraph';
+import { describePath, findMechanismPaths, findOutcomeNode } from './services/pathExplanation';
+import { GraphMetric, analyzeGraph, applyGraphMetric, communityColors } from './services/graphAnalytics';
+import { crossCheckPkClaims } from './services/pkRuleEngine';
+import { mergeNeighborhood } from './services/nodeExpansion';
+import { ERROR_GUIDANCE, PredictionError, classifyError } from './services/predictionErrors';
+import { AnalysisResult, GraphNode, GraphLink, AnalysisSession, InteractionPrediction, PredictionProvider, ManagementAction, PatientProfile, DrugRegimen, ValidationWarning, RunSettings } from './types';
 import { RadialBarChart, RadialBar, Legend, Tooltip as RechartsTooltip, ResponsiveContainer } from 'recharts';
 
 const INITIAL_NODES = [
@@ -28,10 +61,34 @@ const EXAMPLE_COMBINATIONS = [
   ["Warfarin", "Aspirin", "Ginkgo Biloba"]
 ];
 
+const predictionProvider = getPredictionProvider();
+
+// Number of merged runs per analysis; 1 disables the ensemble
+const ENSEMBLE_SIZES = [1, 3, 5, 7];
+
+const MANAGEMENT_LABELS: Record<ManagementAction, string> = {
+  avoid: 'Avoid',
+  adjust_dose: 'Adjust dose',
+  monitor: 'Monitor',
+  no_action: 'No action'
+};
+
 const App: React.FC = () => {
   const [drugs, setDrugs] = useState<string[]>(['Warfarin', 'Aspirin']);
+  // Dosing per drug input, index-aligned with `drugs`
+  const [regimens, setRegimens] = useState<DrugRegimen[]>([{}, {}]);
+  const [showDosing, setShowDosing] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<PredictionError | null>(null);
+  const [retryStatus, setRetryStatus] = useState<string | null>(null);
+  const [ensembleSize, setEnsembleSize] = useState(1);
+  const [progressStatus, setProgressStatus] = useState<string | null>(null);
+  const [decompose, setDecompose] = useState(false);
+  const [includeTriplets, setIncludeTriplets] = useState(false);
+  const [patientProfile, setPatientProfile] = useState<PatientProfile>({});
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Node expansions run next to analyses and are cancelled on their own
+  const expansionControllerRef = useRef<AbortController | null>(null);
   
   // Theme State
   const [theme, setTheme] = useState<'light' | 'dark'>('dark');
@@ -45,7 +102,23 @@ const App: React.FC = () => {
 
   const [isGraphExpanded, setIsGraphExpanded] = useState(false);
   const [showDocs, setShowDocs] = useState(false);
+  const [predictionSort, setPredictionSort] = useState<'severity' | 'probability'>('severity');
   const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null);
+  // Drug set key of the pair or triplet shown in the graph instead of the full combination
+  const [focusedCombination, setFocusedCombination] = useState<string | null>(null);
+  // The graph card shows either the active session or all sessions merged
+  const [graphView, setGraphView] = useState<'session' | 'global'>('session');
+  const [globalFilter, setGlobalFilter] = useState<GlobalGraphFilter>({});
+  // Side effect whose mechanism paths are highlighted, and the single path picked among them
+  const [explainedEffect, setExplainedEffect] = useState<string | null>(null);
+  const [selectedPathIndex, setSelectedPathIndex] = useState<number | null>(null);
+  // Node size and color from the model's `val` and node types, or from a graph metric
+  const [graphMetric, setGraphMetric] = useState<GraphMetric>('model');
+  // Node whose neighbors are being fetched, and the expansion (by timestamp) whose new nodes are highlighted
+  const [expandingNodeId, setExpandingNodeId] = useState<string | null>(null);
+  const [highlightedExpansion, setHighlightedExpansion] = useState<number | null>(null);
+  // Shown in the node details when an expansion failed or found nothing new
+  const [expansionNotice, setExpansionNotice] = useState<{ nodeId: string; message: string } | null>(null);
 
   // Initialize Theme
   useEffect(() => {
@@ -81,7 +154,8 @@ const App: React.FC = () => {
       try {
         const parsed = JSON.parse(savedSessions);
         if (Array.isArray(parsed)) {
-          setSessions(parsed);
+          // Older sessions only know DRUG, PROTEIN and SIDE_EFFECT nodes and free-text edge labels
+          setSessions(parsed.map(migrateSession));
         }
       } catch (e) {
         console.error('Failed to load history:', e);
@@ -91,54 +165,299 @@ const App: React.FC = () => {
 
   // Save history to local storage whenever it changes
   useEffect(() => {
-    localStorage.setItem('neurograph_sessions', JSON.stringify(sessions));
+    try {
+      localStorage.setItem('neurograph_sessions', JSON.stringify(sessions));
+    } catch (e) {
+      // Raw responses make sessions large; a full quota must not break the app
+      console.error('Failed to save history:', e);
+    }
   }, [sessions]);
 
   // Derived state for the active view
   const activeSession = sessions.find(s => s.id === activeSessionId);
+  // Read by async handlers that must not apply results to a session the user has left
+  const activeSessionIdRef = useRef(activeSessionId);
+  activeSessionIdRef.current = activeSessionId;
   const result = activeSession?.result || null;
+  // The graph shows a single pair or triplet when one is picked in the pairwise matrix
+  // ...or a regimen with one drug swapped for an alternative
+  const focusedEntry = focusedCombination
+    ? [...(activeSession?.decomposition ?? []), ...(activeSession?.alternatives ?? []).flatMap(c => c.entries)]
+        .find(e => drugSetKey(e.drugs) === focusedCombination)
+    : undefined;
+  const graphResult = focusedEntry?.result ?? result;
+  // Memoized: a new graph object would restart the force simulation on every render
+  const globalGraph = useMemo(
+    () => (graphView === 'global' ? buildGlobalGraph(sessions, globalFilter) : null),
+    [graphView, sessions, globalFilter]
+  );
+  const sessionDrugs = useMemo(() => listSessionDrugs(sessions), [sessions]);
+  const displayedGraph = globalGraph ?? graphResult;
+  const graphAnalytics = useMemo(() => (displayedGraph ? analyzeGraph(displayedGraph) : null), [displayedGraph]);
+  const styledNodes = useMemo(
+    () => (displayedGraph && graphAnalytics ? applyGraphMetric(displayedGraph.nodes, graphAnalytics, graphMetric) : null),
+    [displayedGraph, graphAnalytics, graphMetric]
+  );
+  const nodeColors = useMemo(
+    () => (graphAnalytics ? communityColors(graphAnalytics, graphMetric) : null),
+    [graphAnalytics, graphMetric]
+  );
+  const recordedProviderId = activeSession?.providerId ?? activeSession?.generation?.providerId;
+  const pkReport = useMemo(
+    () => (result && activeSession ? crossCheckPkClaims(result, activeSession.drugs) : null),
+    [result, activeSession?.drugs]
+  );
+  // PK verdicts are drawn on the full-regimen graph they were checked against
+  const pkLinkColors = useMemo(
+    () => (pkReport && !globalGraph && !focusedEntry ? pkVerdictLinkColors(pkReport) : null),
+    [pkReport, globalGraph, focusedEntry]
+  );
 
-  const handlePredict = async () => {
-    // Filter out empty strings
-    const activeDrugs = drugs.filter(d => d.trim() !== '');
+  const explanation = useMemo(() => {
+    const prediction = result?.predictions.find(p => p.sideEffect === explainedEffect);
+    const outcome = prediction && findOutcomeNode(prediction, result!.nodes);
+    if (!outcome) return null;
+    const paths = findMechanismPaths(result!, outcome.id, activeSession?.drugs ?? []);
+    return { outcome, paths, descriptions: paths.map(p => describePath(p, result!.nodes)) };
+  }, [result, explainedEffect, activeSession?.drugs]);
+  // Only drawn over the full-regimen graph the paths were found in; memoized so the graph is not restyled every render
+  const pathHighlight = useMemo((): GraphHighlight | null => {
+    if (!explanation || globalGraph || focusedEntry) return null;
+    const paths = selectedPathIndex === null ? explanation.paths : [explanation.paths[selectedPathIndex]];
+    return {
+      nodeIds: [explanation.outcome.id, ...paths.flatMap(p => p.nodeIds)],
+      links: paths.flatMap(p => p.steps.map((s): [string, string] => [s.from, s.to]))
+    };
+  }, [explanation, selectedPathIndex, globalGraph, focusedEntry]);
+  // New nodes of the latest expansion, together with the node they were fetched for
+  const expansionHighlight = useMemo((): GraphHighlight | null => {
+    const expansion = activeSession?.expansions?.find(e => e.timestamp === highlightedExpansion);
+    if (!expansion || globalGraph || focusedEntry) return null;
+    return { nodeIds: [expansion.nodeId, ...expansion.nodeIds], links: expansion.links };
+  }, [activeSession, highlightedExpansion, globalGraph, focusedEntry]);
+
+  const runAnalysis = async (
+    provider: PredictionProvider,
+    options: {
+      drugs?: string[];
+      forceRefresh?: boolean;
+      ensembleSize?: number;
+      decomposition?: { includeTriplets: boolean };
+      patient?: PatientProfile;
+      regimens?: DrugRegimen[];
+      settings?: RunSettings; // Earlier session's settings to reproduce
+    } = {}
+  ) => {
+    // Filter out empty strings, keeping each drug's regimen alongside it
+    const inputDrugs = options.drugs ?? drugs;
+    const inputRegimens = options.regimens ?? (options.drugs ? [] : regimens);
+    const activeIndexes = inputDrugs.map((_, i) => i).filter(i => inputDrugs[i].trim() !== '');
+    const rawPatient = options.patient ?? patientProfile;
+    try {
+      assertSafeInput(activeIndexes.map(i => inputDrugs[i]), provider.patientAware ? rawPatient : undefined);
+    } catch (err) {
+      setError(classifyError(err));
+      return;
+    }
+    // Brands, salts and misspellings are mapped to generic names so they share prompts, cache and history
+    const { drugs: activeDrugs, resolutions } = canonicalizeDrugs(activeIndexes.map(i => inputDrugs[i]));
+    const inputWarnings: ValidationWarning[] = resolutions
+      .filter(r => r.match === 'unresolved')
+      .map(r => ({ code: 'UNRESOLVED_DRUG', message: `"${r.name}" is not in the drug dictionary and was analyzed as typed.` }));
+    const activeRegimens = activeIndexes.map(i => inputRegimens[i] ?? {});
     if (activeDrugs.length < 2) {
-        setError("Please enter at least two drugs to analyze interactions.");
+        setError(new PredictionError('invalid_input', "Please enter at least two drugs to analyze interactions."));
         return;
     }
     
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setLoading(true);
     setError(null);
+    setRetryStatus(null);
     setSelectedNode(null);
+    setFocusedCombination(null);
+    setExplainedEffect(null);
+    setHighlightedExpansion(null);
+    const runs = options.ensembleSize ?? 1;
+    // Only recorded (and sent) when the provider can take it into account
+    const patient = provider.patientAware && !isEmptyPatientProfile(rawPatient) ? normalizePatientProfile(rawPatient) : undefined;
     try {
-      const data = await predictInteractions(activeDrugs);
+      const predictionOptions = {
+        forceRefresh: options.forceRefresh,
+        signal: controller.signal,
+        patient,
+        settings: options.settings,
+        onRetry: (attempt: number, delayMs: number, err: PredictionError) =>
+          setRetryStatus(`${ERROR_GUIDANCE[err.kind].title}. Retrying in ${Math.ceil(delayMs / 1000)} s (attempt ${attempt + 1})...`)
+      };
+      const { result: data, warnings, cachedAt, ensembleSize: mergedRuns, generation } = runs > 1
+        ? await runEnsemblePrediction(activeDrugs, provider, {
+            ...predictionOptions,
+            size: runs,
+            onRunComplete: (completed, total) => setProgressStatus(`${completed} of ${total} ensemble runs complete`)
+          })
+        : await runPrediction(activeDrugs, provider, predictionOptions);
+
+      // Pairs (and triplets) only add information beyond the full combination from three drugs on
+      const decomposition = options.decomposition && activeDrugs.length > 2
+        ? await runDecomposition(activeDrugs, provider, {
+            ...predictionOptions,
+            includeTriplets: options.decomposition.includeTriplets,
+            onProgress: (completed, total) => setProgressStatus(`${completed} of ${total} sub-combinations analyzed`)
+          })
+        : undefined;
       
       const newSession: AnalysisSession = {
         id: Date.now().toString(),
         drugs: activeDrugs,
         result: data,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        warnings: [...inputWarnings, ...warnings],
+        providerId: provider.id,
+        cachedAt,
+        ensembleSize: mergedRuns,
+        decomposition,
+        patient,
+        regimens: activeRegimens.some(isRegimenSet) ? activeRegimens : undefined,
+        generation
       };
 
       setSessions(prev => [newSession, ...prev]);
       setActiveSessionId(newSession.id);
+      setGraphView('session');
       setExpandedSessions(prev => ({ ...prev, [newSession.id]: true }));
 
     } catch (err: any) {
-      setError(err.message || 'An unexpected error occurred.');
+      setError(classifyError(err));
     } finally {
+      abortControllerRef.current = null;
       setLoading(false);
+      setRetryStatus(null);
+      setProgressStatus(null);
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handlePredict = () => runAnalysis(predictionProvider, {
+    ensembleSize,
+    decomposition: decompose ? { includeTriplets } : undefined
+  });
+
+  // Evidence subgraph from imported datasets, complementing the model prediction
+  const handleBuildEvidence = () => runAnalysis(knowledgeStoreProvider);
+
+  // Backend that produced a session. Older sessions may only record it in their generation metadata,
+  // the oldest not at all; for those the user decides whether the current backend may stand in.
+  const sessionProvider = (session: AnalysisSession): PredictionProvider | null => {
+    const id = session.providerId ?? session.generation?.providerId;
+    if (id) return getPredictionProvider(id);
+    return window.confirm(`This session does not record which model produced it. Use ${predictionProvider.label}?`)
+      ? predictionProvider
+      : null;
+  };
+
+  // Bypass the cache for the active session's drug set and replace the cached entry
+  const handleRerunFresh = () => {
+    if (!activeSession) return;
+    const provider = sessionProvider(activeSession);
+    if (!provider) return;
+    runAnalysis(provider, {
+      drugs: activeSession.drugs,
+      forceRefresh: true,
+      ensembleSize: activeSession.ensembleSize,
+      decomposition: activeSession.decomposition
+        ? { includeTriplets: activeSession.decomposition.some(e => e.drugs.length === 3) }
+        : undefined,
+      patient: activeSession.patient ?? {},
+      regimens: activeSession.regimens
+    });
+  };
+
+  // Same drugs, options and generation settings as the active session, even if the prompt has moved on
+  const handleRerunSameSettings = () => {
+    const generation = activeSession?.generation;
+    if (!activeSession || !generation) return;
+    runAnalysis(getPredictionProvider(generation.providerId), {
+      drugs: activeSession.drugs,
+      forceRefresh: true,
+      ensembleSize: activeSession.ensembleSize,
+      decomposition: activeSession.decomposition
+        ? { includeTriplets: activeSession.decomposition.some(e => e.drugs.length === 3) }
+        : undefined,
+      patient: activeSession.patient ?? {},
+      regimens: activeSession.regimens,
+      settings: { promptVersion: generation.promptVersion, modelId: generation.modelId, temperature: generation.temperature }
+    });
+  };
+
+  // Analyzes the active regimen with `target` swapped for each suggested substitute
+  const handleSuggestAlternatives = async (target: string) => {
+    const session = activeSession;
+    if (!session) return;
+    const candidates = findAlternatives(session.drugs, target);
+    if (candidates.length === 0) return;
+    const provider = sessionProvider(session);
+    if (!provider) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setLoading(true);
+    setError(null);
+    setFocusedCombination(null);
+    try {
+      const entries = await runAlternatives(session.drugs, target, candidates, provider, {
+        signal: controller.signal,
+        patient: session.patient,
+        onProgress: (completed, total) => setProgressStatus(`${completed} of ${total} alternatives analyzed`)
+      });
+      const comparison = { target, entries, createdAt: Date.now() };
+      setSessions(prev => prev.map(s => s.id === session.id
+        ? { ...s, alternatives: [...(s.alternatives ?? []).filter(c => c.target !== target), comparison] }
+        : s));
+    } catch (err: any) {
+      setError(classifyError(err));
+    } finally {
+      abortControllerRef.current = null;
+      setLoading(false);
+      setProgressStatus(null);
+    }
+  };
+
+  const handleDownloadRaw = (session: AnalysisSession) => {
+    const raw = (session.generation?.rawResponses ?? []).map(r => {
+      try {
+        return JSON.parse(r);
+      } catch {
+        return r;
+      }
+    });
+    downloadJSON(raw.length === 1 ? raw[0] : raw, `neurograph_raw_${session.id.slice(-6)}.json`);
+  };
+
+  const handleClearCache = async () => {
+    await clearAnalysisCache();
+  };
+
   const handleRandomize = () => {
     const randomCombo = EXAMPLE_COMBINATIONS[Math.floor(Math.random() * EXAMPLE_COMBINATIONS.length)];
     setDrugs([...randomCombo]);
+    setRegimens(randomCombo.map(() => ({})));
   };
 
   const handleRestoreSession = (session: AnalysisSession) => {
     setActiveSessionId(session.id);
+    setGraphView('session');
     setDrugs([...session.drugs]);
+    setRegimens(session.regimens ? [...session.regimens] : session.drugs.map(() => ({})));
+    setPatientProfile(session.patient ?? {});
     setSelectedNode(null);
+    setFocusedCombination(null);
+    setExplainedEffect(null);
+    setHighlightedExpansion(null);
     // Scroll to top to see graph
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
@@ -197,11 +516,19 @@ const App: React.FC = () => {
 
   const addDrugInput = () => {
     setDrugs([...drugs, '']);
+    setRegimens([...regimens, {}]);
   };
 
   const removeDrugInput = (index: number) => {
     const newDrugs = drugs.filter((_, i) => i !== index);
     setDrugs(newDrugs);
+    setRegimens(regimens.filter((_, i) => i !== index));
+  };
+
+  const handleRegimenChange = (index: number, regimen: DrugRegimen) => {
+    const newRegimens = [...regimens];
+    newRegimens[index] = regimen;
+    setRegimens(newRegimens);
   };
 
   const handleDrugChange = (index: number, value: string) => {
@@ -210,11 +537,104 @@ const App: React.FC = () => {
     setDrugs(newDrugs);
   };
 
-  const chartData = result?.predictions.map((p, index) => ({
+  // Edges touching the selected node, with the evidence cited for each
+  const selectedNodeLinks = selectedNode && displayedGraph
+    ? displayedGraph.links.filter(l => l.source === selectedNode.id || l.target === selectedNode.id)
+    : [];
+  const nodeLabel = (id: string) => displayedGraph?.nodes.find(n => n.id === id)?.label ?? id;
+  // In the global view, the sessions that contributed the selected entity or one of its links
+  const selectedNodeSessions = selectedNode && globalGraph
+    ? sessions.filter(s => globalGraph.nodes.find(n => n.id === selectedNode.id)?.sessionIds.includes(s.id))
+    : [];
+  const linkSessionCount = (link: GraphLink) =>
+    globalGraph?.links.find(l => l.source === link.source && l.target === link.target && l.type === link.type)?.sessionIds.length;
+
+  const handleToggleGraphView = () => {
+    setGraphView(view => (view === 'global' ? 'session' : 'global'));
+    setSelectedNode(null);
+  };
+
+  // Toggles the explanation of a prediction and shows its outcome in the full-regimen graph
+  const handleExplainPrediction = (prediction: InteractionPrediction) => {
+    if (explainedEffect === prediction.sideEffect) {
+      setExplainedEffect(null);
+      return;
+    }
+    setExplainedEffect(prediction.sideEffect);
+    setSelectedPathIndex(null);
+    setHighlightedExpansion(null);
+    setFocusedCombination(null);
+    setGraphView('session');
+    setSelectedNode((result && findOutcomeNode(prediction, result.nodes)) ?? null);
+  };
+
+  // Fetches further neighbors of a node from the session's provider (or the knowledge store) and merges them into its graph
+  const handleExpandNode = async (node: GraphNode) => {
+    const session = activeSession;
+    if (!session || expandingNodeId) return;
+    const provider = sessionProvider(session);
+    if (!provider) return;
+
+    const controller = new AbortController();
+    expansionControllerRef.current = controller;
+    setExpandingNodeId(node.id);
+    setExpansionNotice(null);
+    try {
+      const outcome = await runNodeExpansion(node, session.drugs, session.result, provider, {
+        signal: controller.signal,
+        patient: session.patient
+      });
+      // The neighbors belong to the graph they were fetched for
+      if (activeSessionIdRef.current !== session.id) return;
+      const merged = mergeNeighborhood(session.result, outcome.neighborhood);
+      if (merged.nodeIds.length === 0 && merged.links.length === 0) {
+        setExpansionNotice({ nodeId: node.id, message: 'No further neighbors were found.' });
+        return;
+      }
+      const expansion = {
+        nodeId: node.id,
+        providerId: outcome.providerId,
+        timestamp: Date.now(),
+        nodeIds: merged.nodeIds,
+        links: merged.links
+      };
+      // Repairs of the expansion's output are listed with the session's own
+      setSessions(prev => prev.map(s => s.id === session.id
+        ? {
+            ...s,
+            result: merged.result,
+            expansions: [...(s.expansions ?? []), expansion],
+            warnings: outcome.warnings.length > 0 ? [...(s.warnings ?? []), ...outcome.warnings] : s.warnings
+          }
+        : s));
+      setHighlightedExpansion(expansion.timestamp);
+      setExplainedEffect(null);
+    } catch (err: any) {
+      if (activeSessionIdRef.current !== session.id) return;
+      const classified = classifyError(err);
+      setExpansionNotice({ nodeId: node.id, message: `${ERROR_GUIDANCE[classified.kind].title}: ${classified.message}` });
+    } finally {
+      if (expansionControllerRef.current === controller) expansionControllerRef.current = null;
+      setExpandingNodeId(null);
+    }
+  };
+
+  // Leaving a session cancels the expansion running for it
+  useEffect(() => () => expansionControllerRef.current?.abort(), [activeSessionId]);
+
+  const selectedNodeExpansions = selectedNode && !globalGraph && !focusedEntry
+    ? (activeSession?.expansions ?? []).filter(e => e.nodeId === selectedNode.id)
+    : [];
+
+  const sortedPredictions = result
+    ? [...result.predictions].sort(predictionSort === 'severity' ? compareBySeverity : compareByProbability)
+    : [];
+
+  const chartData = sortedPredictions.map(p => ({
     name: p.sideEffect,
     uv: p.probability * 100,
-    fill: index === 0 ? '#ef4444' : index === 1 ? '#f97316' : '#eab308'
-  })) || [];
+    fill: p.severity ? SEVERITY_COLORS[p.severity] : UNGRADED_COLOR
+  }));
 
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-slate-100 selection:bg-purple-500/30 flex flex-col transition-colors duration-300">
@@ -297,6 +717,19 @@ const App: React.FC = () => {
                     <Database className="w-4 h-4 text-purple-500 dark:text-purple-400" />
                     New Analysis
                   </h3>
+                  <div className="flex gap-1.5">
+                  <button
+                    onClick={() => setShowDosing(!showDosing)}
+                    className={`p-1.5 text-xs rounded-lg transition-colors flex items-center gap-1.5 border ${
+                      showDosing
+                        ? 'bg-purple-600 text-white border-purple-600'
+                        : 'bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white border-slate-200 dark:border-slate-700'
+                    }`}
+                    title="Enter dose, route and schedule for the concentration simulation"
+                  >
+                    <Pill className="w-3 h-3" />
+                    Dosing
+                  </button>
                   <button 
                     onClick={handleRandomize}
                     className="p-1.5 text-xs bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white rounded-lg transition-colors flex items-center gap-1.5 border border-slate-200 dark:border-slate-700"
@@ -305,6 +738,7 @@ const App: React.FC = () => {
                     <Shuffle className="w-3 h-3" />
                     Random
                   </button>
+                  </div>
                 </div>
                 
                 <div className="space-y-4">
@@ -317,6 +751,8 @@ const App: React.FC = () => {
                             onChange={(val) => handleDrugChange(index, val)} 
                             onEnter={handlePredict}
                             placeholder={index === 0 ? "e.g. Warfarin" : "e.g. Aspirin"} 
+                            regimen={regimens[index]}
+                            onRegimenChange={showDosing ? (regimen) => handleRegimenChange(index, regimen) : undefined}
                           />
                        </div>
                        {drugs.length > 2 && (
@@ -340,31 +776,109 @@ const App: React.FC = () => {
                   </button>
 
                   <div className="h-px bg-slate-200 dark:bg-slate-700/50 my-2"></div>
+
+                  {/* Self-consistency ensemble size */}
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1.5" title="Run the analysis several times and merge the results into intervals">
+                      <Layers className="w-3 h-3" />
+                      Ensemble runs
+                    </span>
+                    <div className="flex rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
+                      {ENSEMBLE_SIZES.map(size => (
+                        <button
+                          key={size}
+                          onClick={() => setEnsembleSize(size)}
+                          disabled={loading}
+                          className={`px-2.5 py-1 text-[11px] font-mono transition-colors ${
+                            ensembleSize === size
+                              ? 'bg-purple-600 text-white'
+                              : 'bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'
+                          }`}
+                        >
+                          {size === 1 ? 'Off' : size}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                   
-                  <button 
-                    onClick={handlePredict}
-                    disabled={loading || drugs.filter(d => d.trim()).length < 2}
-                    className={`w-full py-3 rounded-xl font-bold flex items-center justify-center gap-2 transition-all duration-300 text-sm
-                      ${loading || drugs.filter(d => d.trim()).length < 2
-                        ? 'bg-slate-200 dark:bg-slate-700 cursor-not-allowed text-slate-400 dark:text-slate-500' 
-                        : 'bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 text-white shadow-lg shadow-purple-900/30 hover:scale-[1.02] active:scale-[0.98]'
-                      }`}
-                  >
-                    {loading ? (
-                      <>
-                        <div className="w-4 h-4 border-2 border-white/20 border-t-white rounded-full animate-spin" />
-                        Processing...
-                      </>
-                    ) : (
-                      <>
-                        <Activity className="w-4 h-4" />
-                        Run Prediction
-                      </>
+                  {/* Pairwise decomposition of regimens with three or more drugs */}
+                  <div className="flex items-center justify-between gap-2 text-xs text-slate-500 dark:text-slate-400">
+                    <label className={`flex items-center gap-1.5 ${drugs.filter(d => d.trim()).length < 3 ? 'opacity-50' : 'cursor-pointer'}`} title="Also analyze every pair of the regimen and show a risk matrix">
+                      <input
+                        type="checkbox"
+                        checked={decompose}
+                        onChange={e => setDecompose(e.target.checked)}
+                        disabled={loading || drugs.filter(d => d.trim()).length < 3}
+                        className="accent-purple-600"
+                      />
+                      Pairwise matrix
+                    </label>
+                    <label className={`flex items-center gap-1.5 ${!decompose || drugs.filter(d => d.trim()).length < 4 ? 'opacity-50' : 'cursor-pointer'}`} title="Also analyze every triplet (regimens of four or more drugs)">
+                      <input
+                        type="checkbox"
+                        checked={includeTriplets}
+                        onChange={e => setIncludeTriplets(e.target.checked)}
+                        disabled={loading || !decompose || drugs.filter(d => d.trim()).length < 4}
+                        className="accent-purple-600"
+                      />
+                      Include triplets
+                    </label>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <button 
+                      onClick={handlePredict}
+                      disabled={loading || drugs.filter(d => d.trim()).length < 2}
+                      className={`w-full py-3 rounded-xl font-bold flex items-center justify-center gap-2 transition-all duration-300 text-sm
+                        ${loading || drugs.filter(d => d.trim()).length < 2
+                          ? 'bg-slate-200 dark:bg-slate-700 cursor-not-allowed text-slate-400 dark:text-slate-500' 
+                          : 'bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 text-white shadow-lg shadow-purple-900/30 hover:scale-[1.02] active:scale-[0.98]'
+                        }`}
+                    >
+                      {loading ? (
+                        <>
+                          <div className="w-4 h-4 border-2 border-white/20 border-t-white rounded-full animate-spin" />
+                          Processing...
+                        </>
+                      ) : (
+                        <>
+                          <Activity className="w-4 h-4" />
+                          Run Prediction
+                        </>
+                      )}
+                    </button>
+                    {loading && (
+                      <button
+                        onClick={handleCancel}
+                        className="px-4 py-3 rounded-xl font-bold text-sm flex items-center gap-1.5 bg-slate-100 dark:bg-slate-800 hover:bg-red-100 dark:hover:bg-red-900/30 text-slate-600 dark:text-slate-300 hover:text-red-600 dark:hover:text-red-400 border border-slate-200 dark:border-slate-700 transition-colors"
+                        title="Cancel the running prediction"
+                      >
+                        <X className="w-4 h-4" />
+                        Cancel
+                      </button>
                     )}
-                  </button>
+                  </div>
+                  {progressStatus && (
+                    <p className="text-[11px] text-slate-500 dark:text-slate-400">{progressStatus}</p>
+                  )}
+                  {retryStatus && (
+                    <p className="text-[11px] text-amber-600 dark:text-amber-400">{retryStatus}</p>
+                  )}
                 </div>
               </div>
 
+              <PatientProfilePanel
+                profile={patientProfile}
+                onChange={setPatientProfile}
+                disabled={loading}
+                providerAware={Boolean(predictionProvider.patientAware)}
+              />
+
+              <DatasetImporter
+                onBuildSubgraph={handleBuildEvidence}
+                canBuild={!loading && drugs.filter(d => d.trim()).length >= 2}
+              />
+
               {/* Current Active Result Details */}
               {activeSession && result && (
                 <div className="flex flex-col gap-4 animate-fade-in">
@@ -374,6 +888,45 @@ const App: React.FC = () => {
                       <span className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Active Analysis View</span>
                    </div>
 
+                   {/* Cache Indicator */}
+                   <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl text-[11px] bg-white/50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700">
+                      {activeSession.cachedAt ? (
+                        <span className="flex items-center gap-1.5 text-amber-600 dark:text-amber-400" title={`Cached ${new Date(activeSession.cachedAt).toLocaleString()}`}>
+                          <Archive className="w-3 h-3" />
+                          Served from cache
+                        </span>
+                      ) : (
+                        <span className="flex items-center gap-1.5 text-green-600 dark:text-green-400">
+                          <Zap className="w-3 h-3" />
+                          Fresh result
+                        </span>
+                      )}
+                      <button
+                        onClick={handleRerunFresh}
+                        disabled={loading}
+                        className="flex items-center gap-1 text-slate-500 hover:text-purple-600 dark:hover:text-purple-400 disabled:opacity-50 transition-colors"
+                        title="Ignore the cache and run this combination again"
+                      >
+                        <RefreshCw className="w-3 h-3" />
+                        Re-run fresh
+                      </button>
+                   </div>
+
+                   {/* Generation settings of the active session */}
+                   {activeSession.generation && (
+                     <RunDetails
+                        generation={activeSession.generation}
+                        outdated={describeOutdatedSettings(activeSession.generation)}
+                        canReproduce={!activeSession.generation.promptVersion || hasPromptTemplate(activeSession.generation.promptVersion)}
+                        reproduceHint={activeSession.generation.promptVersion && !hasPromptTemplate(activeSession.generation.promptVersion)
+                          ? `Prompt ${activeSession.generation.promptVersion} is no longer available`
+                          : 'Run this combination again with the recorded prompt, model and temperature'}
+                        onReproduce={handleRerunSameSettings}
+                        onDownloadRaw={() => handleDownloadRaw(activeSession)}
+                        disabled={loading}
+                     />
+                   )}
+
                    {/* Summary Card */}
                    <div className="glass-panel p-5 rounded-2xl border-l-4 border-l-blue-500">
                       <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">Analysis Summary</h4>
@@ -382,29 +935,178 @@ const App: React.FC = () => {
                       </p>
                    </div>
 
+                   {/* Pair-level attribution of the regimen's risk */}
+                   {activeSession.decomposition && activeSession.decomposition.length > 0 && (
+                     <PairwiseMatrix
+                        drugs={activeSession.drugs}
+                        entries={activeSession.decomposition}
+                        fullRisk={combinationRisk(result)}
+                        selectedKey={focusedCombination}
+                        onSelect={entry => {
+                          setFocusedCombination(entry ? drugSetKey(entry.drugs) : null);
+                          setSelectedNode(null);
+                        }}
+                     />
+                   )}
+
+                   {/* Same-indication substitutes compared with the original regimen */}
+                   <AlternativesComparison
+                      key={activeSession.id}
+                      drugs={activeSession.drugs}
+                      result={result}
+                      risk={combinationRisk(result)}
+                      comparisons={activeSession.alternatives ?? []}
+                      loading={loading}
+                      selectedKey={focusedCombination}
+                      onSuggest={handleSuggestAlternatives}
+                      onSelect={entry => {
+                        setFocusedCombination(entry ? drugSetKey(entry.drugs) : null);
+                        setSelectedNode(null);
+                      }}
+                   />
+
+                   {/* Validation Warnings */}
+                   {activeSession.warnings && activeSession.warnings.length > 0 && (
+                     <div className="glass-panel p-5 rounded-2xl border-l-4 border-l-amber-500">
+                        <h4 className="text-xs font-bold text-amber-600 dark:text-amber-400 uppercase tracking-wider mb-2 flex items-center gap-2">
+                            <AlertTriangle className="w-3 h-3" />
+                            Data Quality ({activeSession.warnings.length})
+                        </h4>
+                        <p className="text-[11px] text-slate-500 dark:text-slate-400 mb-2">Issues found in the input, and repairs applied to the model output before rendering:</p>
+                        <ul className="space-y-1.5 max-h-40 overflow-y-auto custom-scrollbar">
+                            {activeSession.warnings.map((w, i) => (
+                                <li key={i} className="text-xs text-slate-600 dark:text-slate-300 flex gap-2">
+                                    <span className="font-mono text-[9px] px-1 py-0.5 h-fit rounded bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 border border-amber-200 dark:border-amber-800/50 shrink-0">{w.code}</span>
+                                    <span>{w.message}</span>
+                                </li>
+                            ))}
+                        </ul>
+                     </div>
+                   )}
+
                    {/* Predictions List */}
                    <div className="glass-panel p-5 rounded-2xl">
-                      <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-3">Predicted Side Effects</h4>
+                      <div className="flex justify-between items-center mb-3">
+                          <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Predicted Side Effects</h4>
+                          <button
+                              onClick={() => setPredictionSort(predictionSort === 'severity' ? 'probability' : 'severity')}
+                              className="text-[10px] text-slate-500 hover:text-purple-600 dark:hover:text-purple-400 flex items-center gap-1 transition-colors"
+                              title="Toggle sort order"
+                          >
+                              <ArrowUpDown className="w-3 h-3" />
+                              {predictionSort === 'severity' ? 'By severity' : 'By probability'}
+                          </button>
+                      </div>
                       <div className="space-y-3">
-                          {result.predictions.map((pred, i) => (
-                              <div key={i} className="group relative bg-white/50 dark:bg-slate-800/50 p-3 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-purple-500/50 transition-colors">
+                          {sortedPredictions.map((pred, i) => {
+                            const isExplained = explainedEffect === pred.sideEffect;
+                            const hasOutcome = Boolean(findOutcomeNode(pred, result.nodes));
+                            return (
+                              <div key={i} className={`group relative bg-white/50 dark:bg-slate-800/50 p-3 rounded-xl border border-slate-200 dark:border-slate-700 border-l-4 ${pred.severity ? SEVERITY_BORDERS[pred.severity] : 'border-l-slate-400'} hover:border-purple-500/50 transition-colors ${isExplained ? 'ring-2 ring-purple-500/50' : ''}`}>
                                   <div className="flex justify-between items-start mb-1">
-                                      <h5 className="font-semibold text-red-600 dark:text-red-400 text-sm flex items-center gap-2">
-                                          <AlertTriangle className="w-3 h-3" />
+                                      <h5 className="font-semibold text-slate-800 dark:text-slate-100 text-sm flex items-center gap-2">
+                                          <AlertTriangle className="w-3 h-3" style={{ color: pred.severity ? SEVERITY_COLORS[pred.severity] : UNGRADED_COLOR }} />
                                           {pred.sideEffect}
                                       </h5>
-                                      <span className="text-[10px] font-mono px-1.5 py-0.5 bg-slate-100 dark:bg-slate-900 rounded text-slate-600 dark:text-slate-400 border border-slate-200 dark:border-slate-700">
-                                          {(pred.probability * 100).toFixed(0)}%
-                                      </span>
+                                      <div className="flex items-center gap-1.5 shrink-0">
+                                          <button
+                                              onClick={() => handleExplainPrediction(pred)}
+                                              disabled={!hasOutcome}
+                                              className={`p-1 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                                                isExplained
+                                                  ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300'
+                                                  : 'text-slate-500 hover:text-purple-600 dark:hover:text-purple-400'
+                                              }`}
+                                              title={hasOutcome ? "Explain: highlight the mechanism paths to this outcome" : "This side effect has no node in the graph"}
+                                          >
+                                              <Route className="w-3 h-3" />
+                                          </button>
+                                          <span className="text-[10px] font-mono px-1.5 py-0.5 bg-slate-100 dark:bg-slate-900 rounded text-slate-600 dark:text-slate-400 border border-slate-200 dark:border-slate-700">
+                                              {(pred.probability * 100).toFixed(0)}%
+                                          </span>
+                                      </div>
+                                  </div>
+                                  <div className="flex items-center gap-2 mb-1.5">
+                                      <SeverityBadge severity={pred.severity} />
+                                      {pred.onset && pred.onset !== 'unspecified' && (
+                                          <span className="text-[10px] text-slate-500 dark:text-slate-400 flex items-center gap-1">
+                                              <Timer className="w-3 h-3" />
+                                              {pred.onset === 'rapid' ? 'Rapid onset' : 'Delayed onset'}
+                                          </span>
+                                      )}
                                   </div>
                                   <p className="text-xs text-slate-600 dark:text-slate-400 line-clamp-2">{pred.description}</p>
-                                  <div className="absolute bottom-0 left-0 h-0.5 bg-gradient-to-r from-red-500 to-transparent transition-all duration-500" 
-                                       style={{ width: `${pred.probability * 100}%` }}></div>
+                                  {pred.management && (
+                                      <div className="mt-2 text-xs text-slate-700 dark:text-slate-300 flex gap-1.5">
+                                          <Stethoscope className="w-3 h-3 mt-0.5 shrink-0 text-blue-500" />
+                                          <span>
+                                              <span className="font-semibold">{MANAGEMENT_LABELS[pred.management.action]}</span>
+                                              {pred.management.recommendation && `: ${pred.management.recommendation}`}
+                                          </span>
+                                      </div>
+                                  )}
+                                  {pred.evidence && pred.evidence.length > 0 && (
+                                      <details className="mt-2">
+                                          <summary className="text-[10px] font-semibold text-slate-500 dark:text-slate-400 cursor-pointer hover:text-purple-600 dark:hover:text-purple-400 select-none">
+                                              Evidence ({pred.evidence.length})
+                                          </summary>
+                                          <div className="mt-1.5">
+                                              <EvidenceList evidence={pred.evidence} />
+                                          </div>
+                                      </details>
+                                  )}
+                                  {isExplained && explanation && (
+                                      <PathExplanation
+                                          outcomeLabel={explanation.outcome.label}
+                                          paths={explanation.descriptions}
+                                          selectedIndex={selectedPathIndex}
+                                          onSelect={setSelectedPathIndex}
+                                      />
+                                  )}
+                                  <div className="absolute bottom-0 left-0 h-0.5 transition-all duration-500" 
+                                       style={{ width: `${pred.probability * 100}%`, background: `linear-gradient(to right, ${pred.severity ? SEVERITY_COLORS[pred.severity] : UNGRADED_COLOR}, transparent)` }}></div>
                               </div>
-                          ))}
+                            );
+                          })}
                       </div>
                    </div>
 
+                   {/* Deterministic CYP450 / P-gp rule check of the pharmacokinetic edges */}
+                   {pkReport && <PkCrossCheck report={pkReport} />}
+
+                   {/* Centrality, hubs and communities of the graph on screen */}
+                   {displayedGraph && graphAnalytics && (
+                     <GraphAnalyticsPanel
+                        nodes={displayedGraph.nodes}
+                        analytics={graphAnalytics}
+                        metric={graphMetric}
+                        onMetricChange={setGraphMetric}
+                        onSelectNode={setSelectedNode}
+                     />
+                   )}
+
+                   {/* Plasma concentration curves with and without the regimen's perpetrators */}
+                   <PkSimulator
+                      drugs={activeSession.drugs}
+                      regimens={activeSession.regimens}
+                      weightKg={activeSession.patient?.weightKg}
+                      isDark={theme === 'dark'}
+                   />
+
+                   {/* Local GNN scores for the same drugs, unless the GNN produced this result */}
+                   {recordedProviderId !== 'gnn' && (
+                     <GnnComparison
+                        drugs={activeSession.drugs}
+                        predictions={result.predictions}
+                        comparedLabel={recordedProviderId ? getPredictionProvider(recordedProviderId).label : 'Model not recorded'}
+                     />
+                   )}
+
+                   {/* Spread of each prediction across ensemble runs */}
+                   {activeSession.ensembleSize && activeSession.ensembleSize > 1 && (
+                     <PredictionIntervals predictions={result.predictions} ensembleSize={activeSession.ensembleSize} />
+                   )}
+
                    {/* Recharts Visualization */}
                    <div className="glass-panel p-5 rounded-2xl h-56 shrink-0">
                       <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">Confidence Levels</h4>
@@ -433,9 +1135,17 @@ const App: React.FC = () => {
               )}
               
               {error && (
-                <div className="p-4 bg-red-100 dark:bg-red-900/20 border border-red-200 dark:border-red-800/50 rounded-xl text-red-700 dark:text-red-200 text-sm flex items-start gap-3">
+                <div className={`p-4 border rounded-xl text-sm flex items-start gap-3 ${
+                  error.kind === 'cancelled'
+                    ? 'bg-slate-100 dark:bg-slate-800/50 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300'
+                    : 'bg-red-100 dark:bg-red-900/20 border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-200'
+                }`}>
                   <AlertTriangle className="w-5 h-5 shrink-0" />
-                  {error}
+                  <div className="space-y-1 min-w-0">
+                    <div className="font-semibold">{ERROR_GUIDANCE[error.kind].title}</div>
+                    <div className="break-words">{error.message}</div>
+                    <div className="text-xs opacity-80">{ERROR_GUIDANCE[error.kind].guidance}</div>
+                  </div>
                 </div>
               )}
             </div>
@@ -455,25 +1165,52 @@ const App: React.FC = () => {
                         <Activity className="w-5 h-5 text-purple-600 dark:text-purple-400" />
                         <div className="flex flex-col">
                             <h3 className="font-semibold text-slate-800 dark:text-slate-200 leading-none mb-1 text-sm sm:text-base">
-                                {activeSession ? 'Interaction Topology' : 'Knowledge Graph'}
+                                {globalGraph ? 'Global Knowledge Graph' : activeSession ? 'Interaction Topology' : 'Knowledge Graph'}
                             </h3>
-                            {activeSession && (
+                            {globalGraph && (
+                                <div className="text-[10px] text-slate-500 dark:text-slate-400">
+                                    Merged from {globalGraph.sessionIds.length} {globalGraph.sessionIds.length === 1 ? 'session' : 'sessions'}
+                                </div>
+                            )}
+                            {!globalGraph && activeSession && (
                                 <div className="text-[10px] text-slate-500 dark:text-slate-400 flex items-center gap-1">
                                     <span className="font-mono bg-slate-100 dark:bg-slate-800 px-1 rounded border border-slate-200 dark:border-slate-700 hidden sm:inline">
-                                        {activeSession.drugs.length} Compounds
+                                        {(focusedEntry?.drugs ?? activeSession.drugs).length} Compounds
                                     </span>
                                     <span className="opacity-50 hidden sm:inline">•</span>
                                     <span className="truncate max-w-[150px] sm:max-w-md">
-                                        {activeSession.drugs.join(' + ')}
+                                        {(focusedEntry?.drugs ?? activeSession.drugs).join(' + ')}
                                     </span>
+                                    {focusedEntry && (
+                                        <button
+                                            onClick={() => setFocusedCombination(null)}
+                                            className="flex items-center gap-0.5 px-1 rounded bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 hover:bg-purple-200 dark:hover:bg-purple-900/50 transition-colors"
+                                            title="Show the full combination"
+                                        >
+                                            <X className="w-2.5 h-2.5" />
+                                            Full regimen
+                                        </button>
+                                    )}
                                 </div>
                             )}
                         </div>
                     </div>
                     <div className="flex items-center gap-4">
                       <div className="text-xs text-slate-500 font-mono hidden md:block">
-                          NODES: {result ? result.nodes.length : INITIAL_NODES.length} | EDGES: {result ? result.links.length : INITIAL_LINKS.length}
+                          NODES: {displayedGraph ? displayedGraph.nodes.length : INITIAL_NODES.length} | EDGES: {displayedGraph ? displayedGraph.links.length : INITIAL_LINKS.length}
                       </div>
+                      <button
+                        onClick={handleToggleGraphView}
+                        disabled={!globalGraph && sessions.length === 0}
+                        className={`p-1.5 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                          globalGraph
+                            ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300'
+                            : 'text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 hover:text-slate-900 dark:hover:text-white'
+                        }`}
+                        title={globalGraph ? "Show the active session" : "Merge all sessions into one graph"}
+                      >
+                        <Globe className="w-4 h-4" />
+                      </button>
                       <button 
                         onClick={() => setIsGraphExpanded(!isGraphExpanded)}
                         className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white transition-colors"
@@ -484,15 +1221,27 @@ const App: React.FC = () => {
                     </div>
                 </div>
 
+                {globalGraph && (
+                    <GlobalGraphFilters
+                        drugs={sessionDrugs}
+                        filter={globalFilter}
+                        includedSessions={globalGraph.sessionIds.length}
+                        totalSessions={sessions.length}
+                        onChange={setGlobalFilter}
+                    />
+                )}
+
                 {/* Graph Area */}
                 <div className="flex-1 relative bg-slate-50 dark:bg-slate-950 transition-colors duration-300">
+                    {/* Not keyed: session, focus and theme changes update the graph in place and keep its layout */}
                     <NetworkGraph 
-                        // Use key to force re-render on session or theme change
-                        key={`${activeSessionId || 'init'}-${theme}`}
-                        nodes={result ? result.nodes as any : INITIAL_NODES as any} 
-                        links={result ? result.links as any : INITIAL_LINKS as any}
+                        nodes={styledNodes ? styledNodes as any : INITIAL_NODES as any} 
+                        links={displayedGraph ? displayedGraph.links as any : INITIAL_LINKS as any}
                         onNodeClick={setSelectedNode}
                         isDarkMode={theme === 'dark'}
+                        highlight={pathHighlight ?? expansionHighlight}
+                        communityColors={nodeColors}
+                        linkColors={pkLinkColors}
                     />
 
                     {/* Node Details Overlay Card - Responsive: Bottom Sheet on Mobile, Top Right Card on Desktop */}
@@ -501,13 +1250,13 @@ const App: React.FC = () => {
                             <div className="glass-panel bg-white/95 dark:bg-slate-900/95 p-4 rounded-t-xl sm:rounded-xl border-t sm:border border-slate-200 dark:border-slate-600 shadow-2xl backdrop-blur-md">
                                 <div className="flex justify-between items-start mb-3">
                                     <div className="flex items-center gap-2">
-                                        <div className={`w-3 h-3 rounded-full shadow-lg shadow-current ${
-                                            selectedNode.type === 'DRUG' ? 'bg-purple-500 text-purple-500' : 
-                                            selectedNode.type === 'PROTEIN' ? 'bg-blue-500 text-blue-500' : 'bg-red-500 text-red-500'
-                                        }`}></div>
-                                        <span className="text-xs font-bold text-slate-500 dark:text-slate-300 uppercase tracking-wider">{selectedNode.type}</span>
+                                        <div
+                                            className="w-3 h-3 rounded-full shadow-lg shadow-current"
+                                            style={{ backgroundColor: nodeTypeStyle(selectedNode.type).color, color: nodeTypeStyle(selectedNode.type).color }}
+                                        ></div>
+                                        <span className="text-xs font-bold text-slate-500 dark:text-slate-300 uppercase tracking-wider">{nodeTypeStyle(selectedNode.type).label}</span>
                                     </div>
-                                    <button onClick={() => setSelectedNode(null)} className="text-slate-500 hover:text-slate-900 dark:hover:text-white transition-colors p-1">
+                                    <button onClick={() => { setSelectedNode(null); setHighlightedExpansion(null); }} className="text-slate-500 hover:text-slate-900 dark:hover:text-white transition-colors p-1">
                                         <X className="w-4 h-4" />
                                     </button>
                                 </div>
@@ -516,6 +1265,79 @@ const App: React.FC = () => {
                                 <p className="text-sm text-slate-600 dark:text-slate-300 leading-relaxed max-h-[150px] overflow-y-auto custom-scrollbar">
                                     {selectedNode.description || "No specific description available for this entity."}
                                 </p>
+                                {activeSession && !globalGraph && !focusedEntry && (
+                                    <div className="mt-3 space-y-1.5">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="text-[10px] text-slate-500 dark:text-slate-400">
+                                                {selectedNodeExpansions.length > 0
+                                                    ? `Expanded ${selectedNodeExpansions.length}× · ${selectedNodeExpansions.reduce((sum, e) => sum + e.nodeIds.length, 0)} nodes added`
+                                                    : 'Not expanded yet'}
+                                            </span>
+                                            <button
+                                                onClick={() => expandingNodeId === selectedNode.id
+                                                    ? expansionControllerRef.current?.abort()
+                                                    : handleExpandNode(selectedNode)}
+                                                disabled={expandingNodeId !== null && expandingNodeId !== selectedNode.id}
+                                                className="px-2.5 py-1 text-xs font-medium bg-purple-50 dark:bg-purple-600/20 text-purple-600 dark:text-purple-400 hover:bg-purple-100 dark:hover:bg-purple-600/30 border border-purple-200 dark:border-purple-500/30 rounded-lg flex items-center gap-1.5 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                                title={expandingNodeId === selectedNode.id
+                                                    ? "Stop fetching neighbors"
+                                                    : "Fetch further neighbors of this entity and add them to the session's graph"}
+                                            >
+                                                {expandingNodeId === selectedNode.id
+                                                    ? <div className="w-3 h-3 border-2 border-purple-300/30 border-t-purple-500 rounded-full animate-spin" />
+                                                    : <PlusCircle className="w-3 h-3" />}
+                                                {expandingNodeId === selectedNode.id ? 'Cancel' : 'Expand'}
+                                            </button>
+                                        </div>
+                                        {expansionNotice?.nodeId === selectedNode.id && (
+                                            <p className="text-[11px] text-amber-600 dark:text-amber-400 break-words">{expansionNotice.message}</p>
+                                        )}
+                                        {expansionHighlight && (
+                                            <button
+                                                onClick={() => setHighlightedExpansion(null)}
+                                                className="text-[10px] text-purple-600 dark:text-purple-400 hover:underline"
+                                            >
+                                                Clear new-node highlight
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                                {selectedNodeLinks.length > 0 && (
+                                    <div className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-700/50">
+                                        <h5 className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">Connections & Evidence</h5>
+                                        <div className="space-y-3 max-h-[200px] overflow-y-auto custom-scrollbar pr-1">
+                                            {selectedNodeLinks.map((link, i) => (
+                                                <div key={i}>
+                                                    <div className="text-xs text-slate-700 dark:text-slate-200 mb-1">
+                                                        {nodeLabel(link.source)} <span className="font-mono text-[10px] text-purple-600 dark:text-purple-400">{link.type}</span> {nodeLabel(link.target)}
+                                                        {globalGraph && <span className="ml-1 text-[10px] text-slate-500">×{linkSessionCount(link)}</span>}
+                                                    </div>
+                                                    <EvidenceList evidence={link.evidence} />
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+                                {selectedNodeSessions.length > 0 && (
+                                    <div className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-700/50">
+                                        <h5 className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">
+                                            Seen in {selectedNodeSessions.length} {selectedNodeSessions.length === 1 ? 'session' : 'sessions'}
+                                        </h5>
+                                        <div className="space-y-1 max-h-[120px] overflow-y-auto custom-scrollbar pr-1">
+                                            {selectedNodeSessions.map(s => (
+                                                <button
+                                                    key={s.id}
+                                                    onClick={() => handleRestoreSession(s)}
+                                                    className="w-full flex justify-between gap-2 text-left text-xs text-slate-700 dark:text-slate-300 hover:text-purple-600 dark:hover:text-purple-400 transition-colors"
+                                                    title="Open this session"
+                                                >
+                                                    <span className="truncate">{s.drugs.join(' + ')}</span>
+                                                    <span className="shrink-0 text-[10px] text-slate-500">{new Date(s.timestamp).toLocaleDateString()}</span>
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
                             </div>
                         </div>
                     )}
@@ -528,7 +1350,7 @@ const App: React.FC = () => {
                     <span>Double click background to reset zoom</span>
                 </div>
                 <div className="hidden sm:block">
-                    Model: <span className="text-purple-600 dark:text-purple-400">Gemini 3.0 Pro (High Precision)</span>
+                    Model: <span className="text-purple-600 dark:text-purple-400">{predictionProvider.label}</span>
                 </div>
             </div>
 
@@ -553,6 +1375,14 @@ const App: React.FC = () => {
                             <span className="text-xs text-slate-500 px-2 py-1 bg-white dark:bg-slate-800 rounded border border-slate-200 dark:border-slate-700">
                                 {sessions.length} Saved
                             </span>
+                            <button 
+                              onClick={handleClearCache}
+                              className="text-xs text-slate-500 hover:text-amber-500 dark:hover:text-amber-400 px-2 py-1 flex items-center gap-1 transition-colors"
+                              title="Discard all cached prediction results"
+                            >
+                               <Archive className="w-3 h-3" />
+                               Clear Cache
+                            </button>
                             <button 
                               onClick={handleClearHistory}
                               className="text-xs text-slate-500 hover:text-red-500 dark:hover:text-red-400 px-2 py-1 flex items-center gap-1 transition-colors"
@@ -595,6 +1425,26 @@ const App: React.FC = () => {
                                                 <span>{new Date(session.timestamp).toLocaleTimeString()}</span>
                                                 <span className="hidden sm:inline">•</span>
                                                 <span className="hidden sm:inline">{session.result.predictions.length} Predictions</span>
+                                                {session.cachedAt && (
+                                                    <span className="px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 text-[10px] font-mono">CACHED</span>
+                                                )}
+                                                {session.ensembleSize && session.ensembleSize > 1 && (
+                                                    <span className="px-1.5 py-0.5 rounded bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 text-[10px] font-mono">ENSEMBLE ×{session.ensembleSize}</span>
+                                                )}
+                                                {session.decomposition && session.decomposition.length > 0 && (
+                                                    <span className="px-1.5 py-0.5 rounded bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 text-[10px] font-mono">PAIRWISE</span>
+                                                )}
+                                                {session.expansions && session.expansions.length > 0 && (
+                                                    <span
+                                                        className="px-1.5 py-0.5 rounded bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 text-[10px] font-mono"
+                                                        title={`Expanded: ${session.expansions.map(e => session.result.nodes.find(n => n.id === e.nodeId)?.label ?? e.nodeId).join(', ')}`}
+                                                    >
+                                                        EXPANDED ×{session.expansions.length}
+                                                    </span>
+                                                )}
+                                                {describeOutdatedSettings(session.generation) && (
+                                                    <span className="px-1.5 py-0.5 rounded bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300 text-[10px] font-mono" title={describeOutdatedSettings(session.generation) ?? undefined}>OUTDATED</span>
+                                                )}
                                             </div>
                                         </div>
                                     </div>
@@ -642,6 +1492,14 @@ const App: React.FC = () => {
                                 {expandedSessions[session.id] && (
                                     <div className="px-4 pb-4 pt-0 animate-fade-in border-t border-slate-200 dark:border-slate-700/50 mt-2">
                                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-4">
+                                            {session.patient && (
+                                                <div className="md:col-span-2 flex flex-wrap items-center gap-1">
+                                                    <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider mr-1">Patient</h5>
+                                                    {describePatientProfile(session.patient).map(f => (
+                                                        <span key={f} className="text-[10px] px-1.5 py-0.5 rounded bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-300 border border-purple-200 dark:border-purple-800/50">{f}</span>
+                                                    ))}
+                                                </div>
+                                            )}
                                             <div className="space-y-2">
                                                 <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Mechanistic Summary</h5>
                                                 <p className="text-sm text-slate-600 dark:text-slate-400 leading-relaxed bg-slate-50 dark:bg-slate-900/50 p-3 rounded-lg border border-slate-200 dark:border-slate-800">
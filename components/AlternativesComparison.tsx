@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Replace, Loader2, Eye } from 'lucide-react';
+import { AlternativeComparison, AnalysisResult, CombinationAnalysis } from '../types';
+import { drugSetKey } from '../services/drugSet';
+import { SEVERITY_ORDER, compareBySeverity } from '../services/severity';
+import { findAlternatives } from '../services/alternatives';
+import SeverityBadge from './SeverityBadge';
+
+interface AlternativesComparisonProps {
+  drugs: string[];
+  result: AnalysisResult;
+  risk: number;
+  comparisons: AlternativeComparison[];
+  loading: boolean;
+  selectedKey: string | null;
+  onSuggest: (target: string) => void;
+  onSelect: (entry: CombinationAnalysis | null) => void; // null returns to the original regimen
+}
+
+const severityCounts = (result: AnalysisResult) =>
+  SEVERITY_ORDER
+    .map(severity => ({ severity, count: result.predictions.filter(p => p.severity === severity).length }))
+    .filter(c => c.count > 0);
+
+const riskClass = (risk: number) =>
+  risk >= 0.7 ? 'text-red-600 dark:text-red-400' : risk >= 0.4 ? 'text-orange-600 dark:text-orange-400' : 'text-green-600 dark:text-green-400';
+
+interface ColumnProps {
+  title: string;
+  subtitle: string;
+  drugs: string[];
+  highlight?: string;
+  result?: AnalysisResult;
+  risk?: number;
+  error?: string;
+  selected: boolean;
+  onView?: () => void;
+}
+
+const Column: React.FC<ColumnProps> = ({ title, subtitle, drugs, highlight, result, risk, error, selected, onView }) => (
+  <div className={`min-w-[10rem] flex-1 rounded-xl border p-3 flex flex-col gap-2 ${
+    selected ? 'border-purple-500 ring-2 ring-purple-500/30' : 'border-slate-200 dark:border-slate-700'
+  }`}>
+    <div>
+      <div className="text-xs font-semibold text-slate-800 dark:text-slate-100 truncate" title={title}>{title}</div>
+      <div className="text-[10px] text-slate-500 truncate" title={subtitle}>{subtitle}</div>
+    </div>
+    <div className="text-[10px] text-slate-500 dark:text-slate-400 leading-snug">
+      {drugs.map((d, i) => (
+        <span key={d} className={d === highlight ? 'font-semibold text-purple-600 dark:text-purple-400' : ''}>
+          {d}{i < drugs.length - 1 ? ' + ' : ''}
+        </span>
+      ))}
+    </div>
+    {result ? (
+      <>
+        <div className={`text-2xl font-mono font-bold ${riskClass(risk ?? 0)}`}>{((risk ?? 0) * 100).toFixed(0)}%</div>
+        <div className="flex flex-wrap gap-1">
+          {severityCounts(result).map(({ severity, count }) => (
+            <span key={severity} className="flex items-center gap-0.5 text-[10px] text-slate-500">
+              <SeverityBadge severity={severity} />×{count}
+            </span>
+          ))}
+        </div>
+        <ul className="space-y-1">
+          {[...result.predictions].sort(compareBySeverity).slice(0, 3).map(p => (
+            <li key={p.sideEffect} className="text-[11px] text-slate-700 dark:text-slate-300 flex justify-between gap-2">
+              <span className="truncate" title={p.sideEffect}>{p.sideEffect}</span>
+              <span className="font-mono text-slate-500 shrink-0">{(p.probability * 100).toFixed(0)}%</span>
+            </li>
+          ))}
+        </ul>
+        {onView && (
+          <button onClick={onView} className="mt-auto flex items-center gap-1 text-[10px] text-slate-500 hover:text-purple-600 dark:hover:text-purple-400 transition-colors">
+            <Eye className="w-3 h-3" />
+            {selected ? 'Showing in graph' : 'View graph'}
+          </button>
+        )}
+      </>
+    ) : (
+      <p className="text-[11px] text-red-600 dark:text-red-400">{error ?? 'Not analyzed'}</p>
+    )}
+  </div>
+);
+
+const AlternativesComparison: React.FC<AlternativesComparisonProps> = ({
+  drugs, result, risk, comparisons, loading, selectedKey, onSuggest, onSelect
+}) => {
+  const [target, setTarget] = useState(drugs[0]);
+  const comparison = comparisons.find(c => c.target === target);
+  const candidates = findAlternatives(drugs, target);
+
+  return (
+    <div className="glass-panel p-5 rounded-2xl">
+      <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <Replace className="w-3 h-3 text-green-500" />
+        Safer Alternatives
+      </h4>
+
+      <div className="flex gap-2 mb-3">
+        <select
+          value={target}
+          onChange={e => setTarget(e.target.value)}
+          disabled={loading}
+          className="flex-1 min-w-0 bg-white dark:bg-slate-900/50 border border-slate-300 dark:border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+        >
+          {drugs.map(d => <option key={d} value={d}>Replace {d}</option>)}
+        </select>
+        <button
+          onClick={() => onSuggest(target)}
+          disabled={loading || candidates.length === 0}
+          className="px-3 py-1 rounded-lg text-xs font-medium bg-purple-600 hover:bg-purple-500 text-white disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5 transition-colors"
+          title={candidates.length === 0 ? `No same-indication substitutes known for ${target}` : `Analyze ${candidates.map(c => c.substitute).join(', ')} instead`}
+        >
+          {loading && <Loader2 className="w-3 h-3 animate-spin" />}
+          {comparison ? 'Re-run' : 'Suggest'}
+        </button>
+      </div>
+
+      {candidates.length === 0 && (
+        <p className="text-[11px] text-slate-500">No same-indication substitutes are known for {target}.</p>
+      )}
+
+      {comparison && (
+        <div className="flex gap-2 overflow-x-auto custom-scrollbar pb-1">
+          <Column
+            title="Original"
+            subtitle="Current regimen"
+            drugs={drugs}
+            highlight={target}
+            result={result}
+            risk={risk}
+            selected={selectedKey === null}
+            onView={() => onSelect(null)}
+          />
+          {comparison.entries.map(entry => (
+            <Column
+              key={entry.substitute}
+              title={entry.substitute}
+              subtitle={entry.indication}
+              drugs={entry.drugs}
+              highlight={entry.substitute}
+              result={entry.result}
+              risk={entry.risk}
+              error={entry.error}
+              selected={selectedKey === drugSetKey(entry.drugs)}
+              onView={() => onSelect(entry)}
+            />
+          ))}
+        </div>
+      )}
+
+      <p className="text-[10px] text-slate-500 mt-3 leading-relaxed">
+        Substitutes share an indication with the replaced drug and are ranked by known CYP450/P-gp interactions with the rest of the regimen. Risk is the highest predicted probability, discounted for milder severities. Check suitability for the patient before switching.
+      </p>
+    </div>
+  );
+};
+
+export default AlternativesComparison;
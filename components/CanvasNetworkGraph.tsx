@@ -0,0 +1,343 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { GraphNode, RelationPolarity } from '../types';
+import { nodeTypeStyle } from '../services/nodeOntology';
+import { relationDefinition } from '../services/relationVocabulary';
+import GraphLegend from './GraphLegend';
+import {
+  DIMMED_LINK_OPACITY, DIMMED_NODE_OPACITY, LINK_OPACITY, MARKER_PATHS, NetworkGraphProps, SimulationNode, StyledLink,
+  TOOLTIP_CLASS, carryOverLayout, nodeRadius, pairKey, polarityColor, structureChanged, styleLinks, symbolGenerator,
+  tooltipHtml, tooltipPosition
+} from './graphRendering';
+
+// Workaround for d3 type definition issues
+const d3Any = d3 as any;
+
+// Level of detail: node labels appear once a node's radius is this many pixels on screen,
+// arrowheads once the view is zoomed in this far
+const LABEL_MIN_RADIUS = 14;
+const ARROW_MIN_SCALE = 0.6;
+
+// Same geometry as the SVG markers: viewBox 0 -6 10 12 drawn 9 px wide, refX 28
+const MARKER_SCALE = 0.9;
+const MARKER_REF_X = 28;
+
+// What the draw loop and the event handlers read; replaced on every data or style update
+interface CanvasScene {
+  nodes: GraphNode[];
+  nodesData: any[];
+  linksData: any[];
+  onNodeClick?: (node: GraphNode | null) => void;
+  isDarkMode: boolean;
+  communityColors: Record<string, string> | null;
+}
+
+/**
+ * Canvas renderer for graphs too large for the SVG one. Takes the same props and draws the same
+ * symbols, edge styles, highlight and tooltips, but into a single bitmap that is repainted once per
+ * animation frame. Hover and click are resolved by hit-testing the simulation's node positions;
+ * labels and arrowheads are only drawn when zoomed in far enough to read them.
+ */
+const CanvasNetworkGraph: React.FC<NetworkGraphProps> = ({ nodes, links, onNodeClick, isDarkMode = true, highlight = null, communityColors = null, linkColors = null }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const highlightRef = useRef(highlight);
+  const simulationRef = useRef<any>(null);
+  const sceneRef = useRef<CanvasScene>({ nodes: [], nodesData: [], linksData: [], isDarkMode, communityColors });
+  // Requests a repaint of the current scene
+  const redrawRef = useRef<() => void>(() => {});
+
+  // Initialize Graph: canvas, interactions and an empty simulation that later updates feed
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !container || !context) return;
+
+    let width = container.clientWidth;
+    let height = container.clientHeight;
+    const ratio = window.devicePixelRatio || 1;
+    const fitCanvas = () => {
+      canvas.width = width * ratio;
+      canvas.height = height * ratio;
+    };
+    fitCanvas();
+
+    let transform = d3Any.zoomIdentity;
+    // By id, since updates replace the node objects
+    let hoveredId: string | null = null;
+    let frame = 0;
+    const markerShapes = Object.fromEntries(
+      Object.entries(MARKER_PATHS).map(([polarity, path]) => [polarity, new Path2D(path)])
+    ) as Record<RelationPolarity, Path2D>;
+
+    const tooltip = d3Any.select(container)
+      .append("div")
+      .attr("class", TOOLTIP_CLASS)
+      .style("top", "0px")
+      .style("left", "0px");
+
+    const simulation = d3Any.forceSimulation()
+      .force("link", d3Any.forceLink().id((d: any) => d.id).distance(120))
+      .force("charge", d3Any.forceManyBody().strength(-400))
+      .force("center", d3Any.forceCenter(width / 2, height / 2))
+      .force("collide", d3Any.forceCollide().radius(40))
+      .stop();
+    simulationRef.current = simulation;
+
+    const draw = () => {
+      frame = 0;
+      const { nodesData, linksData, isDarkMode, communityColors } = sceneRef.current;
+      const hovered = hoveredId === null ? null : nodesData.find(d => d.id === hoveredId) ?? null;
+
+      // Colors for graph elements based on theme
+      const linkColor = isDarkMode ? "#64748b" : "#94a3b8";
+      const textColor = isDarkMode ? "#e2e8f0" : "#1e293b";
+      const linkTextColor = isDarkMode ? "#94a3b8" : "#64748b";
+      const hoverColor = isDarkMode ? "#fff" : "#0f172a";
+      const nodeStroke = isDarkMode ? "#fff" : "#f8fafc";
+
+      const current = highlightRef.current;
+      const nodeIds = current ? new Set(current.nodeIds) : null;
+      const pairs = current ? new Set(current.links.map(([a, b]) => pairKey(a, b))) : null;
+      // Hovering takes precedence over the highlight, as in the SVG renderer
+      const emphasized = (l: any) => hovered
+        ? l.source === hovered || l.target === hovered
+        : pairs !== null && pairs.has(pairKey(l.source.id, l.target.id));
+      const dimmedLinkOpacity = hovered ? 0.1 : DIMMED_LINK_OPACITY;
+
+      // Only what falls inside the viewport is drawn
+      const [minX, minY] = transform.invert([0, 0]);
+      const [maxX, maxY] = transform.invert([width, height]);
+      const visible = (d: any, margin: number) =>
+        d.x >= minX - margin && d.x <= maxX + margin && d.y >= minY - margin && d.y <= maxY + margin;
+
+      context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      context.clearRect(0, 0, width, height);
+      context.translate(transform.x, transform.y);
+      context.scale(transform.k, transform.k);
+
+      // Links
+      const labelled: any[] = [];
+      linksData.forEach(l => {
+        if (!visible(l.source, 0) && !visible(l.target, 0)) return;
+        const isEmphasized = emphasized(l);
+        if (isEmphasized) labelled.push(l);
+        const color = l.color ?? polarityColor(l.polarity, hovered && isEmphasized ? hoverColor : linkColor);
+        context.globalAlpha = isEmphasized ? 1 : hovered || pairs ? dimmedLinkOpacity : LINK_OPACITY;
+        context.strokeStyle = color;
+        context.lineWidth = isEmphasized ? l.width + 1 : l.width;
+        context.setLineDash(l.dash ? l.dash.split(' ').map(Number) : []);
+        context.beginPath();
+        context.moveTo(l.source.x, l.source.y);
+        context.lineTo(l.target.x, l.target.y);
+        context.stroke();
+
+        if (transform.k < ARROW_MIN_SCALE) return;
+        context.save();
+        context.translate(l.target.x, l.target.y);
+        context.rotate(Math.atan2(l.target.y - l.source.y, l.target.x - l.source.x));
+        context.scale(MARKER_SCALE, MARKER_SCALE);
+        context.translate(-MARKER_REF_X, 0);
+        context.fillStyle = color;
+        context.fill(markerShapes[l.polarity as RelationPolarity]);
+        context.restore();
+      });
+      context.setLineDash([]);
+
+      // Nodes
+      nodesData.forEach(d => {
+        if (!visible(d, nodeRadius(d) * 1.3)) return;
+        const isHovered = d === hovered;
+        context.globalAlpha = nodeIds && !nodeIds.has(d.id) ? DIMMED_NODE_OPACITY : 1;
+        context.save();
+        context.translate(d.x, d.y);
+        context.beginPath();
+        symbolGenerator(d, isHovered ? 1.3 : 1).context(context)();
+        context.fillStyle = communityColors?.[d.id] ?? nodeTypeStyle(d.type).color;
+        context.fill();
+        context.lineWidth = isHovered ? 3 : 1.5;
+        context.strokeStyle = isHovered ? hoverColor : nodeStroke;
+        context.stroke();
+        context.restore();
+      });
+
+      // Labels of nodes large enough on screen, plus whatever is hovered or highlighted
+      context.font = "12px sans-serif";
+      context.textBaseline = "middle";
+      context.fillStyle = textColor;
+      context.shadowColor = isDarkMode ? "rgba(0,0,0,0.8)" : "rgba(255,255,255,0.8)";
+      context.shadowBlur = 3;
+      context.shadowOffsetY = 1;
+      nodesData.forEach(d => {
+        const isHighlighted = nodeIds?.has(d.id) ?? false;
+        if (!visible(d, 0)) return;
+        if (d !== hovered && !isHighlighted && nodeRadius(d) * transform.k < LABEL_MIN_RADIUS) return;
+        context.globalAlpha = nodeIds && !isHighlighted ? DIMMED_NODE_OPACITY : 1;
+        context.fillText(d.label, d.x + 15, d.y);
+      });
+      context.shadowColor = "transparent";
+
+      // Relation labels of the hovered node's or the highlighted edges
+      context.globalAlpha = 1;
+      context.font = "10px sans-serif";
+      context.fillStyle = linkTextColor;
+      labelled.forEach(l => {
+        context.fillText(relationDefinition(l.type).label, (l.source.x + l.target.x) / 2, (l.source.y + l.target.y) / 2);
+      });
+    };
+
+    const redraw = () => {
+      if (!frame) frame = requestAnimationFrame(draw);
+    };
+    redrawRef.current = redraw;
+    simulation.on("tick", redraw);
+
+    // Hit-testing: the topmost node whose symbol contains the point, in screen coordinates
+    const nodeAt = (px: number, py: number) => {
+      const { nodesData } = sceneRef.current;
+      const [x, y] = transform.invert([px, py]);
+      for (let i = nodesData.length - 1; i >= 0; i--) {
+        const d = nodesData[i];
+        if (Math.hypot(d.x - x, d.y - y) <= nodeRadius(d)) return d;
+      }
+      return null;
+    };
+
+    // Dragging a node; the subject is placed in screen space so that pointer offsets stay correct at any zoom
+    const drag = d3Any.drag()
+      .container(canvas)
+      .subject((event: any) => {
+        const d = nodeAt(event.x, event.y);
+        return d && { node: d, x: transform.applyX(d.x), y: transform.applyY(d.y) };
+      })
+      .on("start", (event: any) => {
+        if (!event.active) simulation.alphaTarget(0.3).restart();
+        event.subject.node.fx = event.subject.node.x;
+        event.subject.node.fy = event.subject.node.y;
+        canvas.style.cursor = "grabbing";
+      })
+      .on("drag", (event: any) => {
+        event.subject.node.fx = transform.invertX(event.x);
+        event.subject.node.fy = transform.invertY(event.y);
+      })
+      .on("end", (event: any) => {
+        if (!event.active) simulation.alphaTarget(0);
+        canvas.style.cursor = "grab";
+      });
+
+    const zoom = d3Any.zoom()
+      .scaleExtent([0.1, 8])
+      .on("zoom", (event: any) => {
+        transform = event.transform;
+        redraw();
+      });
+
+    // Drag first, so zoom only sees the gestures that do not start on a node
+    d3Any.select(canvas)
+      .call(drag)
+      .call(zoom)
+      .on("dblclick.zoom", null)
+      .on("mousemove.hover", (event: any) => {
+        const [x, y] = d3Any.pointer(event, canvas);
+        const d = nodeAt(x, y);
+        if ((d?.id ?? null) !== hoveredId) {
+          hoveredId = d?.id ?? null;
+          canvas.style.cursor = d ? "grab" : "move";
+          if (d) {
+            tooltip.transition().duration(200).ease(d3Any.easeCubicOut).style("opacity", 1);
+            tooltip.html(tooltipHtml(d));
+          } else {
+            tooltip.transition().duration(200).ease(d3Any.easeCubicIn).style("opacity", 0);
+          }
+          redraw();
+        }
+        if (d) {
+          const [cx, cy] = d3Any.pointer(event, container);
+          const { left, top } = tooltipPosition(cx, cy, container.clientWidth, container.clientHeight);
+          tooltip.style("left", `${left}px`).style("top", `${top}px`);
+        }
+      })
+      .on("mouseleave.hover", () => {
+        hoveredId = null;
+        canvas.style.cursor = "move";
+        tooltip.transition().duration(200).ease(d3Any.easeCubicIn).style("opacity", 0);
+        redraw();
+      })
+      .on("dblclick", (event: any) => {
+        // Double click releases a node pinned by dragging
+        const [x, y] = d3Any.pointer(event, canvas);
+        const d = nodeAt(x, y);
+        if (!d) return;
+        d.fx = null;
+        d.fy = null;
+        simulation.alpha(0.3).restart();
+      })
+      .on("click", (event: any) => {
+        const { nodes, onNodeClick } = sceneRef.current;
+        if (!onNodeClick) return;
+        const [x, y] = d3Any.pointer(event, canvas);
+        const d = nodeAt(x, y);
+        // Pass back the original node object, including its description
+        onNodeClick(d ? nodes.find(n => n.id === d.id) ?? null : null);
+      });
+
+    let resizeFrame = 0;
+    const resizeObserver = new ResizeObserver(entries => {
+      if (resizeFrame) cancelAnimationFrame(resizeFrame);
+      resizeFrame = requestAnimationFrame(() => {
+        if (!entries[0]) return;
+        ({ width, height } = entries[0].contentRect);
+        fitCanvas();
+        simulation.force("center", d3Any.forceCenter(width / 2, height / 2));
+        simulation.alpha(0.3).restart();
+        redraw();
+      });
+    });
+    resizeObserver.observe(container);
+
+    return () => {
+      simulation.stop();
+      resizeObserver.disconnect();
+      if (frame) cancelAnimationFrame(frame);
+      if (resizeFrame) cancelAnimationFrame(resizeFrame);
+      tooltip.remove();
+      simulationRef.current = null;
+    };
+  }, []);
+
+  // Feed the data to the running simulation: surviving nodes keep their position and pin, and
+  // restyling alone does not move anything
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    const container = containerRef.current;
+    if (!simulation || !container) return;
+
+    const previousNodes: SimulationNode[] = simulation.nodes();
+    const previousLinks: StyledLink[] = simulation.force("link").links();
+    const nodesData = carryOverLayout(previousNodes, nodes, links, [container.clientWidth / 2, container.clientHeight / 2]);
+    const linksData = styleLinks(nodes, links, linkColors);
+    sceneRef.current = { nodes, nodesData, linksData, onNodeClick, isDarkMode, communityColors };
+
+    const isFirstLayout = previousNodes.length === 0;
+    const hasChanged = structureChanged(previousNodes, previousLinks, nodesData, linksData);
+    simulation.nodes(nodesData);
+    simulation.force("link").links(linksData);
+    if (isFirstLayout || hasChanged) simulation.alpha(isFirstLayout ? 1 : 0.5).restart();
+    redrawRef.current();
+  }, [nodes, links, onNodeClick, isDarkMode, communityColors, linkColors]);
+
+  useEffect(() => {
+    highlightRef.current = highlight;
+    redrawRef.current();
+  }, [highlight]);
+
+  return (
+    <div ref={containerRef} className="w-full h-full relative overflow-hidden rounded-xl bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 shadow-inner group transition-colors duration-300">
+      <GraphLegend nodes={nodes} links={links} communityColors={communityColors} />
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full cursor-move" />
+    </div>
+  );
+};
+
+export default CanvasNetworkGraph;
@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HardDrive, Upload, Trash2, Network } from 'lucide-react';
+import { ImportSummary, KnowledgeStoreStats, clearKnowledgeStore, getKnowledgeStoreStats } from '../services/knowledgeStore';
+import { importTwosides } from '../services/importers/twosides';
+import { importSider } from '../services/importers/sider';
+import { importDrugBank } from '../services/importers/drugbank';
+
+interface DatasetImporterProps {
+  onBuildSubgraph: () => void;
+  canBuild: boolean;
+}
+
+type ImportKind = 'TWOSIDES' | 'SIDER' | 'DRUGBANK';
+
+const IMPORT_OPTIONS: { kind: ImportKind; label: string; accept: string; hint: string; multiple?: boolean }[] = [
+  { kind: 'TWOSIDES', label: 'TWOSIDES', accept: '.tsv,.csv,.txt', hint: 'Pairwise adverse events (TSV/CSV)' },
+  { kind: 'SIDER', label: 'SIDER', accept: '.tsv,.txt', hint: 'meddra_all_se.tsv (+ drug_names.tsv)', multiple: true },
+  { kind: 'DRUGBANK', label: 'DrugBank', accept: '.xml', hint: 'Full database XML' }
+];
+
+// Importers write to the knowledge store as they parse, chunk by chunk
+const runImport = async (kind: ImportKind, files: File[]): Promise<ImportSummary> => {
+  switch (kind) {
+    case 'TWOSIDES':
+      return importTwosides(files[0]);
+    case 'SIDER': {
+      // drug_names.tsv has two columns; the side effect table is the other file
+      const namesFile = files.find(f => /drug_names/i.test(f.name));
+      const effectsFile = files.find(f => f !== namesFile) ?? files[0];
+      return importSider(effectsFile, namesFile);
+    }
+    case 'DRUGBANK':
+      return importDrugBank(files[0]);
+  }
+};
+
+const DatasetImporter: React.FC<DatasetImporterProps> = ({ onBuildSubgraph, canBuild }) => {
+  const [stats, setStats] = useState<KnowledgeStoreStats | null>(null);
+  const [busy, setBusy] = useState<ImportKind | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const inputRefs = useRef<Record<ImportKind, HTMLInputElement | null>>({ TWOSIDES: null, SIDER: null, DRUGBANK: null });
+
+  useEffect(() => {
+    getKnowledgeStoreStats().then(setStats);
+  }, []);
+
+  const handleFiles = async (kind: ImportKind, fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    setBusy(kind);
+    setMessage(null);
+    try {
+      const summary = await runImport(kind, Array.from(fileList));
+      setStats(await getKnowledgeStoreStats());
+      setMessage(`${kind}: imported ${summary.nodes} entities, ${summary.links + summary.pairEffects} relations.`);
+    } catch (err: any) {
+      setMessage(`${kind} import failed: ${err.message || err}`);
+    } finally {
+      setBusy(null);
+      const input = inputRefs.current[kind];
+      if (input) input.value = '';
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm("Remove all imported datasets from this browser?")) return;
+    await clearKnowledgeStore();
+    setStats(await getKnowledgeStoreStats());
+    setMessage('Local knowledge store cleared.');
+  };
+
+  const isEmpty = !stats || stats.nodes === 0;
+
+  return (
+    <div className="glass-panel p-5 rounded-2xl shrink-0">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-md font-semibold flex items-center gap-2 text-slate-800 dark:text-slate-100">
+          <HardDrive className="w-4 h-4 text-blue-500 dark:text-blue-400" />
+          Local Datasets
+        </h3>
+        {!isEmpty && (
+          <button
+            onClick={handleClear}
+            className="p-1.5 text-slate-400 hover:text-red-500 dark:hover:text-red-400 rounded-lg transition-colors"
+            title="Clear Local Knowledge Store"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      <div className="text-[11px] font-mono text-slate-500 dark:text-slate-400 mb-3">
+        {stats ? `${stats.nodes} entities • ${stats.links} edges • ${stats.pairEffects} pair records` : 'Loading store...'}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {IMPORT_OPTIONS.map(option => (
+          <label
+            key={option.kind}
+            title={option.hint}
+            className={`flex flex-col items-center gap-1 p-2 rounded-lg border border-dashed text-[10px] cursor-pointer transition-colors
+              ${busy === option.kind
+                ? 'border-blue-400 text-blue-500 animate-pulse'
+                : 'border-slate-300 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:border-blue-400 hover:text-blue-600 dark:hover:text-blue-400'}`}
+          >
+            <Upload className="w-3.5 h-3.5" />
+            {option.label}
+            {stats && <span className="font-mono opacity-70">{stats.byDataset[option.kind]}</span>}
+            <input
+              ref={el => { inputRefs.current[option.kind] = el; }}
+              type="file"
+              accept={option.accept}
+              multiple={option.multiple}
+              disabled={busy !== null}
+              className="hidden"
+              onChange={(e) => handleFiles(option.kind, e.target.files)}
+            />
+          </label>
+        ))}
+      </div>
+
+      {message && <p className="text-[11px] text-slate-600 dark:text-slate-300 mt-3">{message}</p>}
+
+      <button
+        onClick={onBuildSubgraph}
+        disabled={isEmpty || !canBuild}
+        className={`w-full mt-3 py-2 rounded-lg text-xs font-medium flex items-center justify-center gap-2 transition-colors border
+          ${isEmpty || !canBuild
+            ? 'border-slate-200 dark:border-slate-700 text-slate-400 dark:text-slate-600 cursor-not-allowed'
+            : 'border-blue-200 dark:border-blue-500/30 bg-blue-50 dark:bg-blue-600/20 text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-600/30'}`}
+      >
+        <Network className="w-3.5 h-3.5" />
+        Build Evidence Subgraph
+      </button>
+    </div>
+  );
+};
+
+export default DatasetImporter;
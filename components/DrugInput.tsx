@@ -1,5 +1,9 @@
-import React from 'react';
-import { Search, FlaskConical } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Search, FlaskConical, AlertTriangle } from 'lucide-react';
+import { DoseRoute, DrugRegimen } from '../types';
+import { getPkParameters } from '../services/pkSimulator';
+import { resolveDrugName, suggestDrugs } from '../services/drugDictionary';
+import { checkDrugEntry } from '../services/inputSanitizer';
 
 interface DrugInputProps {
   label: string;
@@ -7,15 +11,58 @@ interface DrugInputProps {
   onChange: (val: string) => void;
   onEnter?: () => void;
   placeholder: string;
+  regimen?: DrugRegimen;
+  onRegimenChange?: (regimen: DrugRegimen) => void; // Shows the dose row when set
 }
 
-const DrugInput: React.FC<DrugInputProps> = ({ label, value, onChange, onEnter, placeholder }) => {
+const ROUTES: { value: DoseRoute; label: string }[] = [
+  { value: 'oral', label: 'Oral' },
+  { value: 'iv', label: 'IV' },
+  { value: 'im', label: 'IM' },
+  { value: 'sc', label: 'SC' }
+];
+
+const doseFieldClass = "w-full bg-white dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-md px-1.5 py-1 text-[11px] text-slate-700 dark:text-slate-300 placeholder-slate-400 dark:placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-purple-500";
+
+const parseNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+const DrugInput: React.FC<DrugInputProps> = ({ label, value, onChange, onEnter, placeholder, regimen, onRegimenChange }) => {
+  const [focused, setFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const suggestions = useMemo(() => (focused ? suggestDrugs(value) : []), [focused, value]);
+  const resolution = useMemo(() => (value.trim() ? resolveDrugName(value) : null), [value]);
+  const rejection = useMemo(() => (value.trim() ? checkDrugEntry(value) : null), [value]);
+  // Hide the list once the input already is the only suggestion
+  const open = suggestions.length > 0 && !(suggestions.length === 1 && suggestions[0].entry.name === value.trim());
+
+  const selectSuggestion = (name: string) => {
+    onChange(name);
+    setHighlighted(-1);
+    setFocused(false);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && onEnter) {
-      onEnter();
+    if (open && e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (open && e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(highlighted <= 0 ? suggestions.length - 1 : highlighted - 1);
+    } else if (e.key === 'Escape') {
+      setFocused(false);
+    } else if (e.key === 'Enter') {
+      if (open && highlighted >= 0) {
+        selectSuggestion(suggestions[highlighted].entry.name);
+      } else if (onEnter) {
+        onEnter();
+      }
     }
   };
 
+  // Typical values double as placeholders for drugs the simulator knows
+  const typical = getPkParameters(value);
+  const updateRegimen = (patch: Partial<DrugRegimen>) => onRegimenChange?.({ ...regimen, ...patch });
+
   return (
     <div className="flex flex-col gap-2">
       <label className="text-sm font-medium text-slate-600 dark:text-slate-400 flex items-center gap-2">
@@ -29,16 +76,78 @@ const DrugInput: React.FC<DrugInputProps> = ({ label, value, onChange, onEnter,
         <input
           type="text"
           value={value}
-          onChange={(e) => onChange(e.target.value)}
+          onChange={(e) => { onChange(e.target.value); setFocused(true); setHighlighted(-1); }}
           onKeyDown={handleKeyDown}
-          className="block w-full pl-10 pr-3 py-3 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-lg 
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          role="combobox"
+          aria-expanded={open}
+          aria-autocomplete="list"
+          className={`block w-full pl-10 pr-3 py-3 bg-white dark:bg-slate-800 border ${rejection ? 'border-red-400 dark:border-red-500' : 'border-slate-300 dark:border-slate-600'} rounded-lg 
                      text-slate-900 dark:text-slate-100 placeholder-slate-400 dark:placeholder-slate-500 focus:outline-none focus:ring-2 
-                     focus:ring-purple-500 focus:border-transparent transition-all shadow-sm"
+                     focus:ring-purple-500 focus:border-transparent transition-all shadow-sm`}
           placeholder={placeholder}
         />
+        {open && (
+          <ul role="listbox" className="absolute z-30 left-0 right-0 mt-1 max-h-64 overflow-y-auto custom-scrollbar bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-xl">
+            {suggestions.map((s, i) => (
+              <li
+                key={s.entry.name}
+                role="option"
+                aria-selected={i === highlighted}
+                // mousedown fires before the input's blur closes the list
+                onMouseDown={(e) => { e.preventDefault(); selectSuggestion(s.entry.name); }}
+                onMouseEnter={() => setHighlighted(i)}
+                className={`px-3 py-2 cursor-pointer flex justify-between items-center gap-2 text-sm ${
+                  i === highlighted ? 'bg-purple-50 dark:bg-purple-900/30' : ''
+                }`}
+              >
+                <span className="text-slate-800 dark:text-slate-100 truncate">
+                  {s.entry.name}
+                  {s.kind !== 'generic' && <span className="text-xs text-slate-500 dark:text-slate-400"> ({s.term})</span>}
+                </span>
+                <span className="text-[10px] text-slate-400 dark:text-slate-500 shrink-0">{s.entry.drugClass}</span>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
+      {rejection && (
+        <p className="text-[11px] text-red-600 dark:text-red-400 flex items-center gap-1 -mt-1">
+          <AlertTriangle className="w-3 h-3 shrink-0" />
+          {rejection}
+        </p>
+      )}
+      {!focused && !rejection && resolution?.match === 'unresolved' && (
+        <p className="text-[11px] text-amber-600 dark:text-amber-400 flex items-center gap-1 -mt-1">
+          <AlertTriangle className="w-3 h-3 shrink-0" />
+          Not in the drug dictionary; it will be sent as typed.
+        </p>
+      )}
+      {!focused && resolution && resolution.match !== 'unresolved' && resolution.name !== value.trim() && (
+        <p className="text-[11px] text-slate-500 dark:text-slate-400 -mt-1">
+          Will be analyzed as <button onMouseDown={(e) => e.preventDefault()} onClick={() => onChange(resolution.name)} className="font-medium text-purple-600 dark:text-purple-400 hover:underline">{resolution.name}</button>
+        </p>
+      )}
+      {onRegimenChange && (
+        <div className="grid grid-cols-4 gap-1.5">
+          <input type="number" min={0} step="any" value={regimen?.doseMg ?? ''} title="Dose (mg)"
+            onChange={e => updateRegimen({ doseMg: parseNumber(e.target.value) })}
+            className={doseFieldClass} placeholder={typical ? `${typical.typicalDoseMg} mg` : 'mg'} />
+          <select value={regimen?.route ?? 'oral'} title="Route"
+            onChange={e => updateRegimen({ route: e.target.value as DoseRoute })} className={doseFieldClass}>
+            {ROUTES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+          </select>
+          <input type="number" min={0} step="any" value={regimen?.intervalHours ?? ''} title="Dosing interval in hours (0 for a single dose)"
+            onChange={e => updateRegimen({ intervalHours: parseNumber(e.target.value) })}
+            className={doseFieldClass} placeholder={typical ? `q${typical.typicalIntervalHours}h` : 'q h'} />
+          <input type="number" min={0} step="any" value={regimen?.startHour ?? ''} title="Start time in hours after the first drug"
+            onChange={e => updateRegimen({ startHour: parseNumber(e.target.value) })}
+            className={doseFieldClass} placeholder="start h" />
+        </div>
+      )}
     </div>
   );
 };
 
-export default DrugInput;
\ No newline at end of file
+export default DrugInput;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { ExternalLink } from 'lucide-react';
+import { Evidence, EvidenceLevel, EvidenceSource } from '../types';
+
+interface EvidenceListProps {
+  evidence?: Evidence[];
+  compact?: boolean; // Hide quotes, e.g. inside prediction cards
+}
+
+const SOURCE_LABELS: Record<EvidenceSource, string> = {
+  label: 'Label',
+  literature: 'Literature',
+  database: 'Database',
+  guideline: 'Guideline',
+  inference: 'Inference'
+};
+
+const LEVEL_STYLES: Record<EvidenceLevel, string> = {
+  high: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 border-green-200 dark:border-green-800/50',
+  moderate: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-800/50',
+  low: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-800/50',
+  theoretical: 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 border-slate-200 dark:border-slate-700'
+};
+
+// Links for identifiers we can resolve; anything else is shown as plain text
+const identifierUrl = (identifier: string): string | null => {
+  const pmid = identifier.match(/^PMID:(\d+)$/);
+  if (pmid) return `https://pubmed.ncbi.nlm.nih.gov/${pmid[1]}/`;
+  const drugbank = identifier.match(/\b(DB\d{5})\b/);
+  if (drugbank) return `https://go.drugbank.com/drugs/${drugbank[1]}`;
+  return null;
+};
+
+const EvidenceList: React.FC<EvidenceListProps> = ({ evidence, compact = false }) => {
+  if (!evidence || evidence.length === 0) {
+    return <p className="text-[10px] text-slate-400 italic">No evidence provided.</p>;
+  }
+
+  return (
+    <ul className="space-y-1.5">
+      {evidence.map((e, i) => {
+        const url = e.identifier ? identifierUrl(e.identifier) : null;
+        return (
+          <li key={i} className="text-[11px] text-slate-600 dark:text-slate-300">
+            <div className="flex items-center gap-1.5 flex-wrap">
+              <span className={`font-mono text-[9px] px-1 py-0.5 rounded border uppercase ${LEVEL_STYLES[e.level]}`} title={`Evidence level: ${e.level}`}>
+                {e.level}
+              </span>
+              <span className="font-semibold">{SOURCE_LABELS[e.source]}</span>
+              {e.identifier && (
+                url ? (
+                  <a
+                    href={url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-mono text-purple-600 dark:text-purple-400 hover:underline flex items-center gap-0.5"
+                  >
+                    {e.identifier}
+                    <ExternalLink className="w-2.5 h-2.5" />
+                  </a>
+                ) : (
+                  <span className="font-mono text-slate-500 dark:text-slate-400">{e.identifier}</span>
+                )
+              )}
+            </div>
+            {!compact && e.quote && (
+              <p className="mt-0.5 pl-2 border-l-2 border-slate-200 dark:border-slate-700 italic text-slate-500 dark:text-slate-400">"{e.quote}"</p>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default EvidenceList;
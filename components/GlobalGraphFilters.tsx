@@ -0,0 +1,76 @@
+import React from 'react';
+import { Filter, X } from 'lucide-react';
+import { GlobalGraphFilter } from '../services/globalGraph';
+
+interface GlobalGraphFiltersProps {
+  drugs: string[];
+  filter: GlobalGraphFilter;
+  includedSessions: number;
+  totalSessions: number;
+  onChange: (filter: GlobalGraphFilter) => void;
+}
+
+// <input type="date"> works in local calendar days; the range covers both days completely
+const toDateInput = (timestamp?: number) => {
+  if (timestamp === undefined) return '';
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInput = (value: string, endOfDay: boolean): number | undefined => {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return endOfDay ? new Date(year, month - 1, day, 23, 59, 59, 999).getTime() : new Date(year, month - 1, day).getTime();
+};
+
+const inputClass = "bg-white dark:bg-slate-900/50 border border-slate-300 dark:border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-purple-500/50";
+
+const GlobalGraphFilters: React.FC<GlobalGraphFiltersProps> = ({ drugs, filter, includedSessions, totalSessions, onChange }) => {
+  const isFiltered = Boolean(filter.drug) || filter.from !== undefined || filter.to !== undefined;
+
+  return (
+    <div className="relative z-10 px-4 py-2 border-b border-slate-200 dark:border-slate-700/50 bg-white/60 dark:bg-slate-900/60 backdrop-blur flex flex-wrap items-center gap-2 text-xs">
+      <Filter className="w-3 h-3 text-slate-500" />
+      <select
+        value={filter.drug ?? ''}
+        onChange={e => onChange({ ...filter, drug: e.target.value || undefined })}
+        className={inputClass}
+        aria-label="Filter by drug"
+      >
+        <option value="">All drugs</option>
+        {drugs.map(d => <option key={d} value={d}>{d}</option>)}
+      </select>
+      <input
+        type="date"
+        value={toDateInput(filter.from)}
+        max={toDateInput(filter.to)}
+        onChange={e => onChange({ ...filter, from: fromDateInput(e.target.value, false) })}
+        className={inputClass}
+        aria-label="From date"
+      />
+      <span className="text-slate-500">to</span>
+      <input
+        type="date"
+        value={toDateInput(filter.to)}
+        min={toDateInput(filter.from)}
+        onChange={e => onChange({ ...filter, to: fromDateInput(e.target.value, true) })}
+        className={inputClass}
+        aria-label="To date"
+      />
+      {isFiltered && (
+        <button
+          onClick={() => onChange({})}
+          className="flex items-center gap-0.5 text-slate-500 hover:text-purple-600 dark:hover:text-purple-400 transition-colors"
+        >
+          <X className="w-3 h-3" />
+          Clear
+        </button>
+      )}
+      <span className="ml-auto text-slate-500">
+        {includedSessions} of {totalSessions} {totalSessions === 1 ? 'session' : 'sessions'}
+      </span>
+    </div>
+  );
+};
+
+export default GlobalGraphFilters;
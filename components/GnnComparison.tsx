@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { BrainCircuit } from 'lucide-react';
+import { InteractionPrediction } from '../types';
+import { GnnScoring, requestGnnScoring } from '../services/gnnService';
+
+interface GnnComparisonProps {
+  drugs: string[];
+  predictions: InteractionPrediction[];
+  comparedLabel: string;
+}
+
+const normalizeEffect = (name: string) => name.toLowerCase().replace(/ae/g, 'e').replace(/[^a-z0-9]/g, '');
+
+// Loose match so that "Major Bleeding" from the model lines up with "Bleeding" in the local graph
+const findMatch = (effect: string, predictions: InteractionPrediction[]) => {
+  const key = normalizeEffect(effect);
+  return predictions.find(p => {
+    const other = normalizeEffect(p.sideEffect);
+    return other === key || other.includes(key) || key.includes(other);
+  });
+};
+
+const GnnComparison: React.FC<GnnComparisonProps> = ({ drugs, predictions, comparedLabel }) => {
+  const [scoring, setScoring] = useState<GnnScoring | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The model trains in a worker on first use; a newer drug set supersedes a pending one
+  useEffect(() => {
+    let current = true;
+    setScoring(null);
+    setError(null);
+    requestGnnScoring(drugs).then(
+      s => { if (current) setScoring(s); },
+      e => { if (current) setError(e instanceof Error ? e.message : String(e)); }
+    );
+    return () => { current = false; };
+  }, [drugs]);
+
+  if (!scoring || scoring.resolvedDrugs.length < 2) {
+    return (
+      <div className="glass-panel p-5 rounded-2xl">
+        <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-2">
+          <BrainCircuit className="w-3 h-3 text-purple-500" />
+          GNN Cross-Check
+        </h4>
+        {error ? (
+          <p className="text-xs text-red-600 dark:text-red-400">The local GNN could not score this combination: {error}</p>
+        ) : !scoring ? (
+          <p className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+            <span className="w-3 h-3 border-2 border-purple-300/30 border-t-purple-500 rounded-full animate-spin" />
+            Scoring with the local R-GCN…
+          </p>
+        ) : (
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            The local knowledge graph covers fewer than two of these drugs, so the GNN cannot score this combination.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const rows = scoring.scores.filter(s => s.probability >= 0.1).slice(0, 5);
+  const matched = new Set(rows.map(r => findMatch(r.sideEffect.label, predictions)).filter(Boolean));
+  const unmatchedCount = predictions.filter(p => !matched.has(p)).length;
+
+  return (
+    <div className="glass-panel p-5 rounded-2xl">
+      <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <BrainCircuit className="w-3 h-3 text-purple-500" />
+        GNN Cross-Check
+      </h4>
+      <div className="grid grid-cols-[1fr_auto_auto] gap-x-3 gap-y-2 text-xs items-center">
+        <span className="text-[10px] uppercase tracking-wider text-slate-400">Outcome</span>
+        <span className="text-[10px] uppercase tracking-wider text-slate-400 text-right">R-GCN</span>
+        <span className="text-[10px] uppercase tracking-wider text-slate-400 text-right truncate max-w-[70px]" title={comparedLabel}>Model</span>
+        {rows.map(row => {
+          const match = findMatch(row.sideEffect.label, predictions);
+          return (
+            <React.Fragment key={row.sideEffect.id}>
+              <span className="text-slate-700 dark:text-slate-300 truncate">{row.sideEffect.label}</span>
+              <span className="font-mono text-purple-600 dark:text-purple-400 text-right">{(row.probability * 100).toFixed(0)}%</span>
+              <span className="font-mono text-slate-500 text-right">{match ? `${(match.probability * 100).toFixed(0)}%` : '—'}</span>
+            </React.Fragment>
+          );
+        })}
+      </div>
+      {rows.length === 0 && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">No side effect scored above 10% in the local graph.</p>
+      )}
+      <p className="text-[10px] text-slate-500 mt-3 leading-relaxed">
+        {unmatchedCount > 0 && `${unmatchedCount} model prediction(s) have no counterpart in the local graph. `}
+        {scoring.unknownDrugs.length > 0 && `Not covered locally: ${scoring.unknownDrugs.join(', ')}.`}
+      </p>
+    </div>
+  );
+};
+
+export default GnnComparison;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { Waypoints } from 'lucide-react';
+import { GraphNode } from '../types';
+import { GraphAnalytics, GraphMetric, communityColor } from '../services/graphAnalytics';
+import { nodeTypeStyle } from '../services/nodeOntology';
+
+interface GraphAnalyticsPanelProps {
+  nodes: GraphNode[];
+  analytics: GraphAnalytics;
+  metric: GraphMetric;
+  onMetricChange: (metric: GraphMetric) => void;
+  onSelectNode: (node: GraphNode) => void;
+}
+
+const METRIC_LABELS: Record<GraphMetric, string> = {
+  model: 'Model',
+  degree: 'Degree',
+  betweenness: 'Betweenness',
+  community: 'Community'
+};
+
+const GraphAnalyticsPanel: React.FC<GraphAnalyticsPanelProps> = ({ nodes, analytics, metric, onMetricChange, onSelectNode }) => {
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const label = (id: string) => nodeById.get(id)?.label ?? id;
+
+  return (
+    <div className="glass-panel p-5 rounded-2xl">
+      <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <Waypoints className="w-3 h-3 text-purple-500" />
+        Graph Analytics
+      </h4>
+
+      <div className="grid grid-cols-3 gap-2 mb-3 text-center">
+        {[
+          { label: 'Components', value: analytics.components.length },
+          { label: 'Communities', value: analytics.communities.length },
+          { label: 'Modularity', value: analytics.modularity.toFixed(2) }
+        ].map(stat => (
+          <div key={stat.label} className="bg-white/50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700 py-1.5">
+            <div className="text-sm font-mono font-semibold text-slate-800 dark:text-slate-100">{stat.value}</div>
+            <div className="text-[9px] uppercase tracking-wider text-slate-500">{stat.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mb-3">
+        <div className="text-[10px] text-slate-500 dark:text-slate-400 mb-1">Style nodes by</div>
+        <div className="flex rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden text-[10px]">
+          {(Object.keys(METRIC_LABELS) as GraphMetric[]).map(m => (
+            <button
+              key={m}
+              onClick={() => onMetricChange(m)}
+              className={`flex-1 py-1 transition-colors ${
+                metric === m
+                  ? 'bg-purple-600 text-white'
+                  : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800'
+              }`}
+            >
+              {METRIC_LABELS[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <h5 className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5">Hub Mechanisms</h5>
+      {analytics.hubs.length === 0 ? (
+        <p className="text-xs text-slate-500 italic mb-3">No connected mechanism nodes.</p>
+      ) : (
+        <ul className="space-y-1.5 mb-3">
+          {analytics.hubs.map(hub => {
+            const { betweenness, degree } = analytics.metrics[hub.id];
+            return (
+              <li key={hub.id}>
+                <button
+                  onClick={() => onSelectNode(hub)}
+                  className="w-full text-left text-xs group/hub"
+                  title={`${nodeTypeStyle(hub.type).label}: betweenness ${betweenness.toFixed(2)}, ${degree} neighbors`}
+                >
+                  <div className="flex justify-between gap-2">
+                    <span className="flex items-center gap-1.5 min-w-0 text-slate-700 dark:text-slate-300 group-hover/hub:text-purple-600 dark:group-hover/hub:text-purple-400 transition-colors">
+                      <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: nodeTypeStyle(hub.type).color }} />
+                      <span className="truncate">{hub.label}</span>
+                    </span>
+                    <span className="font-mono text-[10px] text-slate-500 shrink-0">
+                      {betweenness.toFixed(2)} · {degree}
+                    </span>
+                  </div>
+                  <div className="mt-0.5 h-1 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                    <div className="h-full bg-purple-500" style={{ width: `${betweenness * 100}%` }} />
+                  </div>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <h5 className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5">Communities</h5>
+      <ul className="space-y-1">
+        {analytics.communities.map((ids, i) => (
+          <li key={i} className="text-[11px] text-slate-600 dark:text-slate-300 flex gap-2 items-start">
+            <span className="w-2 h-2 rounded-sm shrink-0 mt-1" style={{ backgroundColor: communityColor(i) }} />
+            <span>{ids.map(label).join(', ')}</span>
+          </li>
+        ))}
+      </ul>
+      {analytics.components.length > 1 && (
+        <p className="mt-2 text-[10px] text-amber-600 dark:text-amber-400">
+          The graph falls apart into {analytics.components.length} disconnected parts.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default GraphAnalyticsPanel;
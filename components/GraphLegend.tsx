@@ -0,0 +1,79 @@
+import React from 'react';
+import * as d3 from 'd3';
+import { GraphNode, GraphLink, NodeType } from '../types';
+import { NODE_TYPES, nodeTypeStyle } from '../services/nodeOntology';
+import { MECHANISM_STYLES, POLARITY_STYLES, RELATION_MECHANISMS, relationDefinition } from '../services/relationVocabulary';
+import { MARKER_PATHS, POLARITIES, SYMBOLS, mechanismOf } from './graphRendering';
+
+interface GraphLegendProps {
+  nodes: GraphNode[];
+  links: GraphLink[];
+  communityColors?: Record<string, string> | null;
+}
+
+// Workaround for d3 type definition issues
+const d3Any = d3 as any;
+
+// Overlays of NetworkGraph: node and edge legends and the interaction hint
+const GraphLegend: React.FC<GraphLegendProps> = ({ nodes, links, communityColors = null }) => {
+  // Legends list the node types and edge styles on screen, in vocabulary order
+  const presentTypes = new Set(nodes.map(n => n.type));
+  const legendTypes: NodeType[] = NODE_TYPES.filter(type => presentTypes.has(type));
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const presentPolarities = new Set(links.map(l => relationDefinition(l.type).polarity));
+  const presentMechanisms = new Set(links.map(l => mechanismOf(l, nodeById)));
+  const legendPolarities = POLARITIES.filter(p => presentPolarities.has(p));
+  const legendMechanisms = RELATION_MECHANISMS.filter(m => presentMechanisms.has(m));
+
+  return (
+    <>
+      <div className="absolute top-4 left-4 z-10 pointer-events-none transition-opacity duration-300 group-hover:opacity-100 opacity-60">
+        <div className="flex flex-col gap-2 bg-white/80 dark:bg-slate-800/80 p-3 rounded-lg backdrop-blur-sm border border-slate-200 dark:border-slate-700/50">
+          {legendTypes.map(type => {
+            const style = nodeTypeStyle(type);
+            return (
+              <div key={type} className="flex items-center gap-2">
+                <svg viewBox="-7 -7 14 14" className="w-3 h-3 overflow-visible text-slate-400 dark:text-slate-500">
+                  <path d={d3Any.symbol().type(SYMBOLS[style.shape]).size(90)()} fill={communityColors ? 'currentColor' : style.color} />
+                </svg>
+                <span className="text-xs text-slate-600 dark:text-slate-300">{style.label}</span>
+              </div>
+            );
+          })}
+          {communityColors && <span className="text-[10px] text-slate-500 dark:text-slate-400">Colors mark communities</span>}
+        </div>
+      </div>
+      {links.length > 0 && (
+        <div className="absolute bottom-4 left-4 z-10 pointer-events-none hidden sm:block transition-opacity duration-300 group-hover:opacity-100 opacity-60">
+          <div className="flex flex-col gap-1.5 bg-white/80 dark:bg-slate-800/80 p-3 rounded-lg backdrop-blur-sm border border-slate-200 dark:border-slate-700/50 text-slate-400 dark:text-slate-500">
+            {legendPolarities.map(polarity => (
+              <div key={polarity} className="flex items-center gap-2">
+                <svg viewBox="0 -6 24 12" className="w-6 h-3">
+                  <line x1="0" y1="0" x2="18" y2="0" stroke={POLARITY_STYLES[polarity].color ?? 'currentColor'} strokeWidth="2" />
+                  <path d={MARKER_PATHS[polarity]} transform="translate(14,0)" fill={POLARITY_STYLES[polarity].color ?? 'currentColor'} />
+                </svg>
+                <span className="text-xs text-slate-600 dark:text-slate-300">{POLARITY_STYLES[polarity].label}</span>
+              </div>
+            ))}
+            {legendMechanisms.map(mechanism => (
+              <div key={mechanism} className="flex items-center gap-2">
+                <svg viewBox="0 -6 24 12" className="w-6 h-3">
+                  <line x1="0" y1="0" x2="24" y2="0" stroke="currentColor" strokeWidth="2" strokeDasharray={MECHANISM_STYLES[mechanism].dash ?? undefined} />
+                </svg>
+                <span className="text-xs text-slate-600 dark:text-slate-300">{MECHANISM_STYLES[mechanism].label}</span>
+              </div>
+            ))}
+            <span className="text-[10px] text-slate-500 dark:text-slate-400">Thicker edges are stronger effects</span>
+          </div>
+        </div>
+      )}
+      <div className="absolute bottom-4 right-4 z-10 pointer-events-none hidden sm:block">
+        <div className="bg-white/80 dark:bg-slate-800/80 px-3 py-1.5 rounded-full backdrop-blur-sm border border-slate-200 dark:border-slate-700/50 text-[10px] text-slate-500 dark:text-slate-400">
+           Scroll to Zoom • Drag to Pan • Click Node for Details
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default GraphLegend;
@@ -1,57 +1,84 @@
 import React, { useEffect, useRef } from 'react';
 import * as d3 from 'd3';
-import { GraphNode, GraphLink, NodeType } from '../types';
-
-interface NetworkGraphProps {
-  nodes: GraphNode[];
-  links: GraphLink[];
-  onNodeClick?: (node: GraphNode | null) => void;
-  isDarkMode?: boolean;
-}
+import { RelationPolarity } from '../types';
+import { nodeTypeStyle } from '../services/nodeOntology';
+import { relationDefinition } from '../services/relationVocabulary';
+import CanvasNetworkGraph from './CanvasNetworkGraph';
+import GraphLegend from './GraphLegend';
+import {
+  DIMMED_LINK_OPACITY, DIMMED_NODE_OPACITY, GraphHighlight, LINK_OPACITY, MARKER_PATHS, NetworkGraphProps, POLARITIES,
+  TOOLTIP_CLASS, carryOverLayout, linkKey, pairKey, polarityColor, structureChanged, styleLinks, symbolPath, tooltipHtml,
+  tooltipPosition
+} from './graphRendering';
+
+export type { GraphHighlight } from './graphRendering';
+
+// Past this many nodes the SVG DOM gets sluggish and the canvas renderer takes over
+export const CANVAS_NODE_THRESHOLD = 500;
 
 // Workaround for d3 type definition issues
 const d3Any = d3 as any;
 
-const NetworkGraph: React.FC<NetworkGraphProps> = ({ nodes, links, onNodeClick, isDarkMode = true }) => {
+
+const SvgNetworkGraph: React.FC<NetworkGraphProps> = ({ nodes, links, onNodeClick, isDarkMode = true, highlight = null, communityColors = null, linkColors = null }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const simulationRef = useRef<any>(null);
   const gRef = useRef<any>(null);
+  const tooltipRef = useRef<any>(null);
+  // Selections and highlight live in refs so the highlight can change without rebuilding the graph
+  const selectionsRef = useRef<{ node: any; label: any; link: any; linkLabel: any } | null>(null);
+  const highlightRef = useRef<GraphHighlight | null>(highlight);
+
+  const applyHighlight = () => {
+    const selections = selectionsRef.current;
+    if (!selections) return;
+    const { node, label, link, linkLabel } = selections;
+    const current = highlightRef.current;
+    if (!current) {
+      node.style("opacity", null);
+      label.style("opacity", null);
+      link.style("stroke-opacity", LINK_OPACITY).style("stroke-width", null);
+      linkLabel.style("opacity", 0);
+      return;
+    }
 
-  // Initialize Graph
+    const nodeIds = new Set(current.nodeIds);
+    const pairs = new Set(current.links.map(([a, b]) => pairKey(a, b)));
+    // After forceLink has run, link endpoints are node objects rather than ids
+    const onPath = (l: any) => pairs.has(pairKey(l.source.id ?? l.source, l.target.id ?? l.target));
+    node.style("opacity", (d: any) => nodeIds.has(d.id) ? 1 : DIMMED_NODE_OPACITY);
+    label.style("opacity", (d: any) => nodeIds.has(d.id) ? 1 : DIMMED_NODE_OPACITY);
+    link.style("stroke-opacity", (l: any) => onPath(l) ? 1 : DIMMED_LINK_OPACITY)
+        .style("stroke-width", (l: any) => onPath(l) ? l.width + 1 : l.width);
+    linkLabel.style("opacity", (l: any) => onPath(l) ? 1 : 0);
+  };
+
+  // Initialize Graph: layers, markers, zoom and an empty simulation that later updates feed
   useEffect(() => {
-    if (!svgRef.current || !containerRef.current || nodes.length === 0) return;
-
-    // Clear previous graph and tooltips
-    d3Any.select(svgRef.current).selectAll("*").remove();
-    d3Any.select(containerRef.current).selectAll(".graph-tooltip").remove();
+    if (!svgRef.current || !containerRef.current) return;
 
     const width = containerRef.current.clientWidth;
     const height = containerRef.current.clientHeight;
 
-    // Create a copy of the data to avoid mutating props
-    const nodesData = nodes.map(d => ({ ...d }));
-    const linksData = links.map(d => ({ ...d }));
-
     const svg = d3Any.select(svgRef.current)
       .attr("viewBox", [0, 0, width, height])
       .attr("style", "max-width: 100%; height: auto;");
-      
-    // Handle background click to deselect
-    svg.on("click", (event: any) => {
-        if (event.target.tagName === 'svg' && onNodeClick) {
-            onNodeClick(null);
-        }
-    });
 
     // Create a container group for zooming
     const g = svg.append("g");
     gRef.current = g;
 
+    // Layers, bottom to top
+    g.append("g").attr("class", "links").attr("stroke-opacity", LINK_OPACITY);
+    g.append("g").attr("class", "link-labels");
+    g.append("g").attr("class", "nodes").attr("stroke-width", 1.5);
+    g.append("g").attr("class", "labels");
+
     // Create Tooltip - Enhanced styling
-    const tooltip = d3Any.select(containerRef.current)
+    tooltipRef.current = d3Any.select(containerRef.current)
       .append("div")
-      .attr("class", "graph-tooltip absolute z-[60] px-3 py-2.5 text-xs text-slate-800 dark:text-white bg-white/95 dark:bg-slate-900/95 border border-slate-200 dark:border-slate-700/80 rounded-lg shadow-xl backdrop-blur-sm pointer-events-none opacity-0 transition-opacity duration-300 ease-out max-w-[240px] leading-relaxed")
+      .attr("class", TOOLTIP_CLASS)
       .style("top", "0px")
       .style("left", "0px");
 
@@ -65,111 +92,149 @@ const NetworkGraph: React.FC<NetworkGraphProps> = ({ nodes, links, onNodeClick,
     svg.call(zoom as any)
        .on("dblclick.zoom", null);
 
+    // Arrow markers, one per polarity. Sized in user space so thick edges do not get oversized heads.
+    svg.append("defs").selectAll("marker")
+      .data(POLARITIES)
+      .join("marker")
+      .attr("id", (d: RelationPolarity) => `arrow-${d}`)
+      .attr("viewBox", "0 -6 10 12")
+      .attr("refX", 28)
+      .attr("refY", 0)
+      .attr("markerUnits", "userSpaceOnUse")
+      .attr("markerWidth", 9)
+      .attr("markerHeight", 11)
+      .attr("orient", "auto")
+      .append("path")
+      .attr("d", (d: RelationPolarity) => MARKER_PATHS[d]);
+
     // Simulation setup
-    const simulation = d3Any.forceSimulation(nodesData)
-      .force("link", d3Any.forceLink(linksData).id((d: any) => d.id).distance(120))
+    const simulation = d3Any.forceSimulation()
+      .force("link", d3Any.forceLink().id((d: any) => d.id).distance(120))
       .force("charge", d3Any.forceManyBody().strength(-400))
       .force("center", d3Any.forceCenter(width / 2, height / 2))
-      .force("collide", d3Any.forceCollide().radius(40));
-    
+      .force("collide", d3Any.forceCollide().radius(40))
+      .stop();
+
     simulationRef.current = simulation;
 
+    return () => {
+      simulation.stop();
+      svg.selectAll("*").remove();
+      tooltipRef.current.remove();
+      simulationRef.current = null;
+      selectionsRef.current = null;
+    };
+  }, []);
+
+  // Apply the data as enter/update/exit diffs: surviving nodes keep their position and pin,
+  // only added or removed elements animate, and theme changes restyle in place
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    const g = gRef.current;
+    const tooltip = tooltipRef.current;
+    if (!simulation || !g || !containerRef.current) return;
+
+    const width = containerRef.current.clientWidth;
+    const height = containerRef.current.clientHeight;
+
+    const previousNodes = simulation.nodes();
+    const previousLinks = simulation.force("link").links();
+    const nodesData = carryOverLayout(previousNodes, nodes, links, [width / 2, height / 2]);
+    const linksData = styleLinks(nodes, links, linkColors);
+
+    const svg = d3Any.select(svgRef.current);
+
+    // Handle background click to deselect
+    svg.on("click", (event: any) => {
+        if (event.target.tagName === 'svg' && onNodeClick) {
+            onNodeClick(null);
+        }
+    });
+
     // Colors for graph elements based on theme
     const linkColor = isDarkMode ? "#64748b" : "#94a3b8";
     const textColor = isDarkMode ? "#e2e8f0" : "#1e293b";
     const arrowColor = isDarkMode ? "#64748b" : "#94a3b8";
-
-    // Arrow markers
-    svg.append("defs").selectAll("marker")
-      .data(["end"])
-      .join("marker")
-      .attr("id", (d: any) => `arrow-${d}`)
-      .attr("viewBox", "0 -5 10 10")
-      .attr("refX", 28)
-      .attr("refY", 0)
-      .attr("markerWidth", 6)
-      .attr("markerHeight", 6)
-      .attr("orient", "auto")
-      .append("path")
-      .attr("fill", arrowColor)
-      .attr("d", "M0,-5L10,0L0,5");
-
-    // Links
-    const linkGroup = g.append("g")
-      .attr("stroke", linkColor)
-      .attr("stroke-opacity", 0); // Start invisible for fade-in
-      
-    const link = linkGroup
-      .selectAll("line")
-      .data(linksData)
-      .join("line")
-      .attr("stroke-width", 1.5)
-      .attr("marker-end", "url(#arrow-end)");
-
-    // Animate Links (Fade In)
-    linkGroup.transition()
-      .duration(1000)
-      .delay(200)
-      .attr("stroke-opacity", 0.4);
+    const fill = (d: any) => communityColors?.[d.id] ?? nodeTypeStyle(d.type).color;
+
+    svg.selectAll("marker path").attr("fill", (d: RelationPolarity) => polarityColor(d, arrowColor));
+
+    // Elements on their way out are left to finish their transition and never rejoined
+    const exitFaded = (exit: any) => exit.classed("exiting", true)
+      .transition().duration(300)
+      .attr("opacity", 0)
+      .remove();
+
+    // Links (Fade In when added)
+    const link = g.select(".links")
+      .selectAll("line:not(.exiting)")
+      .data(linksData, linkKey)
+      .join(
+        (enter: any) => enter.append("line")
+          .attr("opacity", 0)
+          .call((e: any) => e.transition().duration(1000).delay(200).attr("opacity", 1)),
+        (update: any) => update,
+        exitFaded
+      )
+      .attr("stroke", (d: any) => d.color ?? polarityColor(d.polarity, linkColor))
+      .attr("stroke-width", (d: any) => d.width)
+      .attr("stroke-dasharray", (d: any) => d.dash)
+      .attr("marker-end", (d: any) => `url(#arrow-${d.polarity})`);
 
     // Link labels
-    const linkLabel = g.append("g")
+    const linkLabel = g.select(".link-labels")
         .selectAll("text")
-        .data(linksData)
-        .enter()
-        .append("text")
-        .attr("class", "text-[10px] fill-slate-500 dark:fill-slate-400 opacity-0 transition-opacity duration-300 pointer-events-none")
-        .text((d: any) => d.type);
-
-    // Nodes
-    const node = g.append("g")
-      .attr("stroke", isDarkMode ? "#fff" : "#f8fafc")
-      .attr("stroke-width", 1.5)
-      .selectAll("circle")
-      .data(nodesData)
-      .join("circle")
-      .attr("r", 0) // Start at 0 for pop-in animation
-      .attr("fill", (d: any) => {
-        switch (d.type) {
-          case NodeType.DRUG: return "#a855f7"; // Purple
-          case NodeType.PROTEIN: return "#3b82f6"; // Blue
-          case NodeType.SIDE_EFFECT: return "#ef4444"; // Red
-          default: return "#94a3b8";
-        }
-      })
-      .style("cursor", "grab")
-      .call(drag(simulation) as any);
-
-    // Animate Nodes (Pop In)
-    node.transition()
-      .duration(600)
-      .delay((d: any, i: number) => Math.random() * 300)
-      .ease(d3Any.easeBackOut.overshoot(1.7))
-      .attr("r", (d: any) => d.val ? d.val * 3 + 8 : 10);
-
-    // Labels
-    const labelGroup = g.append("g")
-      .attr("class", "labels")
-      .attr("opacity", 0); // Start invisible
-
-    const label = labelGroup
-      .selectAll("text")
-      .data(nodesData)
-      .join("text")
-      .attr("dx", 15)
-      .attr("dy", ".35em")
+        .data(linksData, linkKey)
+        .join((enter: any) => enter.append("text")
+          .attr("class", "text-[10px] fill-slate-500 dark:fill-slate-400 opacity-0 transition-opacity duration-300 pointer-events-none"))
+        .text((d: any) => relationDefinition(d.type).label);
+
+    // Nodes (Pop In when added, shrink away when removed, resize when their size or shape changes)
+    g.select(".nodes").attr("stroke", isDarkMode ? "#fff" : "#f8fafc");
+    const node = g.select(".nodes")
+      .selectAll("path:not(.exiting)")
+      .data(nodesData, (d: any) => d.id)
+      .join(
+        (enter: any) => enter.append("path")
+          .attr("d", (d: any) => symbolPath(d, 0)) // Start at 0 for pop-in animation
+          .attr("fill", fill)
+          .style("cursor", "grab")
+          .call(drag(simulation) as any)
+          .call((e: any) => e.transition()
+            .duration(600)
+            .delay(() => Math.random() * 300)
+            .ease(d3Any.easeBackOut.overshoot(1.7))
+            .attrTween("d", (d: any) => (t: number) => symbolPath(d, t))),
+        (update: any) => update
+          .call((u: any) => u.filter(function(this: any, d: any) { return this.getAttribute("d") !== symbolPath(d); })
+            .transition().duration(400)
+            .attr("d", (d: any) => symbolPath(d)))
+          .call((u: any) => u.transition("fill").duration(400).attr("fill", fill)),
+        (exit: any) => exit.classed("exiting", true)
+          .transition().duration(300)
+          .attrTween("d", (d: any) => (t: number) => symbolPath(d, 1 - t))
+          .remove()
+      );
+
+    // Labels (Fade In when added)
+    const label = g.select(".labels")
+      .selectAll("text:not(.exiting)")
+      .data(nodesData, (d: any) => d.id)
+      .join(
+        (enter: any) => enter.append("text")
+          .attr("dx", 15)
+          .attr("dy", ".35em")
+          .attr("opacity", 0)
+          .style("font-size", "12px")
+          .style("pointer-events", "none")
+          .call((e: any) => e.transition().duration(800).delay(400).attr("opacity", 1)),
+        (update: any) => update,
+        exitFaded
+      )
       .text((d: any) => d.label)
       .attr("fill", textColor)
-      .style("font-size", "12px")
-      .style("pointer-events", "none")
       .style("text-shadow", isDarkMode ? "0 1px 3px rgba(0,0,0,0.8)" : "0 1px 3px rgba(255,255,255,0.8)");
 
-    // Animate Labels (Fade In)
-    labelGroup.transition()
-      .duration(800)
-      .delay(400)
-      .attr("opacity", 1);
-
     // Click interactions
     node.on("click", (event: any, d: any) => {
         event.stopPropagation(); // Stop click from reaching svg background
@@ -180,56 +245,39 @@ const NetworkGraph: React.FC<NetworkGraphProps> = ({ nodes, links, onNodeClick,
         }
     });
 
+    // Double click releases a node pinned by dragging
+    node.on("dblclick", (event: any, d: any) => {
+        event.stopPropagation();
+        d.fx = null;
+        d.fy = null;
+        simulation.alpha(0.3).restart();
+    });
+
     // Hover interactions
     node.on("mouseover", function(this: any, event: any, d: any) {
         // Node highlight
         d3Any.select(this)
           .transition().duration(200)
-          .attr("r", (d: any) => (d.val ? d.val * 3 + 8 : 10) * 1.3)
+          .attr("d", (d: any) => symbolPath(d, 1.3))
           .attr("stroke", isDarkMode ? "#fff" : "#0f172a")
           .attr("stroke-width", 3);
           
         // Link highlight
-        link.style("stroke", (l: any) => (l.source === d || l.target === d) ? (isDarkMode ? "#fff" : "#0f172a") : linkColor)
-            .style("stroke-opacity", (l: any) => (l.source === d || l.target === d) ? 1 : 0.1)
-            .style("stroke-width", (l: any) => (l.source === d || l.target === d) ? 2.5 : 1.5);
+        const adjacent = (l: any) => l.source === d || l.target === d;
+        link.style("stroke", (l: any) => adjacent(l) ? polarityColor(l.polarity, isDarkMode ? "#fff" : "#0f172a") : null)
+            .style("stroke-opacity", (l: any) => adjacent(l) ? 1 : 0.1)
+            .style("stroke-width", (l: any) => adjacent(l) ? l.width + 1 : l.width);
             
         linkLabel.style("opacity", (l: any) => (l.source === d || l.target === d) ? 1 : 0);
 
         // Tooltip show with dynamic content
-        const typeColor = d.type === 'DRUG' ? '#a855f7' : d.type === 'PROTEIN' ? '#3b82f6' : '#ef4444';
-        
         tooltip.transition().duration(200).ease(d3Any.easeCubicOut).style("opacity", 1);
-        tooltip.html(`
-            <div class="flex items-center gap-2 mb-1 border-b border-slate-200 dark:border-slate-700/50 pb-1">
-                <div class="w-2 h-2 rounded-full shadow-[0_0_8px_${typeColor}]" style="background-color: ${typeColor}"></div>
-                <div class="font-bold text-slate-900 dark:text-slate-100">${d.label}</div>
-            </div>
-            <div class="text-[11px] text-slate-600 dark:text-slate-400 font-normal leading-relaxed">
-              ${d.description || 'No description available for this entity.'}
-            </div>
-        `);
+        tooltip.html(tooltipHtml(d));
     })
     .on("mousemove", function(event: any) {
-        // Tooltip move with improved offset
+        // Tooltip follows the pointer, flipped to avoid clipping
         const [x, y] = d3Any.pointer(event, containerRef.current);
-        const containerWidth = containerRef.current?.clientWidth || 0;
-        const containerHeight = containerRef.current?.clientHeight || 0;
-        
-        // Smart positioning to avoid clipping
-        let left = x + 15;
-        let top = y + 15;
-        
-        // If too close to right edge, flip to left
-        if (left > containerWidth - 250) {
-             left = x - 255;
-        }
-
-        // If too close to bottom edge, flip up
-        if (top > containerHeight - 120) {
-            top = y - 130;
-        }
-
+        const { left, top } = tooltipPosition(x, y, containerRef.current?.clientWidth || 0, containerRef.current?.clientHeight || 0);
         tooltip
             .style("left", `${left}px`)
             .style("top", `${top}px`);
@@ -238,21 +286,23 @@ const NetworkGraph: React.FC<NetworkGraphProps> = ({ nodes, links, onNodeClick,
         // Reset node style
         d3Any.select(this)
           .transition().duration(200)
-          .attr("r", (d: any) => d.val ? d.val * 3 + 8 : 10)
-          .attr("stroke-width", 1.5);
+          .attr("d", (d: any) => symbolPath(d))
+          .attr("stroke", null)
+          .attr("stroke-width", null);
           
         // Reset link style
-        link.style("stroke", linkColor)
-            .style("stroke-opacity", 0.4) // Reset to standard opacity
-            .style("stroke-width", 1.5);
+        link.style("stroke", null)
+            .style("stroke-opacity", LINK_OPACITY) // Reset to standard opacity
+            .style("stroke-width", null);
             
         linkLabel.style("opacity", 0);
+        applyHighlight();
 
         // Tooltip hide
         tooltip.transition().duration(200).ease(d3Any.easeCubicIn).style("opacity", 0);
     });
 
-    simulation.on("tick", () => {
+    const ticked = () => {
       link
         .attr("x1", (d: any) => d.source.x)
         .attr("y1", (d: any) => d.source.y)
@@ -263,14 +313,25 @@ const NetworkGraph: React.FC<NetworkGraphProps> = ({ nodes, links, onNodeClick,
         .attr("x", (d: any) => (d.source.x + d.target.x) / 2)
         .attr("y", (d: any) => (d.source.y + d.target.y) / 2);
 
-      node
-        .attr("cx", (d: any) => d.x)
-        .attr("cy", (d: any) => d.y);
+      node.attr("transform", (d: any) => `translate(${d.x},${d.y})`);
 
       label
         .attr("x", (d: any) => d.x)
         .attr("y", (d: any) => d.y);
-    });
+    };
+    simulation.on("tick", ticked);
+
+    // Restyling alone leaves the layout where it is; added or removed elements reheat it gently
+    const isFirstLayout = previousNodes.length === 0;
+    const hasChanged = structureChanged(previousNodes, previousLinks, nodesData, linksData);
+    simulation.nodes(nodesData);
+    simulation.force("link").links(linksData);
+    if (isFirstLayout || hasChanged) simulation.alpha(isFirstLayout ? 1 : 0.5).restart();
+    // Place added elements right away instead of at the origin until the next tick
+    ticked();
+
+    selectionsRef.current = { node, label, link, linkLabel };
+    applyHighlight();
 
     function drag(simulation: any) {
       function dragstarted(event: any) {
@@ -295,11 +356,12 @@ const NetworkGraph: React.FC<NetworkGraphProps> = ({ nodes, links, onNodeClick,
         .on("drag", dragged)
         .on("end", dragended);
     }
+  }, [nodes, links, onNodeClick, isDarkMode, communityColors, linkColors]);
 
-    return () => {
-      simulation.stop();
-    };
-  }, [nodes, links, onNodeClick, isDarkMode]);
+  useEffect(() => {
+    highlightRef.current = highlight;
+    applyHighlight();
+  }, [highlight]);
 
   // Handle Resize with requestAnimationFrame to prevent ResizeObserver loop error
   useEffect(() => {
@@ -338,30 +400,15 @@ const NetworkGraph: React.FC<NetworkGraphProps> = ({ nodes, links, onNodeClick,
 
   return (
     <div ref={containerRef} className="w-full h-full relative overflow-hidden rounded-xl bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 shadow-inner group transition-colors duration-300">
-      <div className="absolute top-4 left-4 z-10 pointer-events-none transition-opacity duration-300 group-hover:opacity-100 opacity-60">
-        <div className="flex flex-col gap-2 bg-white/80 dark:bg-slate-800/80 p-3 rounded-lg backdrop-blur-sm border border-slate-200 dark:border-slate-700/50">
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded-full bg-purple-500"></div>
-            <span className="text-xs text-slate-600 dark:text-slate-300">Drug</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded-full bg-blue-500"></div>
-            <span className="text-xs text-slate-600 dark:text-slate-300">Target / Protein</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded-full bg-red-500"></div>
-            <span className="text-xs text-slate-600 dark:text-slate-300">Side Effect</span>
-          </div>
-        </div>
-      </div>
-      <div className="absolute bottom-4 right-4 z-10 pointer-events-none hidden sm:block">
-        <div className="bg-white/80 dark:bg-slate-800/80 px-3 py-1.5 rounded-full backdrop-blur-sm border border-slate-200 dark:border-slate-700/50 text-[10px] text-slate-500 dark:text-slate-400">
-           Scroll to Zoom • Drag to Pan • Click Node for Details
-        </div>
-      </div>
+      <GraphLegend nodes={nodes} links={links} communityColors={communityColors} />
       <svg ref={svgRef} className="w-full h-full cursor-move"></svg>
     </div>
   );
 };
 
+const NetworkGraph: React.FC<NetworkGraphProps> = props =>
+  props.nodes.length > CANVAS_NODE_THRESHOLD
+    ? <CanvasNetworkGraph {...props} />
+    : <SvgNetworkGraph {...props} />;
+
 export default NetworkGraph;
\ No newline at end of file
@@ -0,0 +1,117 @@
+import React from 'react';
+import { Grid3x3 } from 'lucide-react';
+import { CombinationAnalysis } from '../types';
+import { drugSetKey } from '../services/drugSet';
+import { findCombination } from '../services/decomposition';
+
+interface PairwiseMatrixProps {
+  drugs: string[];
+  entries: CombinationAnalysis[];
+  fullRisk: number;
+  selectedKey: string | null;
+  onSelect: (entry: CombinationAnalysis | null) => void; // null returns to the full combination
+}
+
+// White → red scale; alpha keeps the grid readable in both themes
+const riskColor = (risk: number) => `rgba(239, 68, 68, ${0.1 + risk * 0.8})`;
+
+const PairwiseMatrix: React.FC<PairwiseMatrixProps> = ({ drugs, entries, fullRisk, selectedKey, onSelect }) => {
+  const triplets = entries
+    .filter(e => e.drugs.length === 3)
+    .sort((a, b) => (b.risk ?? -1) - (a.risk ?? -1));
+
+  const renderCell = (entry: CombinationAnalysis | undefined) => {
+    if (!entry) return <div className="aspect-square" />;
+    const key = drugSetKey(entry.drugs);
+    const selected = key === selectedKey;
+    return (
+      <button
+        onClick={() => onSelect(selected ? null : entry)}
+        disabled={!entry.result}
+        title={entry.error ? `${entry.drugs.join(' + ')}: ${entry.error}` : `${entry.drugs.join(' + ')}: ${((entry.risk ?? 0) * 100).toFixed(0)}% risk`}
+        className={`aspect-square rounded-md text-[10px] font-mono flex items-center justify-center transition-all border ${
+          selected ? 'border-purple-500 ring-2 ring-purple-500/50' : 'border-transparent hover:border-slate-400 dark:hover:border-slate-500'
+        } ${entry.result ? 'text-slate-900 dark:text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-400 cursor-not-allowed'}`}
+        style={entry.result ? { backgroundColor: riskColor(entry.risk ?? 0) } : undefined}
+      >
+        {entry.result ? ((entry.risk ?? 0) * 100).toFixed(0) : '!'}
+      </button>
+    );
+  };
+
+  return (
+    <div className="glass-panel p-5 rounded-2xl">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Grid3x3 className="w-3 h-3 text-red-500" />
+          Pairwise Risk
+        </h4>
+        <button
+          onClick={() => onSelect(null)}
+          className={`text-[10px] px-2 py-0.5 rounded border transition-colors ${
+            selectedKey === null
+              ? 'bg-purple-600 text-white border-purple-600'
+              : 'text-slate-500 border-slate-200 dark:border-slate-700 hover:text-purple-600 dark:hover:text-purple-400'
+          }`}
+          title="Show the full combination in the graph"
+        >
+          Full regimen {(fullRisk * 100).toFixed(0)}%
+        </button>
+      </div>
+
+      <div className="grid gap-1" style={{ gridTemplateColumns: `minmax(0, 4rem) repeat(${drugs.length}, minmax(0, 1fr))` }}>
+        <div />
+        {drugs.map(d => (
+          <div key={d} className="text-[9px] text-slate-500 dark:text-slate-400 truncate text-center" title={d}>{d}</div>
+        ))}
+        {drugs.map((row, i) => (
+          <React.Fragment key={row}>
+            <div className="text-[9px] text-slate-500 dark:text-slate-400 truncate self-center" title={row}>{row}</div>
+            {drugs.map((col, j) => (
+              <React.Fragment key={col}>
+                {i === j
+                  ? <div className="aspect-square rounded-md bg-slate-200/50 dark:bg-slate-800/50" />
+                  : renderCell(findCombination(entries, [row, col]))}
+              </React.Fragment>
+            ))}
+          </React.Fragment>
+        ))}
+      </div>
+
+      {triplets.length > 0 && (
+        <div className="mt-4">
+          <h5 className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">Triplets</h5>
+          <div className="space-y-1">
+            {triplets.map(entry => {
+              const key = drugSetKey(entry.drugs);
+              return (
+                <button
+                  key={key}
+                  onClick={() => onSelect(key === selectedKey ? null : entry)}
+                  disabled={!entry.result}
+                  title={entry.error}
+                  className={`w-full flex justify-between items-center text-xs px-2 py-1 rounded-lg border transition-colors ${
+                    key === selectedKey
+                      ? 'border-purple-500 bg-purple-50 dark:bg-purple-900/20'
+                      : 'border-slate-200 dark:border-slate-700 hover:border-slate-400 dark:hover:border-slate-500'
+                  } disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                  <span className="truncate text-slate-700 dark:text-slate-300">{entry.drugs.join(' + ')}</span>
+                  <span className="font-mono text-[10px] px-1.5 rounded" style={entry.result ? { backgroundColor: riskColor(entry.risk ?? 0) } : undefined}>
+                    {entry.result ? `${((entry.risk ?? 0) * 100).toFixed(0)}%` : 'failed'}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <p className="text-[10px] text-slate-500 mt-3 leading-relaxed">
+        Cells show each pair's highest predicted probability, discounted for milder severities. Click a cell to open that pair's subgraph.
+      </p>
+    </div>
+  );
+};
+
+export default PairwiseMatrix;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Route } from 'lucide-react';
+import { PathDescription } from '../services/pathExplanation';
+
+interface PathExplanationProps {
+  outcomeLabel: string;
+  paths: PathDescription[];
+  selectedIndex: number | null; // null: all paths are highlighted
+  onSelect: (index: number | null) => void;
+}
+
+const PathExplanation: React.FC<PathExplanationProps> = ({ outcomeLabel, paths, selectedIndex, onSelect }) => {
+  if (paths.length === 0) {
+    return (
+      <p className="mt-2 text-xs text-slate-500 dark:text-slate-400 italic">
+        No mechanism path connects the input drugs to {outcomeLabel} in this graph.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-2 space-y-1.5">
+      <div className="flex items-center justify-between text-[10px] text-slate-500 dark:text-slate-400">
+        <span className="flex items-center gap-1 font-semibold uppercase tracking-wider">
+          <Route className="w-3 h-3" />
+          {paths.length} {paths.length === 1 ? 'path' : 'paths'} to {outcomeLabel}
+        </span>
+        {selectedIndex !== null && (
+          <button onClick={() => onSelect(null)} className="hover:text-purple-600 dark:hover:text-purple-400 transition-colors">
+            Show all
+          </button>
+        )}
+      </div>
+      {paths.map((path, i) => (
+        <button
+          key={i}
+          onClick={() => onSelect(selectedIndex === i ? null : i)}
+          className={`w-full text-left p-2 rounded-lg border transition-colors ${
+            selectedIndex === i
+              ? 'border-purple-500/60 bg-purple-50 dark:bg-purple-900/20'
+              : 'border-slate-200 dark:border-slate-700 hover:border-purple-500/40'
+          }`}
+        >
+          <div className="text-[11px] font-mono text-slate-800 dark:text-slate-200 break-words">{path.chain}</div>
+          <ol className="mt-1 space-y-0.5 list-decimal list-inside text-[11px] text-slate-600 dark:text-slate-400">
+            {path.walkthrough.map((sentence, j) => <li key={j}>{sentence}</li>)}
+          </ol>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default PathExplanation;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { UserRound, ChevronDown, ChevronUp } from 'lucide-react';
+import { HepaticImpairment, MetabolizerPhenotype, PatientProfile } from '../types';
+import { PHARMACOGENETIC_GENES, describePatientProfile } from '../services/patientProfile';
+import { findInputIssues } from '../services/inputSanitizer';
+
+interface PatientProfilePanelProps {
+  profile: PatientProfile;
+  onChange: (profile: PatientProfile) => void;
+  disabled?: boolean;
+  providerAware: boolean; // False when the active provider ignores the profile
+}
+
+const HEPATIC_OPTIONS: { value: HepaticImpairment; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'mild', label: 'Mild (Child-Pugh A)' },
+  { value: 'moderate', label: 'Moderate (Child-Pugh B)' },
+  { value: 'severe', label: 'Severe (Child-Pugh C)' }
+];
+
+const PHENOTYPE_OPTIONS: MetabolizerPhenotype[] = ['poor', 'intermediate', 'normal', 'rapid', 'ultrarapid'];
+
+const inputClass = "w-full bg-white dark:bg-slate-900/50 border border-slate-300 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-purple-500/50 disabled:opacity-50";
+const labelClass = "block text-[10px] font-medium text-slate-500 dark:text-slate-400 mb-1 uppercase tracking-wider";
+
+const parseNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+const PatientProfilePanel: React.FC<PatientProfilePanelProps> = ({ profile, onChange, disabled, providerAware }) => {
+  const [open, setOpen] = useState(false);
+  const facts = describePatientProfile(profile);
+  const comorbidityIssues = findInputIssues([], profile);
+  const update = (patch: Partial<PatientProfile>) => onChange({ ...profile, ...patch });
+
+  return (
+    <div className="glass-panel p-5 rounded-2xl shadow-xl shadow-black/5 dark:shadow-black/20 shrink-0">
+      <button onClick={() => setOpen(!open)} className="w-full flex justify-between items-center">
+        <h3 className="text-md font-semibold flex items-center gap-2 text-slate-800 dark:text-slate-100">
+          <UserRound className="w-4 h-4 text-purple-500 dark:text-purple-400" />
+          Patient Profile
+        </h3>
+        <span className="flex items-center gap-2 text-xs text-slate-500">
+          {facts.length > 0 ? `${facts.length} set` : 'Not set'}
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </span>
+      </button>
+
+      {!open && facts.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-3">
+          {facts.map(f => (
+            <span key={f} className="text-[10px] px-1.5 py-0.5 rounded bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-300 border border-purple-200 dark:border-purple-800/50">{f}</span>
+          ))}
+        </div>
+      )}
+
+      {open && (
+        <div className="mt-4 space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className={labelClass}>Age</label>
+              <input type="number" min={0} max={120} value={profile.age ?? ''} disabled={disabled}
+                onChange={e => update({ age: parseNumber(e.target.value) })} className={inputClass} placeholder="years" />
+            </div>
+            <div>
+              <label className={labelClass}>Weight</label>
+              <input type="number" min={0} value={profile.weightKg ?? ''} disabled={disabled}
+                onChange={e => update({ weightKg: parseNumber(e.target.value) })} className={inputClass} placeholder="kg" />
+            </div>
+            <div>
+              <label className={labelClass} title="Estimated glomerular filtration rate, mL/min/1.73 m²">eGFR</label>
+              <input type="number" min={0} value={profile.egfr ?? ''} disabled={disabled}
+                onChange={e => update({ egfr: parseNumber(e.target.value) })} className={inputClass} placeholder="mL/min" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 items-end">
+            <div>
+              <label className={labelClass}>Hepatic impairment</label>
+              <select value={profile.hepaticImpairment ?? 'none'} disabled={disabled}
+                onChange={e => update({ hepaticImpairment: e.target.value as HepaticImpairment })} className={inputClass}>
+                {HEPATIC_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 pb-1.5 cursor-pointer">
+              <input type="checkbox" checked={profile.pregnant ?? false} disabled={disabled}
+                onChange={e => update({ pregnant: e.target.checked })} className="accent-purple-600" />
+              Pregnant
+            </label>
+          </div>
+
+          <div>
+            <label className={labelClass}>Metabolizer phenotypes</label>
+            <div className="grid grid-cols-2 gap-2">
+              {PHARMACOGENETIC_GENES.map(gene => (
+                <div key={gene} className="flex items-center gap-2">
+                  <span className="text-[10px] font-mono text-slate-500 w-14 shrink-0">{gene}</span>
+                  <select value={profile.phenotypes?.[gene] ?? 'normal'} disabled={disabled}
+                    onChange={e => update({ phenotypes: { ...profile.phenotypes, [gene]: e.target.value as MetabolizerPhenotype } })}
+                    className={inputClass}>
+                    {PHENOTYPE_OPTIONS.map(p => <option key={p} value={p}>{p}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Comorbidities</label>
+            <input type="text" value={(profile.comorbidities ?? []).join(',')} disabled={disabled}
+              onChange={e => update({ comorbidities: e.target.value.split(',') })}
+              className={inputClass} placeholder="e.g. atrial fibrillation, epilepsy" />
+            {comorbidityIssues.map(i => (
+              <p key={i.entry} className="text-[10px] text-red-600 dark:text-red-400 mt-1">"{i.entry.trim()}": {i.reason}</p>
+            ))}
+          </div>
+
+          <div className="flex justify-between items-center">
+            <p className="text-[10px] text-slate-500 leading-relaxed">
+              {providerAware ? 'Predictions will be adjusted to this patient.' : 'The current provider ignores the patient profile.'}
+            </p>
+            {facts.length > 0 && (
+              <button onClick={() => onChange({})} disabled={disabled} className="text-[10px] text-slate-500 hover:text-red-500 transition-colors">
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PatientProfilePanel;
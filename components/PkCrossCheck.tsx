@@ -0,0 +1,85 @@
+import React from 'react';
+import { FlaskRound, CheckCircle2, XCircle, HelpCircle } from 'lucide-react';
+import { PkCrossCheckReport, PkVerdict } from '../services/pkRuleEngine';
+import { linkKey } from './graphRendering';
+
+interface PkCrossCheckProps {
+  report: PkCrossCheckReport;
+}
+
+// color is the stroke of the checked edge in the graph
+const VERDICT_STYLES: Record<PkVerdict, { icon: React.ElementType; className: string; label: string; color: string }> = {
+  confirmed: { icon: CheckCircle2, className: 'text-green-600 dark:text-green-400', label: 'Confirmed', color: '#16a34a' },
+  contradicted: { icon: XCircle, className: 'text-red-600 dark:text-red-400', label: 'Contradicted', color: '#dc2626' },
+  unverified: { icon: HelpCircle, className: 'text-amber-600 dark:text-amber-400', label: 'Unverified', color: '#d97706' }
+};
+
+// Stroke per checked link, keyed like the graph renderers key their links
+export const pkVerdictLinkColors = (report: PkCrossCheckReport): Record<string, string> =>
+  Object.fromEntries(report.checks.map(c => [linkKey(c.link), VERDICT_STYLES[c.verdict].color]));
+
+const PkCrossCheck: React.FC<PkCrossCheckProps> = ({ report }) => {
+  if (report.checks.length === 0 && report.expected.length === 0) return null;
+
+  const counts = report.checks.reduce<Record<PkVerdict, number>>(
+    (acc, c) => ({ ...acc, [c.verdict]: acc[c.verdict] + 1 }),
+    { confirmed: 0, contradicted: 0, unverified: 0 }
+  );
+
+  return (
+    <div className="glass-panel p-5 rounded-2xl">
+      <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <FlaskRound className="w-3 h-3 text-blue-500" />
+        PK Rule Cross-Check
+      </h4>
+
+      {report.checks.length > 0 && (
+        <>
+          <div className="flex gap-3 text-[10px] font-mono mb-2">
+            {(Object.keys(VERDICT_STYLES) as PkVerdict[]).map(v => (
+              <span key={v} className={VERDICT_STYLES[v].className}>{VERDICT_STYLES[v].label}: {counts[v]}</span>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-500 dark:text-slate-400 mb-2">Checked edges are colored by verdict in the graph.</p>
+          <ul className="space-y-1.5 mb-3">
+            {report.checks.map((check, i) => {
+              const style = VERDICT_STYLES[check.verdict];
+              const Icon = style.icon;
+              return (
+                <li key={i} className="text-xs flex gap-2 items-start" title={check.note}>
+                  <Icon className={`w-3.5 h-3.5 shrink-0 mt-0.5 ${style.className}`} />
+                  <div className="min-w-0">
+                    <div className="text-slate-700 dark:text-slate-300">
+                      {check.drug} <span className="font-mono text-slate-500">{check.link.type}</span> {check.enzyme}
+                    </div>
+                    <div className="text-[10px] text-slate-500 dark:text-slate-400">{check.note}</div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+
+      {report.expected.length > 0 && (
+        <>
+          <h5 className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5">Expected by Rule Table</h5>
+          <ul className="space-y-1">
+            {report.expected.map((e, i) => (
+              <li key={i} className="text-[11px] text-slate-600 dark:text-slate-300 flex justify-between gap-2">
+                <span>
+                  {e.perpetrator} → {e.enzyme} {e.mechanism} ({e.strength}): {e.effect}
+                </span>
+                {!e.mentionedInGraph && (
+                  <span className="text-[9px] font-mono px-1 rounded bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 shrink-0 h-fit">NOT IN GRAPH</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PkCrossCheck;
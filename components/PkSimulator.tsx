@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { Activity } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { DrugRegimen } from '../types';
+import { simulateRegimen } from '../services/pkSimulator';
+
+interface PkSimulatorProps {
+  drugs: string[];
+  regimens?: DrugRegimen[];
+  weightKg?: number;
+  isDark: boolean;
+}
+
+const DURATIONS = [24, 72, 168, 336];
+const ROUTE_LABELS: Record<string, string> = { oral: 'PO', iv: 'IV', im: 'IM', sc: 'SC' };
+
+const formatRatio = (ratio: number) => `${ratio.toFixed(2)}×`;
+const ratioClass = (ratio: number) =>
+  ratio >= 1.25 ? 'text-red-600 dark:text-red-400' : ratio <= 0.8 ? 'text-blue-600 dark:text-blue-400' : 'text-slate-600 dark:text-slate-300';
+
+const PkSimulator: React.FC<PkSimulatorProps> = ({ drugs, regimens, weightKg, isDark }) => {
+  const [durationHours, setDurationHours] = useState(168);
+  const [victim, setVictim] = useState<string | null>(null);
+
+  const simulation = useMemo(
+    () => simulateRegimen(drugs, regimens, { weightKg, durationHours }),
+    [drugs, regimens, weightKg, durationHours]
+  );
+
+  if (simulation.drugs.length === 0) return null;
+
+  // Default to the drug whose exposure the regimen changes most
+  const shift = (auc: number, base: number) => (base > 0 ? Math.abs(Math.log(auc / base)) : 0);
+  const fallback = [...simulation.drugs].sort((a, b) =>
+    shift(b.combinedMetrics.auc, b.baselineMetrics.auc) - shift(a.combinedMetrics.auc, a.baselineMetrics.auc)
+  )[0];
+  const selected = simulation.drugs.find(d => d.drug === victim) ?? fallback;
+  const aucRatio = selected.baselineMetrics.auc > 0 ? selected.combinedMetrics.auc / selected.baselineMetrics.auc : 1;
+  const cmaxRatio = selected.baselineMetrics.cmax > 0 ? selected.combinedMetrics.cmax / selected.baselineMetrics.cmax : 1;
+
+  // mg/L → ng/mL
+  const data = simulation.times.map((t, i) => ({
+    t,
+    alone: +(selected.baseline[i] * 1000).toFixed(3),
+    combined: +(selected.combined[i] * 1000).toFixed(3)
+  }));
+
+  const selectClass = "bg-white dark:bg-slate-900/50 border border-slate-300 dark:border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-purple-500/50";
+  const { regimen } = selected;
+
+  return (
+    <div className="glass-panel p-5 rounded-2xl">
+      <div className="flex justify-between items-center mb-3 gap-2">
+        <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Activity className="w-3 h-3 text-purple-500" />
+          Concentration Simulation
+        </h4>
+        <div className="flex gap-2">
+          <select value={selected.drug} onChange={e => setVictim(e.target.value)} className={selectClass}>
+            {simulation.drugs.map(d => <option key={d.drug} value={d.drug}>{d.drug}</option>)}
+          </select>
+          <select value={durationHours} onChange={e => setDurationHours(Number(e.target.value))} className={selectClass}>
+            {DURATIONS.map(h => <option key={h} value={h}>{h < 72 ? `${h} h` : `${h / 24} d`}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="text-[10px] text-slate-500 dark:text-slate-400 mb-2 font-mono">
+        {regimen.doseMg} mg {ROUTE_LABELS[regimen.route]} {regimen.intervalHours > 0 ? `q${regimen.intervalHours}h` : 'single dose'}
+        {regimen.startHour > 0 && ` from ${regimen.startHour} h`}
+      </div>
+
+      <div className="h-56 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={isDark ? '#334155' : '#e2e8f0'} />
+            <XAxis dataKey="t" type="number" domain={[0, durationHours]} tick={{ fontSize: 10, fill: '#94a3b8' }} unit=" h" />
+            <YAxis tick={{ fontSize: 10, fill: '#94a3b8' }} width={45} />
+            <Tooltip
+              contentStyle={{ backgroundColor: isDark ? '#0f172a' : '#ffffff', borderColor: isDark ? '#334155' : '#e2e8f0', borderRadius: '8px', fontSize: '12px' }}
+              labelFormatter={(t) => `${t} h`}
+              formatter={(value: number) => `${value} ng/mL`}
+            />
+            <Legend wrapperStyle={{ fontSize: '11px' }} />
+            <Line type="monotone" dataKey="alone" name="Alone" stroke="#94a3b8" strokeDasharray="4 3" dot={false} strokeWidth={1.5} />
+            <Line type="monotone" dataKey="combined" name="In regimen" stroke="#a855f7" dot={false} strokeWidth={2} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mt-3">
+        <div className="rounded-lg bg-slate-50 dark:bg-slate-800/50 p-2">
+          <div className="text-[10px] text-slate-500 uppercase tracking-wider">AUC ratio</div>
+          <div className={`text-lg font-mono font-bold ${ratioClass(aucRatio)}`}>{formatRatio(aucRatio)}</div>
+        </div>
+        <div className="rounded-lg bg-slate-50 dark:bg-slate-800/50 p-2">
+          <div className="text-[10px] text-slate-500 uppercase tracking-wider">Cmax ratio</div>
+          <div className={`text-lg font-mono font-bold ${ratioClass(cmaxRatio)}`}>{formatRatio(cmaxRatio)}</div>
+        </div>
+      </div>
+
+      {selected.modifiers.length > 0 ? (
+        <ul className="mt-3 space-y-1">
+          {selected.modifiers.map((m, i) => (
+            <li key={i} className="text-[11px] text-slate-600 dark:text-slate-300">
+              {m.perpetrator}: {m.strength} {m.enzyme} {m.mechanism} <span className="text-slate-400">(fm {m.fm.toFixed(2)})</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-[11px] text-slate-500 mt-3">No inhibitor or inducer of {selected.drug}'s clearance pathways in this regimen.</p>
+      )}
+
+      <p className="text-[10px] text-slate-500 mt-3 leading-relaxed">
+        Population-average parameters for a {weightKg ?? 70} kg adult; first-pass effects are not modeled.
+        {simulation.unsupported.length > 0 && ` No PK parameters for ${simulation.unsupported.join(', ')}.`}
+      </p>
+    </div>
+  );
+};
+
+export default PkSimulator;
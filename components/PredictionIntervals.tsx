@@ -0,0 +1,60 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { InteractionPrediction } from '../types';
+
+interface PredictionIntervalsProps {
+  predictions: InteractionPrediction[];
+  ensembleSize: number;
+}
+
+const agreementColor = (agreement: number) =>
+  agreement >= 0.8 ? 'text-green-600 dark:text-green-400' : agreement >= 0.5 ? 'text-amber-600 dark:text-amber-400' : 'text-red-600 dark:text-red-400';
+
+const PredictionIntervals: React.FC<PredictionIntervalsProps> = ({ predictions, ensembleSize }) => {
+  const rows = predictions.filter(p => p.ensemble);
+
+  return (
+    <div className="glass-panel p-5 rounded-2xl">
+      <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <Layers className="w-3 h-3 text-blue-500" />
+        Ensemble Intervals ({ensembleSize} runs)
+      </h4>
+      <div className="space-y-3">
+        {rows.map((pred, i) => {
+          const stats = pred.ensemble!;
+          return (
+            <div key={i} title={`Mean ${(pred.probability * 100).toFixed(0)}%, SD ${(stats.stdDev * 100).toFixed(1)} pts, 95% CI ${(stats.lower * 100).toFixed(0)}–${(stats.upper * 100).toFixed(0)}%`}>
+              <div className="flex justify-between items-baseline text-xs mb-1 gap-2">
+                <span className="text-slate-700 dark:text-slate-300 truncate">{pred.sideEffect}</span>
+                <span className="font-mono text-[10px] shrink-0">
+                  <span className="text-slate-600 dark:text-slate-400">
+                    {(stats.lower * 100).toFixed(0)}–{(stats.upper * 100).toFixed(0)}%
+                  </span>
+                  <span className={`ml-2 ${agreementColor(stats.agreement)}`}>
+                    {stats.runs}/{ensembleSize}
+                  </span>
+                </span>
+              </div>
+              <div className="relative h-2 rounded-full bg-slate-200 dark:bg-slate-800">
+                {/* 95% interval with the mean as a tick */}
+                <div
+                  className="absolute top-0 h-full rounded-full bg-blue-500/40 dark:bg-blue-400/40"
+                  style={{ left: `${stats.lower * 100}%`, width: `${Math.max(stats.upper - stats.lower, 0.01) * 100}%` }}
+                ></div>
+                <div
+                  className="absolute -top-0.5 h-3 w-0.5 rounded bg-blue-600 dark:bg-blue-300"
+                  style={{ left: `calc(${pred.probability * 100}% - 1px)` }}
+                ></div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-[10px] text-slate-500 mt-3 leading-relaxed">
+        Bars show the 95% confidence interval of the mean probability across the runs that reported each side effect; the fraction is how many of the {ensembleSize} runs reported it.
+      </p>
+    </div>
+  );
+};
+
+export default PredictionIntervals;
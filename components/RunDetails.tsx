@@ -0,0 +1,73 @@
+import React from 'react';
+import { Fingerprint, AlertTriangle, RotateCcw, Download } from 'lucide-react';
+import { GenerationMetadata } from '../types';
+
+interface RunDetailsProps {
+  generation: GenerationMetadata;
+  outdated: string | null; // Why the settings differ from the current ones, if they do
+  canReproduce: boolean;
+  reproduceHint?: string;
+  onReproduce: () => void;
+  onDownloadRaw: () => void;
+  disabled?: boolean;
+}
+
+const RunDetails: React.FC<RunDetailsProps> = ({ generation, outdated, canReproduce, reproduceHint, onReproduce, onDownloadRaw, disabled }) => {
+  const rows: [string, string | undefined][] = [
+    ['Provider', generation.providerVersion ? `${generation.providerId} (${generation.providerVersion})` : generation.providerId],
+    ['Model', generation.modelId],
+    ['Prompt', generation.promptVersion],
+    ['Schema', generation.schemaVersion],
+    ['Temperature', generation.temperature?.toString()],
+    ['Generated', new Date(generation.generatedAt).toLocaleString()]
+  ];
+  const rawCount = generation.rawResponses?.length ?? 0;
+
+  return (
+    <details className="glass-panel px-4 py-3 rounded-xl text-[11px] group/run">
+      <summary className="cursor-pointer flex items-center justify-between gap-2 text-slate-500 dark:text-slate-400 select-none">
+        <span className="flex items-center gap-1.5 font-bold uppercase tracking-wider text-[10px]">
+          <Fingerprint className="w-3 h-3 text-purple-500" />
+          Run Details
+        </span>
+        {outdated && (
+          <span className="flex items-center gap-1 text-amber-600 dark:text-amber-400" title={outdated}>
+            <AlertTriangle className="w-3 h-3" />
+            Outdated prompt
+          </span>
+        )}
+      </summary>
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 mt-3">
+        {rows.filter(([, value]) => value !== undefined).map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-slate-500">{label}</dt>
+            <dd className="font-mono text-slate-700 dark:text-slate-300 break-all">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+
+      {outdated && <p className="mt-2 text-amber-600 dark:text-amber-400">{outdated}</p>}
+
+      <div className="flex gap-3 mt-3">
+        <button
+          onClick={onReproduce}
+          disabled={disabled || !canReproduce}
+          title={reproduceHint}
+          className="flex items-center gap-1 text-slate-500 hover:text-purple-600 dark:hover:text-purple-400 disabled:opacity-50 disabled:hover:text-slate-500 transition-colors"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Re-run with same settings
+        </button>
+        {rawCount > 0 && (
+          <button onClick={onDownloadRaw} className="flex items-center gap-1 text-slate-500 hover:text-purple-600 dark:hover:text-purple-400 transition-colors">
+            <Download className="w-3 h-3" />
+            Raw {rawCount === 1 ? 'response' : `responses (${rawCount})`}
+          </button>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default RunDetails;
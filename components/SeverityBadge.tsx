@@ -0,0 +1,43 @@
+import React from 'react';
+import { InteractionSeverity } from '../types';
+
+// Chart fills per severity; ungraded predictions use the neutral slate
+export const SEVERITY_COLORS: Record<InteractionSeverity, string> = {
+  contraindicated: '#a21caf',
+  major: '#ef4444',
+  moderate: '#f97316',
+  minor: '#eab308'
+};
+export const UNGRADED_COLOR = '#64748b';
+
+export const SEVERITY_BORDERS: Record<InteractionSeverity, string> = {
+  contraindicated: 'border-l-fuchsia-600',
+  major: 'border-l-red-500',
+  moderate: 'border-l-orange-500',
+  minor: 'border-l-yellow-500'
+};
+
+const SEVERITY_STYLES: Record<InteractionSeverity, string> = {
+  contraindicated: 'bg-fuchsia-100 dark:bg-fuchsia-900/30 text-fuchsia-700 dark:text-fuchsia-300 border-fuchsia-200 dark:border-fuchsia-800/50',
+  major: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 border-red-200 dark:border-red-800/50',
+  moderate: 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 border-orange-200 dark:border-orange-800/50',
+  minor: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 border-yellow-200 dark:border-yellow-800/50'
+};
+
+interface SeverityBadgeProps {
+  severity?: InteractionSeverity;
+}
+
+const SeverityBadge: React.FC<SeverityBadgeProps> = ({ severity }) => (
+  <span
+    className={`text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded border ${
+      severity
+        ? SEVERITY_STYLES[severity]
+        : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700'
+    }`}
+  >
+    {severity ?? 'Ungraded'}
+  </span>
+);
+
+export default SeverityBadge;
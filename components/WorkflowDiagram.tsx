@@ -24,7 +24,7 @@ const WorkflowDiagram: React.FC = () => {
     { 
       icon: BrainCircuit, 
       title: "GNN Inference", 
-      desc: "Model predicts unobserved side effects",
+      desc: "R-GCN scores unobserved side-effect links",
       color: "bg-purple-600 text-white shadow-lg shadow-purple-500/30 dark:shadow-purple-900/50 border-transparent" 
     },
     { 
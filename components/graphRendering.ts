@@ -0,0 +1,157 @@
+import * as d3 from 'd3';
+import { GraphNode, GraphLink, RelationMechanism, RelationPolarity } from '../types';
+import { NodeShape, nodeTypeStyle } from '../services/nodeOntology';
+import { MECHANISM_STYLES, POLARITY_STYLES, linkMechanism, relationDefinition, strengthWidth } from '../services/relationVocabulary';
+
+// Shared by the SVG and canvas renderers of NetworkGraph
+
+// Nodes and edges to bring forward; everything else is dimmed
+export interface GraphHighlight {
+  nodeIds: string[];
+  links: [string, string][]; // Endpoint pairs, in either direction
+}
+
+export interface NetworkGraphProps {
+  nodes: GraphNode[];
+  links: GraphLink[];
+  onNodeClick?: (node: GraphNode | null) => void;
+  isDarkMode?: boolean;
+  highlight?: GraphHighlight | null;
+  communityColors?: Record<string, string> | null; // Fill per node id, replacing the type colors
+  linkColors?: Record<string, string> | null; // Stroke per link key (see linkKey), replacing the polarity colors
+}
+
+// Workaround for d3 type definition issues
+const d3Any = d3 as any;
+
+export const SYMBOLS: Record<NodeShape, any> = {
+  circle: d3Any.symbolCircle,
+  square: d3Any.symbolSquare,
+  diamond: d3Any.symbolDiamond,
+  triangle: d3Any.symbolTriangle,
+  wye: d3Any.symbolWye,
+  star: d3Any.symbolStar,
+  cross: d3Any.symbolCross
+};
+
+export const POLARITIES = Object.keys(POLARITY_STYLES) as RelationPolarity[];
+export const LINK_OPACITY = 0.6;
+export const DIMMED_NODE_OPACITY = 0.15;
+export const DIMMED_LINK_OPACITY = 0.05;
+
+export const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// Inhibition ends in a blunt bar, everything else in an arrowhead
+export const MARKER_PATHS: Record<RelationPolarity, string> = {
+  activating: "M0,-5L10,0L0,5",
+  inhibiting: "M6,-6H10V6H6Z",
+  neutral: "M0,-5L10,0L0,5"
+};
+
+export const mechanismOf = (link: GraphLink, nodesById: Map<string, GraphNode>): RelationMechanism =>
+  link.mechanism ?? linkMechanism(link.type, nodesById.get(link.target));
+
+export const nodeRadius = (d: GraphNode) => (d.val ? d.val * 3 + 8 : 10);
+
+// Every shape covers the area of the circle the node used to be, so sizes stay comparable across types
+export const symbolGenerator = (d: GraphNode, scale = 1) =>
+  d3Any.symbol()
+    .type(SYMBOLS[nodeTypeStyle(d.type).shape])
+    .size(Math.PI * (nodeRadius(d) * scale) ** 2);
+
+export const symbolPath = (d: GraphNode, scale = 1): string => symbolGenerator(d, scale)();
+
+export const polarityColor = (polarity: RelationPolarity, fallback: string) => POLARITY_STYLES[polarity].color ?? fallback;
+
+export interface StyledLink extends GraphLink {
+  polarity: RelationPolarity;
+  dash: string | null;
+  width: number;
+  color: string | null; // Overrides the polarity color
+}
+
+// Edges are styled by the relation vocabulary: color for polarity, dashes for PK/PD, width for strength
+export const styleLinks = (nodes: GraphNode[], links: GraphLink[], linkColors: Record<string, string> | null = null): StyledLink[] => {
+  const nodesById = new Map(nodes.map(n => [n.id, n]));
+  return links.map(d => ({
+    ...d,
+    polarity: relationDefinition(d.type).polarity,
+    dash: MECHANISM_STYLES[mechanismOf(d, nodesById)].dash,
+    width: strengthWidth(d.strength),
+    color: linkColors?.[linkKey(d)] ?? null
+  }));
+};
+
+// Links are matched across updates by endpoints and relation; endpoints are node objects once the simulation has run
+const endpointId = (end: any): string => (typeof end === 'object' ? end.id : end);
+export const linkKey = (l: any) => `${endpointId(l.source)}|${l.type}|${endpointId(l.target)}`;
+
+// A node as the force simulation sees it; fx/fy are set while a node is pinned
+export interface SimulationNode extends GraphNode {
+  x?: number;
+  y?: number;
+  vx?: number;
+  vy?: number;
+  fx?: number | null;
+  fy?: number | null;
+}
+
+/**
+ * Copies of the nodes for the next simulation run, carrying position, velocity and pin over from
+ * the previous run by id so that updates keep the layout. Added nodes start next to a neighbor that
+ * is already placed, or near the center; with nothing to carry over, d3 lays everything out afresh.
+ */
+export const carryOverLayout = (
+  previous: SimulationNode[],
+  nodes: GraphNode[],
+  links: GraphLink[],
+  center: [number, number]
+): SimulationNode[] => {
+  const placed = new Map(previous.map(d => [d.id, d]));
+  if (!nodes.some(n => placed.has(n.id))) return nodes.map(n => ({ ...n }));
+
+  const neighbors = new Map<string, string[]>();
+  links.forEach(({ source, target }) => {
+    neighbors.set(source, [...(neighbors.get(source) ?? []), target]);
+    neighbors.set(target, [...(neighbors.get(target) ?? []), source]);
+  });
+  const jitter = () => (Math.random() - 0.5) * 40;
+
+  return nodes.map(n => {
+    const prev = placed.get(n.id);
+    if (prev) return { ...n, x: prev.x, y: prev.y, vx: prev.vx, vy: prev.vy, fx: prev.fx, fy: prev.fy };
+    const anchor = (neighbors.get(n.id) ?? []).map(id => placed.get(id)).find(Boolean);
+    const [x, y] = anchor ? [anchor.x ?? center[0], anchor.y ?? center[1]] : center;
+    return { ...n, x: x + jitter(), y: y + jitter() };
+  });
+};
+
+// Whether nodes or links were added or removed, i.e. whether the layout has to move at all
+export const structureChanged = (previousNodes: SimulationNode[], previousLinks: any[], nodes: SimulationNode[], links: any[]): boolean => {
+  if (previousNodes.length !== nodes.length || previousLinks.length !== links.length) return true;
+  const ids = new Set(previousNodes.map(d => d.id));
+  const keys = new Set(previousLinks.map(linkKey));
+  return nodes.some(d => !ids.has(d.id)) || links.some(l => !keys.has(linkKey(l)));
+};
+
+export const TOOLTIP_CLASS = "graph-tooltip absolute z-[60] px-3 py-2.5 text-xs text-slate-800 dark:text-white bg-white/95 dark:bg-slate-900/95 border border-slate-200 dark:border-slate-700/80 rounded-lg shadow-xl backdrop-blur-sm pointer-events-none opacity-0 transition-opacity duration-300 ease-out max-w-[240px] leading-relaxed";
+
+export const tooltipHtml = (d: GraphNode): string => {
+  const { color: typeColor, label: typeLabel } = nodeTypeStyle(d.type);
+  return `
+            <div class="flex items-center gap-2 mb-1 border-b border-slate-200 dark:border-slate-700/50 pb-1">
+                <div class="w-2 h-2 rounded-full shadow-[0_0_8px_${typeColor}]" style="background-color: ${typeColor}"></div>
+                <div class="font-bold text-slate-900 dark:text-slate-100">${d.label}</div>
+                <div class="ml-auto text-[10px] text-slate-500 whitespace-nowrap">${typeLabel}</div>
+            </div>
+            <div class="text-[11px] text-slate-600 dark:text-slate-400 font-normal leading-relaxed">
+              ${d.description || 'No description available for this entity.'}
+            </div>
+        `;
+};
+
+// Offsets the tooltip from the pointer, flipping it left or up near the container's edges
+export const tooltipPosition = (x: number, y: number, containerWidth: number, containerHeight: number) => ({
+  left: x + 15 > containerWidth - 250 ? x - 255 : x + 15,
+  top: y + 15 > containerHeight - 120 ? y - 130 : y + 15
+});
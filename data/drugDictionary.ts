@@ -0,0 +1,203 @@
+// Offline drug dictionary used to canonicalize user input and drive autocomplete.
+// Covers the drugs of the bundled knowledge graph and PK rule table plus other commonly
+// co-prescribed medicines, foods and supplements. Names are US generic names (USAN).
+
+export interface DrugDictionaryEntry {
+  name: string; // Canonical display name
+  drugClass: string;
+  brands: string[];
+  synonyms: string[]; // International names, abbreviations and common alternative spellings
+}
+
+const entry = (name: string, drugClass: string, brands: string[] = [], synonyms: string[] = []): DrugDictionaryEntry =>
+  ({ name, drugClass, brands, synonyms });
+
+// Salt and ester suffixes stripped before lookup ("warfarin sodium" → "warfarin")
+export const SALT_SUFFIXES = [
+  'sodium', 'potassium', 'calcium', 'magnesium', 'hydrochloride', 'hcl', 'hydrobromide', 'dihydrochloride',
+  'sulfate', 'sulphate', 'bisulfate', 'maleate', 'succinate', 'tartrate', 'besylate', 'besilate', 'mesylate',
+  'citrate', 'fumarate', 'acetate', 'phosphate', 'bromide', 'chloride', 'carbonate', 'lactate', 'gluconate',
+  'monohydrate', 'dihydrate', 'trihydrate', 'hyclate', 'disoproxil', 'propionate', 'furoate', 'er', 'xr', 'sr', 'cr'
+];
+
+export const DRUG_DICTIONARY: DrugDictionaryEntry[] = [
+  // Anticoagulants and antiplatelets
+  entry('Warfarin', 'Vitamin K antagonist', ['Coumadin', 'Jantoven', 'Marevan']),
+  entry('Apixaban', 'Factor Xa inhibitor', ['Eliquis']),
+  entry('Rivaroxaban', 'Factor Xa inhibitor', ['Xarelto']),
+  entry('Edoxaban', 'Factor Xa inhibitor', ['Savaysa', 'Lixiana']),
+  entry('Dabigatran', 'Direct thrombin inhibitor', ['Pradaxa'], ['dabigatran etexilate']),
+  entry('Heparin', 'Anticoagulant', [], ['unfractionated heparin', 'UFH']),
+  entry('Enoxaparin', 'Low-molecular-weight heparin', ['Lovenox', 'Clexane']),
+  entry('Aspirin', 'Antiplatelet / NSAID', ['Bayer', 'Ecotrin', 'Disprin'], ['acetylsalicylic acid', 'ASA']),
+  entry('Clopidogrel', 'P2Y12 inhibitor', ['Plavix']),
+  entry('Ticagrelor', 'P2Y12 inhibitor', ['Brilinta', 'Brilique']),
+  entry('Prasugrel', 'P2Y12 inhibitor', ['Effient']),
+  entry('Ticlopidine', 'P2Y12 inhibitor', ['Ticlid']),
+
+  // Analgesics and NSAIDs
+  entry('Ibuprofen', 'NSAID', ['Advil', 'Motrin', 'Nurofen']),
+  entry('Naproxen', 'NSAID', ['Aleve', 'Naprosyn']),
+  entry('Diclofenac', 'NSAID', ['Voltaren', 'Cataflam']),
+  entry('Celecoxib', 'COX-2 inhibitor', ['Celebrex']),
+  entry('Acetaminophen', 'Analgesic', ['Tylenol', 'Panadol'], ['paracetamol', 'APAP']),
+  entry('Tramadol', 'Opioid analgesic', ['Ultram', 'Tramal']),
+  entry('Oxycodone', 'Opioid analgesic', ['OxyContin', 'Roxicodone']),
+  entry('Codeine', 'Opioid analgesic'),
+  entry('Morphine', 'Opioid analgesic', ['MS Contin']),
+  entry('Fentanyl', 'Opioid analgesic', ['Duragesic', 'Sublimaze']),
+  entry('Methadone', 'Opioid agonist', ['Dolophine', 'Methadose']),
+  entry('Hydrocodone', 'Opioid analgesic', ['Vicodin', 'Norco']),
+
+  // Antidepressants, antipsychotics and other CNS drugs
+  entry('Sertraline', 'SSRI', ['Zoloft', 'Lustral']),
+  entry('Fluoxetine', 'SSRI', ['Prozac', 'Sarafem']),
+  entry('Paroxetine', 'SSRI', ['Paxil', 'Seroxat']),
+  entry('Citalopram', 'SSRI', ['Celexa', 'Cipramil']),
+  entry('Escitalopram', 'SSRI', ['Lexapro', 'Cipralex']),
+  entry('Fluvoxamine', 'SSRI', ['Luvox']),
+  entry('Venlafaxine', 'SNRI', ['Effexor']),
+  entry('Duloxetine', 'SNRI', ['Cymbalta']),
+  entry('Bupropion', 'NDRI antidepressant', ['Wellbutrin', 'Zyban']),
+  entry('Amitriptyline', 'Tricyclic antidepressant', ['Elavil']),
+  entry('Nortriptyline', 'Tricyclic antidepressant', ['Pamelor']),
+  entry('Nefazodone', 'Antidepressant', ['Serzone']),
+  entry('Phenelzine', 'MAO inhibitor', ['Nardil']),
+  entry('Linezolid', 'Oxazolidinone antibiotic', ['Zyvox']),
+  entry('Lithium', 'Mood stabilizer', ['Lithobid']),
+  entry('Haloperidol', 'Typical antipsychotic', ['Haldol']),
+  entry('Quetiapine', 'Atypical antipsychotic', ['Seroquel']),
+  entry('Olanzapine', 'Atypical antipsychotic', ['Zyprexa']),
+  entry('Risperidone', 'Atypical antipsychotic', ['Risperdal']),
+  entry('Aripiprazole', 'Atypical antipsychotic', ['Abilify']),
+  entry('Clozapine', 'Atypical antipsychotic', ['Clozaril']),
+  entry('Diazepam', 'Benzodiazepine', ['Valium']),
+  entry('Alprazolam', 'Benzodiazepine', ['Xanax']),
+  entry('Midazolam', 'Benzodiazepine', ['Versed', 'Dormicum']),
+  entry('Triazolam', 'Benzodiazepine', ['Halcion']),
+  entry('Lorazepam', 'Benzodiazepine', ['Ativan']),
+  entry('Clobazam', 'Benzodiazepine', ['Onfi', 'Frisium']),
+  entry('Zolpidem', 'Sedative-hypnotic', ['Ambien', 'Stilnox']),
+  entry('Buspirone', 'Anxiolytic', ['Buspar']),
+  entry('Carbamazepine', 'Anticonvulsant', ['Tegretol']),
+  entry('Phenytoin', 'Anticonvulsant', ['Dilantin']),
+  entry('Phenobarbital', 'Barbiturate anticonvulsant', ['Luminal'], ['phenobarbitone']),
+  entry('Valproic Acid', 'Anticonvulsant', ['Depakote', 'Depakene'], ['valproate', 'divalproex']),
+  entry('Lamotrigine', 'Anticonvulsant', ['Lamictal']),
+  entry('Levetiracetam', 'Anticonvulsant', ['Keppra']),
+  entry('Modafinil', 'Wakefulness-promoting agent', ['Provigil']),
+  entry('Atomoxetine', 'Norepinephrine reuptake inhibitor', ['Strattera']),
+  entry('Tizanidine', 'Muscle relaxant', ['Zanaflex']),
+  entry('Ropinirole', 'Dopamine agonist', ['Requip']),
+  entry('Ramelteon', 'Melatonin receptor agonist', ['Rozerem']),
+  entry('Dextromethorphan', 'Antitussive', ['Robitussin'], ['DXM']),
+
+  // Cardiovascular
+  entry('Amiodarone', 'Class III antiarrhythmic', ['Cordarone', 'Pacerone']),
+  entry('Dronedarone', 'Class III antiarrhythmic', ['Multaq']),
+  entry('Digoxin', 'Cardiac glycoside', ['Lanoxin']),
+  entry('Flecainide', 'Class IC antiarrhythmic', ['Tambocor']),
+  entry('Propafenone', 'Class IC antiarrhythmic', ['Rythmol']),
+  entry('Quinidine', 'Class IA antiarrhythmic'),
+  entry('Mexiletine', 'Class IB antiarrhythmic'),
+  entry('Verapamil', 'Calcium channel blocker', ['Calan', 'Isoptin']),
+  entry('Diltiazem', 'Calcium channel blocker', ['Cardizem']),
+  entry('Amlodipine', 'Calcium channel blocker', ['Norvasc']),
+  entry('Nifedipine', 'Calcium channel blocker', ['Procardia', 'Adalat']),
+  entry('Felodipine', 'Calcium channel blocker', ['Plendil']),
+  entry('Metoprolol', 'Beta blocker', ['Lopressor', 'Toprol-XL']),
+  entry('Carvedilol', 'Beta blocker', ['Coreg']),
+  entry('Propranolol', 'Beta blocker', ['Inderal']),
+  entry('Lisinopril', 'ACE inhibitor', ['Zestril', 'Prinivil']),
+  entry('Enalapril', 'ACE inhibitor', ['Vasotec']),
+  entry('Ramipril', 'ACE inhibitor', ['Altace']),
+  entry('Losartan', 'Angiotensin receptor blocker', ['Cozaar']),
+  entry('Valsartan', 'Angiotensin receptor blocker', ['Diovan']),
+  entry('Spironolactone', 'Potassium-sparing diuretic', ['Aldactone']),
+  entry('Furosemide', 'Loop diuretic', ['Lasix'], ['frusemide']),
+  entry('Hydrochlorothiazide', 'Thiazide diuretic', ['Microzide'], ['HCTZ']),
+  entry('Sildenafil', 'PDE5 inhibitor', ['Viagra', 'Revatio']),
+  entry('Nitroglycerin', 'Nitrate vasodilator', ['Nitrostat'], ['glyceryl trinitrate', 'GTN']),
+  entry('Bosentan', 'Endothelin receptor antagonist', ['Tracleer']),
+  entry('Simvastatin', 'Statin', ['Zocor']),
+  entry('Atorvastatin', 'Statin', ['Lipitor']),
+  entry('Lovastatin', 'Statin', ['Mevacor', 'Altoprev']),
+  entry('Rosuvastatin', 'Statin', ['Crestor']),
+  entry('Fluvastatin', 'Statin', ['Lescol']),
+  entry('Pravastatin', 'Statin', ['Pravachol']),
+  entry('Gemfibrozil', 'Fibrate', ['Lopid']),
+
+  // Anti-infectives
+  entry('Clarithromycin', 'Macrolide antibiotic', ['Biaxin', 'Klacid']),
+  entry('Erythromycin', 'Macrolide antibiotic', ['Ery-Tab', 'Erythrocin']),
+  entry('Azithromycin', 'Macrolide antibiotic', ['Zithromax']),
+  entry('Ciprofloxacin', 'Fluoroquinolone antibiotic', ['Cipro']),
+  entry('Levofloxacin', 'Fluoroquinolone antibiotic', ['Levaquin']),
+  entry('Enoxacin', 'Fluoroquinolone antibiotic'),
+  entry('Sulfamethoxazole', 'Sulfonamide antibiotic', ['Bactrim', 'Septra'], ['co-trimoxazole', 'SMX-TMP', 'TMP-SMX']),
+  entry('Metronidazole', 'Nitroimidazole antibiotic', ['Flagyl']),
+  entry('Doxycycline', 'Tetracycline antibiotic', ['Vibramycin']),
+  entry('Amoxicillin', 'Penicillin antibiotic', ['Amoxil']),
+  entry('Rifampin', 'Rifamycin antibiotic', ['Rifadin'], ['rifampicin']),
+  entry('Ketoconazole', 'Azole antifungal', ['Nizoral']),
+  entry('Itraconazole', 'Azole antifungal', ['Sporanox']),
+  entry('Fluconazole', 'Azole antifungal', ['Diflucan']),
+  entry('Voriconazole', 'Azole antifungal', ['Vfend']),
+  entry('Posaconazole', 'Azole antifungal', ['Noxafil']),
+  entry('Miconazole', 'Azole antifungal', ['Monistat']),
+  entry('Terbinafine', 'Allylamine antifungal', ['Lamisil']),
+  entry('Ritonavir', 'HIV protease inhibitor', ['Norvir']),
+  entry('Cobicistat', 'Pharmacokinetic booster', ['Tybost']),
+  entry('Efavirenz', 'NNRTI', ['Sustiva']),
+
+  // Gastrointestinal
+  entry('Omeprazole', 'Proton pump inhibitor', ['Prilosec', 'Losec']),
+  entry('Esomeprazole', 'Proton pump inhibitor', ['Nexium']),
+  entry('Lansoprazole', 'Proton pump inhibitor', ['Prevacid']),
+  entry('Pantoprazole', 'Proton pump inhibitor', ['Protonix']),
+  entry('Cimetidine', 'H2 receptor antagonist', ['Tagamet']),
+  entry('Famotidine', 'H2 receptor antagonist', ['Pepcid']),
+  entry('Ondansetron', '5-HT3 antagonist', ['Zofran']),
+  entry('Domperidone', 'Dopamine antagonist', ['Motilium']),
+  entry('Metoclopramide', 'Dopamine antagonist', ['Reglan']),
+  entry('Loperamide', 'Antidiarrheal', ['Imodium']),
+  entry('Aprepitant', 'NK1 antagonist', ['Emend']),
+
+  // Endocrine and metabolic
+  entry('Metformin', 'Biguanide', ['Glucophage']),
+  entry('Insulin', 'Insulin', ['Humulin', 'Novolin', 'Lantus', 'Humalog'], ['insulin glargine', 'insulin lispro', 'insulin aspart']),
+  entry('Glipizide', 'Sulfonylurea', ['Glucotrol']),
+  entry('Glyburide', 'Sulfonylurea', ['DiaBeta', 'Micronase'], ['glibenclamide']),
+  entry('Tolbutamide', 'Sulfonylurea', ['Orinase']),
+  entry('Levothyroxine', 'Thyroid hormone', ['Synthroid', 'Levoxyl'], ['L-thyroxine', 'T4']),
+  entry('Prednisone', 'Corticosteroid', ['Deltasone']),
+  entry('Dexamethasone', 'Corticosteroid', ['Decadron']),
+  entry('Oral Contraceptives', 'Hormonal contraceptive', ['Yaz', 'Yasmin'], ['the pill', 'ethinyl estradiol', 'combined oral contraceptive']),
+  entry('Allopurinol', 'Xanthine oxidase inhibitor', ['Zyloprim']),
+  entry('Colchicine', 'Anti-gout agent', ['Colcrys']),
+  entry('Mirabegron', 'Beta-3 agonist', ['Myrbetriq']),
+
+  // Immunosuppressants and oncology
+  entry('Tacrolimus', 'Calcineurin inhibitor', ['Prograf', 'Advagraf']),
+  entry('Cyclosporine', 'Calcineurin inhibitor', ['Neoral', 'Sandimmune'], ['ciclosporin', 'cyclosporin']),
+  entry('Methotrexate', 'Antimetabolite', ['Trexall', 'Otrexup']),
+  entry('Tamoxifen', 'Selective estrogen receptor modulator', ['Nolvadex']),
+  entry('Ibrutinib', 'BTK inhibitor', ['Imbruvica']),
+  entry('Enzalutamide', 'Androgen receptor inhibitor', ['Xtandi']),
+
+  // Respiratory and allergy
+  entry('Theophylline', 'Methylxanthine bronchodilator', ['Theo-24', 'Uniphyl']),
+  entry('Fexofenadine', 'Antihistamine', ['Allegra']),
+  entry('Montelukast', 'Leukotriene receptor antagonist', ['Singulair']),
+
+  // Foods, supplements and recreational substances
+  entry('Caffeine', 'Methylxanthine stimulant', ['NoDoz'], ['coffee']),
+  entry('Grapefruit Juice', 'Food', [], ['grapefruit']),
+  entry('Alcohol', 'Recreational substance', [], ['ethanol', 'ethyl alcohol']),
+  entry('Tobacco Smoke', 'Recreational substance', [], ['smoking', 'tobacco', 'cigarettes']),
+  entry('Melatonin', 'Dietary supplement'),
+  entry("St John's Wort", 'Herbal supplement', [], ["St. John's Wort", 'St Johns Wort', 'hypericum']),
+  entry('Ginkgo Biloba', 'Herbal supplement', [], ['ginkgo']),
+  entry('Vitamin K', 'Vitamin', [], ['phytonadione', 'phylloquinone']),
+  entry('Potassium Chloride', 'Electrolyte supplement', ['K-Dur', 'Klor-Con'])
+];
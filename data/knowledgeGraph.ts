@@ -0,0 +1,243 @@
+import { GraphLink, GraphNode, NodeType, RelationType } from "../types";
+
+// Curated drug–mechanism–side-effect graph bundled with the app for the local GNN.
+// Drug–target and metabolism edges follow FDA labeling and the Flockhart CYP450 table; polypharmacy
+// triples are well-documented clinical interactions used as positive training examples.
+
+export interface PolypharmacyTriple {
+  drugs: [string, string];
+  sideEffect: string;
+}
+
+export interface BundledKnowledgeGraph {
+  nodes: GraphNode[];
+  links: GraphLink[];
+  interactions: PolypharmacyTriple[];
+}
+
+const drug = (id: string, label: string, description: string): GraphNode => ({ id, label, type: NodeType.DRUG, val: 6, description });
+const mechanism = (type: NodeType) => (id: string, label: string, description: string): GraphNode => ({ id, label, type, val: 4, description });
+const enzyme = mechanism(NodeType.ENZYME);
+const transporter = mechanism(NodeType.TRANSPORTER);
+const receptor = mechanism(NodeType.RECEPTOR);
+const effect = (id: string, label: string, description: string): GraphNode => ({ id, label, type: NodeType.SIDE_EFFECT, val: 6, description });
+
+const NODES: GraphNode[] = [
+  drug('warfarin', 'Warfarin', 'Vitamin K antagonist anticoagulant.'),
+  drug('aspirin', 'Aspirin', 'Irreversible COX inhibitor with antiplatelet activity.'),
+  drug('clopidogrel', 'Clopidogrel', 'P2Y12 antagonist prodrug activated by CYP2C19.'),
+  drug('ibuprofen', 'Ibuprofen', 'Non-selective NSAID.'),
+  drug('naproxen', 'Naproxen', 'Long-acting non-selective NSAID.'),
+  drug('sertraline', 'Sertraline', 'SSRI antidepressant and moderate CYP2D6 inhibitor.'),
+  drug('fluoxetine', 'Fluoxetine', 'SSRI antidepressant and strong CYP2D6 inhibitor.'),
+  drug('citalopram', 'Citalopram', 'SSRI antidepressant with dose-dependent QT prolongation.'),
+  drug('tramadol', 'Tramadol', 'Opioid analgesic with serotonin/noradrenaline reuptake inhibition.'),
+  drug('ondansetron', 'Ondansetron', '5-HT3 antagonist antiemetic.'),
+  drug('simvastatin', 'Simvastatin', 'HMG-CoA reductase inhibitor, sensitive CYP3A4 substrate.'),
+  drug('atorvastatin', 'Atorvastatin', 'HMG-CoA reductase inhibitor metabolized by CYP3A4.'),
+  drug('clarithromycin', 'Clarithromycin', 'Macrolide antibiotic; strong CYP3A4 and P-gp inhibitor.'),
+  drug('ketoconazole', 'Ketoconazole', 'Azole antifungal; strong CYP3A4 and P-gp inhibitor.'),
+  drug('fluconazole', 'Fluconazole', 'Azole antifungal; moderate CYP2C9 and CYP3A4 inhibitor.'),
+  drug('amiodarone', 'Amiodarone', 'Class III antiarrhythmic inhibiting CYP2C9, CYP3A4 and P-gp.'),
+  drug('digoxin', 'Digoxin', 'Cardiac glycoside with a narrow therapeutic index; P-gp substrate.'),
+  drug('verapamil', 'Verapamil', 'Non-dihydropyridine calcium channel blocker; CYP3A4 and P-gp inhibitor.'),
+  drug('rifampin', 'Rifampin', 'Rifamycin antibiotic and potent inducer of CYP3A4, CYP2C9 and P-gp.'),
+  drug('omeprazole', 'Omeprazole', 'Proton pump inhibitor; CYP2C19 substrate and inhibitor.'),
+  drug('methadone', 'Methadone', 'Long-acting opioid agonist with hERG blockade.'),
+  drug('haloperidol', 'Haloperidol', 'Butyrophenone antipsychotic; D2 antagonist.'),
+  drug('lisinopril', 'Lisinopril', 'ACE inhibitor antihypertensive.'),
+  drug('spironolactone', 'Spironolactone', 'Potassium-sparing mineralocorticoid receptor antagonist.'),
+  drug('metformin', 'Metformin', 'Biguanide antidiabetic cleared renally via OCT2.'),
+  drug('theophylline', 'Theophylline', 'Methylxanthine bronchodilator, CYP1A2 substrate with narrow therapeutic index.'),
+  drug('ciprofloxacin', 'Ciprofloxacin', 'Fluoroquinolone antibiotic; CYP1A2 inhibitor.'),
+  drug('carbamazepine', 'Carbamazepine', 'Anticonvulsant and CYP3A4 inducer.'),
+  drug('diazepam', 'Diazepam', 'Benzodiazepine GABA-A positive modulator.'),
+  drug('oxycodone', 'Oxycodone', 'Opioid agonist metabolized by CYP3A4 and CYP2D6.'),
+
+  enzyme('cyp3a4', 'CYP3A4', 'Most abundant hepatic and intestinal cytochrome P450 isozyme.'),
+  enzyme('cyp2d6', 'CYP2D6', 'Polymorphic cytochrome P450 isozyme.'),
+  enzyme('cyp2c9', 'CYP2C9', 'Cytochrome P450 isozyme metabolizing S-warfarin and NSAIDs.'),
+  enzyme('cyp2c19', 'CYP2C19', 'Cytochrome P450 isozyme activating clopidogrel.'),
+  enzyme('cyp1a2', 'CYP1A2', 'Cytochrome P450 isozyme metabolizing theophylline and caffeine.'),
+  transporter('pgp', 'P-glycoprotein (ABCB1)', 'Efflux transporter limiting absorption and promoting excretion.'),
+  transporter('oct2', 'OCT2 (SLC22A2)', 'Renal organic cation transporter.'),
+  transporter('sert', 'SERT (SLC6A4)', 'Serotonin reuptake transporter.'),
+  receptor('ht3', '5-HT3 Receptor', 'Ligand-gated serotonin receptor.'),
+  enzyme('cox1', 'COX-1 (PTGS1)', 'Constitutive cyclooxygenase in platelets and gastric mucosa.'),
+  enzyme('cox2', 'COX-2 (PTGS2)', 'Inducible cyclooxygenase; supports renal perfusion.'),
+  enzyme('vkorc1', 'VKORC1', 'Vitamin K epoxide reductase.'),
+  receptor('p2y12', 'P2Y12 Receptor', 'Platelet ADP receptor.'),
+  enzyme('hmgcr', 'HMG-CoA Reductase', 'Rate-limiting enzyme of cholesterol synthesis.'),
+  receptor('herg', 'hERG (KCNH2)', 'Cardiac potassium channel governing repolarization.'),
+  enzyme('ace', 'ACE', 'Angiotensin-converting enzyme.'),
+  receptor('mr', 'Mineralocorticoid Receptor', 'Aldosterone receptor controlling sodium and potassium balance.'),
+  receptor('mor', 'Mu-Opioid Receptor', 'Primary target of opioid analgesics.'),
+  receptor('gabaa', 'GABA-A Receptor', 'Inhibitory chloride channel.'),
+  transporter('nak_atpase', 'Na+/K+-ATPase', 'Sodium-potassium pump inhibited by cardiac glycosides.'),
+  receptor('cav12', 'L-type Calcium Channel', 'Cardiac and vascular calcium channel.'),
+  receptor('d2', 'Dopamine D2 Receptor', 'Target of antipsychotics.'),
+  receptor('adora', 'Adenosine Receptors', 'Antagonized by methylxanthines.'),
+
+  effect('bleeding', 'Bleeding', 'Clinically significant haemorrhage.'),
+  effect('gi_bleed', 'GI Haemorrhage', 'Upper gastrointestinal bleeding.'),
+  effect('serotonin_syndrome', 'Serotonin Syndrome', 'Excess serotonergic activity.'),
+  effect('qt_prolongation', 'QT Prolongation', 'Delayed ventricular repolarization with torsades risk.'),
+  effect('rhabdomyolysis', 'Rhabdomyolysis', 'Skeletal muscle breakdown.'),
+  effect('digoxin_toxicity', 'Digoxin Toxicity', 'Arrhythmia, nausea and visual disturbance from elevated digoxin levels.'),
+  effect('bradycardia', 'Bradycardia', 'Abnormally slow heart rate.'),
+  effect('hyperkalemia', 'Hyperkalaemia', 'Elevated serum potassium.'),
+  effect('aki', 'Acute Kidney Injury', 'Abrupt loss of renal function.'),
+  effect('respiratory_depression', 'Respiratory Depression', 'Reduced ventilatory drive.'),
+  effect('cns_depression', 'CNS Depression', 'Sedation and psychomotor impairment.'),
+  effect('seizures', 'Seizures', 'Lowered seizure threshold.'),
+  effect('theophylline_toxicity', 'Theophylline Toxicity', 'Tachyarrhythmia and seizures from elevated theophylline.'),
+  effect('thrombosis', 'Thrombotic Event', 'Loss of anticoagulant or antiplatelet efficacy.')
+];
+
+const edges = (source: string, type: RelationType, targets: string[]): GraphLink[] =>
+  targets.map(target => ({ source, target, type }));
+
+const LINKS: GraphLink[] = [
+  ...edges('warfarin', 'inhibits', ['vkorc1']),
+  ...edges('warfarin', 'substrate_of', ['cyp2c9', 'cyp3a4']),
+  ...edges('aspirin', 'inhibits', ['cox1', 'cox2']),
+  ...edges('clopidogrel', 'inhibits', ['p2y12']),
+  ...edges('clopidogrel', 'substrate_of', ['cyp2c19']),
+  ...edges('ibuprofen', 'inhibits', ['cox1', 'cox2']),
+  ...edges('ibuprofen', 'substrate_of', ['cyp2c9']),
+  ...edges('naproxen', 'inhibits', ['cox1', 'cox2']),
+  ...edges('naproxen', 'substrate_of', ['cyp2c9']),
+  ...edges('sertraline', 'inhibits', ['sert', 'cyp2d6']),
+  ...edges('fluoxetine', 'inhibits', ['sert', 'cyp2d6', 'cyp2c9']),
+  ...edges('citalopram', 'inhibits', ['sert', 'herg']),
+  ...edges('citalopram', 'substrate_of', ['cyp2c19']),
+  ...edges('tramadol', 'inhibits', ['sert']),
+  ...edges('tramadol', 'activates', ['mor']),
+  ...edges('tramadol', 'substrate_of', ['cyp2d6', 'cyp3a4']),
+  ...edges('ondansetron', 'inhibits', ['ht3', 'herg']),
+  ...edges('ondansetron', 'substrate_of', ['cyp3a4']),
+  ...edges('simvastatin', 'inhibits', ['hmgcr']),
+  ...edges('simvastatin', 'substrate_of', ['cyp3a4']),
+  ...edges('atorvastatin', 'inhibits', ['hmgcr']),
+  ...edges('atorvastatin', 'substrate_of', ['cyp3a4']),
+  ...edges('clarithromycin', 'inhibits', ['cyp3a4', 'pgp', 'herg']),
+  ...edges('ketoconazole', 'inhibits', ['cyp3a4', 'pgp']),
+  ...edges('fluconazole', 'inhibits', ['cyp2c9', 'cyp3a4', 'cyp2c19']),
+  ...edges('amiodarone', 'inhibits', ['cyp2c9', 'cyp3a4', 'pgp', 'herg']),
+  ...edges('digoxin', 'inhibits', ['nak_atpase']),
+  ...edges('digoxin', 'substrate_of', ['pgp']),
+  ...edges('verapamil', 'inhibits', ['cyp3a4', 'pgp', 'cav12']),
+  ...edges('rifampin', 'induces', ['cyp3a4', 'cyp2c9', 'cyp2c19', 'pgp']),
+  ...edges('omeprazole', 'inhibits', ['cyp2c19']),
+  ...edges('omeprazole', 'substrate_of', ['cyp2c19']),
+  ...edges('methadone', 'activates', ['mor']),
+  ...edges('methadone', 'inhibits', ['herg']),
+  ...edges('methadone', 'substrate_of', ['cyp3a4']),
+  ...edges('haloperidol', 'inhibits', ['d2', 'herg']),
+  ...edges('haloperidol', 'substrate_of', ['cyp2d6']),
+  ...edges('lisinopril', 'inhibits', ['ace']),
+  ...edges('spironolactone', 'inhibits', ['mr']),
+  ...edges('metformin', 'substrate_of', ['oct2']),
+  ...edges('theophylline', 'inhibits', ['adora']),
+  ...edges('theophylline', 'substrate_of', ['cyp1a2']),
+  ...edges('ciprofloxacin', 'inhibits', ['cyp1a2', 'gabaa']),
+  ...edges('carbamazepine', 'induces', ['cyp3a4']),
+  ...edges('carbamazepine', 'substrate_of', ['cyp3a4']),
+  ...edges('diazepam', 'activates', ['gabaa']),
+  ...edges('diazepam', 'substrate_of', ['cyp3a4', 'cyp2c19']),
+  ...edges('oxycodone', 'activates', ['mor']),
+  ...edges('oxycodone', 'substrate_of', ['cyp3a4', 'cyp2d6']),
+
+  // Single-drug adverse effects (mono side effects)
+  ...edges('warfarin', 'causes', ['bleeding']),
+  ...edges('clopidogrel', 'causes', ['bleeding']),
+  ...edges('aspirin', 'causes', ['gi_bleed']),
+  ...edges('ibuprofen', 'causes', ['gi_bleed']),
+  ...edges('naproxen', 'causes', ['gi_bleed']),
+  ...edges('tramadol', 'causes', ['seizures']),
+  ...edges('theophylline', 'causes', ['seizures']),
+  ...edges('simvastatin', 'causes', ['rhabdomyolysis']),
+  ...edges('atorvastatin', 'causes', ['rhabdomyolysis']),
+  ...edges('verapamil', 'causes', ['bradycardia']),
+  ...edges('digoxin', 'causes', ['bradycardia']),
+  ...edges('lisinopril', 'causes', ['hyperkalemia']),
+  ...edges('spironolactone', 'causes', ['hyperkalemia']),
+  ...edges('oxycodone', 'causes', ['respiratory_depression']),
+  ...edges('methadone', 'causes', ['respiratory_depression', 'qt_prolongation']),
+  ...edges('diazepam', 'causes', ['cns_depression']),
+
+  // Mechanism → outcome edges
+  ...edges('vkorc1', 'contributes_to', ['bleeding']),
+  ...edges('p2y12', 'contributes_to', ['bleeding', 'thrombosis']),
+  ...edges('cox1', 'contributes_to', ['bleeding', 'gi_bleed']),
+  ...edges('cox2', 'contributes_to', ['aki']),
+  ...edges('ace', 'contributes_to', ['hyperkalemia', 'aki']),
+  ...edges('mr', 'contributes_to', ['hyperkalemia']),
+  ...edges('sert', 'contributes_to', ['serotonin_syndrome']),
+  ...edges('herg', 'contributes_to', ['qt_prolongation']),
+  ...edges('hmgcr', 'contributes_to', ['rhabdomyolysis']),
+  ...edges('nak_atpase', 'contributes_to', ['digoxin_toxicity']),
+  ...edges('cav12', 'contributes_to', ['bradycardia']),
+  ...edges('mor', 'contributes_to', ['respiratory_depression']),
+  ...edges('gabaa', 'contributes_to', ['cns_depression', 'seizures']),
+  ...edges('adora', 'contributes_to', ['theophylline_toxicity'])
+];
+
+const pair = (a: string, b: string, sideEffects: string[]): PolypharmacyTriple[] =>
+  sideEffects.map(sideEffect => ({ drugs: [a, b], sideEffect }));
+
+const INTERACTIONS: PolypharmacyTriple[] = [
+  ...pair('warfarin', 'aspirin', ['bleeding', 'gi_bleed']),
+  ...pair('warfarin', 'clopidogrel', ['bleeding']),
+  ...pair('warfarin', 'ibuprofen', ['bleeding', 'gi_bleed']),
+  ...pair('warfarin', 'naproxen', ['bleeding', 'gi_bleed']),
+  ...pair('warfarin', 'fluconazole', ['bleeding']),
+  ...pair('warfarin', 'amiodarone', ['bleeding']),
+  ...pair('warfarin', 'sertraline', ['bleeding']),
+  ...pair('warfarin', 'fluoxetine', ['bleeding']),
+  ...pair('warfarin', 'rifampin', ['thrombosis']),
+  ...pair('aspirin', 'clopidogrel', ['bleeding', 'gi_bleed']),
+  ...pair('aspirin', 'ibuprofen', ['gi_bleed']),
+  ...pair('aspirin', 'sertraline', ['gi_bleed']),
+  ...pair('ibuprofen', 'citalopram', ['gi_bleed']),
+  ...pair('clopidogrel', 'omeprazole', ['thrombosis']),
+  ...pair('sertraline', 'tramadol', ['serotonin_syndrome', 'seizures']),
+  ...pair('fluoxetine', 'tramadol', ['serotonin_syndrome', 'seizures']),
+  ...pair('citalopram', 'tramadol', ['serotonin_syndrome']),
+  ...pair('sertraline', 'ondansetron', ['serotonin_syndrome']),
+  ...pair('fluoxetine', 'methadone', ['serotonin_syndrome', 'qt_prolongation']),
+  ...pair('citalopram', 'methadone', ['qt_prolongation']),
+  ...pair('citalopram', 'ondansetron', ['qt_prolongation']),
+  ...pair('haloperidol', 'methadone', ['qt_prolongation']),
+  ...pair('amiodarone', 'haloperidol', ['qt_prolongation']),
+  ...pair('clarithromycin', 'methadone', ['qt_prolongation']),
+  ...pair('clarithromycin', 'haloperidol', ['qt_prolongation']),
+  ...pair('ondansetron', 'haloperidol', ['qt_prolongation']),
+  ...pair('simvastatin', 'clarithromycin', ['rhabdomyolysis']),
+  ...pair('simvastatin', 'ketoconazole', ['rhabdomyolysis']),
+  ...pair('simvastatin', 'amiodarone', ['rhabdomyolysis']),
+  ...pair('simvastatin', 'verapamil', ['rhabdomyolysis']),
+  ...pair('atorvastatin', 'clarithromycin', ['rhabdomyolysis']),
+  ...pair('atorvastatin', 'ketoconazole', ['rhabdomyolysis']),
+  ...pair('digoxin', 'amiodarone', ['digoxin_toxicity', 'bradycardia']),
+  ...pair('digoxin', 'verapamil', ['digoxin_toxicity', 'bradycardia']),
+  ...pair('digoxin', 'clarithromycin', ['digoxin_toxicity']),
+  ...pair('amiodarone', 'verapamil', ['bradycardia']),
+  ...pair('lisinopril', 'spironolactone', ['hyperkalemia']),
+  ...pair('lisinopril', 'ibuprofen', ['aki']),
+  ...pair('lisinopril', 'naproxen', ['aki']),
+  ...pair('spironolactone', 'ibuprofen', ['hyperkalemia', 'aki']),
+  ...pair('theophylline', 'ciprofloxacin', ['theophylline_toxicity', 'seizures']),
+  ...pair('oxycodone', 'diazepam', ['respiratory_depression', 'cns_depression']),
+  ...pair('methadone', 'diazepam', ['respiratory_depression', 'cns_depression']),
+  ...pair('tramadol', 'diazepam', ['cns_depression']),
+  ...pair('oxycodone', 'clarithromycin', ['respiratory_depression']),
+  ...pair('oxycodone', 'ketoconazole', ['respiratory_depression']),
+  ...pair('tramadol', 'carbamazepine', ['seizures'])
+];
+
+export const BUNDLED_KNOWLEDGE_GRAPH: BundledKnowledgeGraph = {
+  nodes: NODES,
+  links: LINKS,
+  interactions: INTERACTIONS
+};
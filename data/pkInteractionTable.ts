@@ -0,0 +1,117 @@
+// Clinically relevant CYP450 and P-glycoprotein substrates, inhibitors and inducers.
+// Compiled from the FDA "Drug Development and Drug Interactions" tables and the Flockhart table.
+// Strength follows the FDA definitions (strong: ≥5-fold AUC change of a sensitive substrate,
+// moderate: 2–5-fold, weak: 1.25–2-fold).
+
+export type PkEnzyme = 'CYP3A4' | 'CYP2D6' | 'CYP2C9' | 'CYP2C19' | 'CYP1A2' | 'P-gp';
+export type PkStrength = 'strong' | 'moderate' | 'weak';
+
+export interface EnzymeTableEntry {
+  substrates: string[];
+  inhibitors: Record<PkStrength, string[]>;
+  inducers: Record<PkStrength, string[]>;
+}
+
+export const PK_ENZYMES: PkEnzyme[] = ['CYP3A4', 'CYP2D6', 'CYP2C9', 'CYP2C19', 'CYP1A2', 'P-gp'];
+
+export const PK_INTERACTION_TABLE: Record<PkEnzyme, EnzymeTableEntry> = {
+  'CYP3A4': {
+    substrates: [
+      'simvastatin', 'lovastatin', 'atorvastatin', 'midazolam', 'triazolam', 'alprazolam', 'diazepam', 'tacrolimus',
+      'cyclosporine', 'methadone', 'fentanyl', 'oxycodone', 'tramadol', 'ondansetron', 'quetiapine', 'sildenafil',
+      'amlodipine', 'nifedipine', 'felodipine', 'verapamil', 'diltiazem', 'warfarin', 'carbamazepine', 'apixaban',
+      'rivaroxaban', 'ticagrelor', 'colchicine', 'clopidogrel', 'buspirone', 'domperidone', 'ibrutinib'
+    ],
+    inhibitors: {
+      strong: ['clarithromycin', 'ketoconazole', 'itraconazole', 'posaconazole', 'voriconazole', 'ritonavir', 'cobicistat', 'nefazodone'],
+      moderate: ['fluconazole', 'erythromycin', 'diltiazem', 'verapamil', 'ciprofloxacin', 'aprepitant', 'grapefruit juice', 'dronedarone'],
+      weak: ['amiodarone', 'cimetidine', 'ticagrelor', 'fluvoxamine']
+    },
+    inducers: {
+      strong: ['rifampin', 'carbamazepine', 'phenytoin', "st john's wort", 'enzalutamide'],
+      moderate: ['efavirenz', 'bosentan', 'phenobarbital'],
+      weak: ['modafinil', 'prednisone']
+    }
+  },
+  'CYP2D6': {
+    substrates: [
+      'tramadol', 'codeine', 'oxycodone', 'metoprolol', 'carvedilol', 'tamoxifen', 'haloperidol', 'risperidone',
+      'aripiprazole', 'amitriptyline', 'nortriptyline', 'dextromethorphan', 'ondansetron', 'fluoxetine', 'paroxetine',
+      'venlafaxine', 'atomoxetine', 'propafenone', 'flecainide'
+    ],
+    inhibitors: {
+      strong: ['fluoxetine', 'paroxetine', 'bupropion', 'quinidine', 'terbinafine'],
+      moderate: ['sertraline', 'duloxetine', 'mirabegron'],
+      weak: ['citalopram', 'escitalopram', 'amiodarone', 'celecoxib', 'cimetidine']
+    },
+    inducers: { strong: [], moderate: [], weak: [] }
+  },
+  'CYP2C9': {
+    substrates: [
+      'warfarin', 'phenytoin', 'ibuprofen', 'naproxen', 'diclofenac', 'celecoxib', 'glipizide', 'glyburide',
+      'losartan', 'fluvastatin', 'tolbutamide'
+    ],
+    inhibitors: {
+      strong: ['miconazole'],
+      moderate: ['fluconazole', 'amiodarone', 'metronidazole', 'sulfamethoxazole'],
+      weak: ['fluoxetine', 'fluvastatin', 'voriconazole']
+    },
+    inducers: {
+      strong: [],
+      moderate: ['rifampin', 'carbamazepine'],
+      weak: ['phenobarbital']
+    }
+  },
+  'CYP2C19': {
+    substrates: ['clopidogrel', 'omeprazole', 'lansoprazole', 'esomeprazole', 'diazepam', 'citalopram', 'escitalopram', 'sertraline', 'phenytoin', 'voriconazole', 'clobazam'],
+    inhibitors: {
+      strong: ['fluvoxamine', 'fluconazole', 'ticlopidine'],
+      moderate: ['omeprazole', 'esomeprazole', 'fluoxetine', 'voriconazole'],
+      weak: ['cimetidine']
+    },
+    inducers: {
+      strong: ['rifampin'],
+      moderate: ['carbamazepine', 'efavirenz'],
+      weak: []
+    }
+  },
+  'CYP1A2': {
+    substrates: ['theophylline', 'caffeine', 'clozapine', 'olanzapine', 'tizanidine', 'duloxetine', 'melatonin', 'ramelteon', 'ropinirole'],
+    inhibitors: {
+      strong: ['fluvoxamine', 'ciprofloxacin', 'enoxacin'],
+      moderate: ['mexiletine', 'oral contraceptives'],
+      weak: ['cimetidine', 'allopurinol']
+    },
+    inducers: {
+      strong: [],
+      moderate: ['tobacco smoke', 'rifampin', 'carbamazepine'],
+      weak: ['omeprazole']
+    }
+  },
+  'P-gp': {
+    substrates: ['digoxin', 'dabigatran', 'fexofenadine', 'colchicine', 'loperamide', 'apixaban', 'rivaroxaban', 'edoxaban', 'tacrolimus', 'cyclosporine'],
+    inhibitors: {
+      strong: ['itraconazole', 'ritonavir', 'quinidine', 'cyclosporine', 'dronedarone'],
+      moderate: ['amiodarone', 'clarithromycin', 'ketoconazole', 'verapamil', 'carvedilol', 'ticagrelor'],
+      weak: []
+    },
+    inducers: {
+      strong: ['rifampin', "st john's wort"],
+      moderate: ['carbamazepine', 'phenytoin'],
+      weak: []
+    }
+  }
+};
+
+// Alternative names that should resolve to a table entry
+export const PK_NAME_ALIASES: Record<string, string> = {
+  rifampicin: 'rifampin',
+  'grapefruit': 'grapefruit juice',
+  "st. john's wort": "st john's wort",
+  'st johns wort': "st john's wort",
+  'hypericum': "st john's wort",
+  'smoking': 'tobacco smoke',
+  'tobacco': 'tobacco smoke',
+  'ciclosporin': 'cyclosporine',
+  'cyclosporin': 'cyclosporine'
+};
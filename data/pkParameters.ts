@@ -0,0 +1,52 @@
+// Typical adult population pharmacokinetic parameters for the PK simulator.
+// Values are rounded literature means (Goodman & Gilman's appendix, product labels) and are meant
+// for illustrating interaction magnitudes, not for dosing individual patients.
+
+import { PkEnzyme } from "./pkInteractionTable";
+
+export interface PkParameters {
+  bioavailability: number; // Oral F (0-1); IV, IM and SC doses are treated as fully available
+  volumeLPerKg: number; // Apparent volume of distribution
+  halfLifeHours: number; // Terminal elimination half-life
+  absorptionRate: number; // First-order ka (1/h) for extravascular doses
+  // Two-compartment disposition: share of the volume in the central compartment and
+  // inter-compartmental rate constants (1/h). Absent for one-compartment drugs.
+  twoCompartment?: { centralFraction: number; k12: number; k21: number };
+  fm?: Partial<Record<PkEnzyme, number>>; // Fraction of clearance through each pathway
+  typicalDoseMg: number;
+  typicalIntervalHours: number;
+}
+
+export const PK_PARAMETERS: Record<string, PkParameters> = {
+  warfarin: { bioavailability: 0.93, volumeLPerKg: 0.14, halfLifeHours: 37, absorptionRate: 1.5, fm: { CYP2C9: 0.6, CYP3A4: 0.2 }, typicalDoseMg: 5, typicalIntervalHours: 24 },
+  simvastatin: { bioavailability: 0.05, volumeLPerKg: 3, halfLifeHours: 2, absorptionRate: 1, fm: { CYP3A4: 0.9 }, typicalDoseMg: 40, typicalIntervalHours: 24 },
+  atorvastatin: { bioavailability: 0.14, volumeLPerKg: 5.4, halfLifeHours: 7, absorptionRate: 1, fm: { CYP3A4: 0.7 }, typicalDoseMg: 20, typicalIntervalHours: 24 },
+  midazolam: {
+    bioavailability: 0.44, volumeLPerKg: 1.1, halfLifeHours: 3, absorptionRate: 2,
+    twoCompartment: { centralFraction: 0.4, k12: 0.8, k21: 0.5 },
+    fm: { CYP3A4: 0.95 }, typicalDoseMg: 7.5, typicalIntervalHours: 24
+  },
+  tramadol: { bioavailability: 0.75, volumeLPerKg: 2.7, halfLifeHours: 6, absorptionRate: 1, fm: { CYP2D6: 0.25, CYP3A4: 0.3 }, typicalDoseMg: 50, typicalIntervalHours: 6 },
+  sertraline: { bioavailability: 0.44, volumeLPerKg: 20, halfLifeHours: 26, absorptionRate: 0.3, fm: { CYP2C19: 0.3, CYP3A4: 0.2 }, typicalDoseMg: 50, typicalIntervalHours: 24 },
+  citalopram: { bioavailability: 0.8, volumeLPerKg: 12, halfLifeHours: 35, absorptionRate: 0.5, fm: { CYP2C19: 0.4, CYP3A4: 0.3 }, typicalDoseMg: 20, typicalIntervalHours: 24 },
+  metoprolol: { bioavailability: 0.5, volumeLPerKg: 4.2, halfLifeHours: 3.5, absorptionRate: 1, fm: { CYP2D6: 0.8 }, typicalDoseMg: 50, typicalIntervalHours: 12 },
+  oxycodone: { bioavailability: 0.6, volumeLPerKg: 2.6, halfLifeHours: 3.5, absorptionRate: 1, fm: { CYP3A4: 0.5, CYP2D6: 0.1 }, typicalDoseMg: 10, typicalIntervalHours: 6 },
+  ibuprofen: { bioavailability: 0.8, volumeLPerKg: 0.15, halfLifeHours: 2, absorptionRate: 2, fm: { CYP2C9: 0.8 }, typicalDoseMg: 400, typicalIntervalHours: 8 },
+  aspirin: { bioavailability: 0.68, volumeLPerKg: 0.15, halfLifeHours: 0.25, absorptionRate: 3, typicalDoseMg: 81, typicalIntervalHours: 24 },
+  lisinopril: { bioavailability: 0.25, volumeLPerKg: 1.8, halfLifeHours: 12, absorptionRate: 0.2, typicalDoseMg: 10, typicalIntervalHours: 24 },
+  digoxin: {
+    bioavailability: 0.7, volumeLPerKg: 7, halfLifeHours: 39, absorptionRate: 1,
+    twoCompartment: { centralFraction: 0.1, k12: 0.7, k21: 0.1 },
+    fm: { 'P-gp': 0.6 }, typicalDoseMg: 0.25, typicalIntervalHours: 24
+  },
+  theophylline: { bioavailability: 0.96, volumeLPerKg: 0.5, halfLifeHours: 8, absorptionRate: 1, fm: { CYP1A2: 0.9 }, typicalDoseMg: 300, typicalIntervalHours: 12 },
+  caffeine: { bioavailability: 1, volumeLPerKg: 0.6, halfLifeHours: 5, absorptionRate: 3, fm: { CYP1A2: 0.95 }, typicalDoseMg: 100, typicalIntervalHours: 24 },
+  clozapine: { bioavailability: 0.5, volumeLPerKg: 5, halfLifeHours: 12, absorptionRate: 0.8, fm: { CYP1A2: 0.7 }, typicalDoseMg: 100, typicalIntervalHours: 12 },
+  tacrolimus: { bioavailability: 0.25, volumeLPerKg: 0.9, halfLifeHours: 12, absorptionRate: 0.5, fm: { CYP3A4: 0.9, 'P-gp': 0.3 }, typicalDoseMg: 5, typicalIntervalHours: 12 },
+  apixaban: { bioavailability: 0.5, volumeLPerKg: 0.3, halfLifeHours: 12, absorptionRate: 0.7, fm: { CYP3A4: 0.25, 'P-gp': 0.2 }, typicalDoseMg: 5, typicalIntervalHours: 12 },
+  rivaroxaban: { bioavailability: 0.8, volumeLPerKg: 0.7, halfLifeHours: 9, absorptionRate: 1, fm: { CYP3A4: 0.3, 'P-gp': 0.2 }, typicalDoseMg: 20, typicalIntervalHours: 24 },
+  quetiapine: { bioavailability: 0.09, volumeLPerKg: 10, halfLifeHours: 7, absorptionRate: 1.5, fm: { CYP3A4: 0.9 }, typicalDoseMg: 100, typicalIntervalHours: 12 },
+  amlodipine: { bioavailability: 0.64, volumeLPerKg: 21, halfLifeHours: 40, absorptionRate: 0.3, fm: { CYP3A4: 0.9 }, typicalDoseMg: 5, typicalIntervalHours: 24 },
+  sildenafil: { bioavailability: 0.41, volumeLPerKg: 1.5, halfLifeHours: 4, absorptionRate: 1.5, fm: { CYP3A4: 0.8 }, typicalDoseMg: 50, typicalIntervalHours: 24 },
+  omeprazole: { bioavailability: 0.5, volumeLPerKg: 0.3, halfLifeHours: 1, absorptionRate: 2, fm: { CYP2C19: 0.8, CYP3A4: 0.15 }, typicalDoseMg: 20, typicalIntervalHours: 24 }
+};
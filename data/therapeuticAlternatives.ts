@@ -0,0 +1,31 @@
+// Same-indication substitutes, grouped by what the drugs are prescribed for. Within a group, drugs are
+// listed roughly in order of first-line preference. Names match the drug dictionary.
+// A drug may appear in several groups (e.g. aspirin for pain and for secondary prevention).
+
+export interface TherapeuticGroup {
+  indication: string;
+  drugs: string[];
+}
+
+export const THERAPEUTIC_GROUPS: TherapeuticGroup[] = [
+  { indication: 'Depression / anxiety', drugs: ['Sertraline', 'Escitalopram', 'Citalopram', 'Fluoxetine', 'Paroxetine', 'Venlafaxine', 'Duloxetine', 'Bupropion'] },
+  { indication: 'Pain', drugs: ['Acetaminophen', 'Ibuprofen', 'Naproxen', 'Diclofenac', 'Celecoxib', 'Tramadol', 'Morphine', 'Oxycodone', 'Hydrocodone', 'Codeine'] },
+  { indication: 'Stroke prevention in atrial fibrillation', drugs: ['Apixaban', 'Rivaroxaban', 'Edoxaban', 'Dabigatran', 'Warfarin'] },
+  { indication: 'Antiplatelet therapy', drugs: ['Aspirin', 'Clopidogrel', 'Prasugrel', 'Ticagrelor'] },
+  { indication: 'Hypercholesterolemia', drugs: ['Atorvastatin', 'Rosuvastatin', 'Pravastatin', 'Simvastatin', 'Fluvastatin', 'Lovastatin'] },
+  { indication: 'Hypertension', drugs: ['Lisinopril', 'Enalapril', 'Ramipril', 'Losartan', 'Valsartan', 'Amlodipine', 'Hydrochlorothiazide', 'Nifedipine', 'Felodipine'] },
+  { indication: 'Rate control', drugs: ['Metoprolol', 'Carvedilol', 'Propranolol', 'Diltiazem', 'Verapamil', 'Digoxin'] },
+  { indication: 'Rhythm control', drugs: ['Amiodarone', 'Dronedarone', 'Flecainide', 'Propafenone'] },
+  { indication: 'Gastric acid suppression', drugs: ['Pantoprazole', 'Omeprazole', 'Esomeprazole', 'Lansoprazole', 'Famotidine', 'Cimetidine'] },
+  { indication: 'Nausea', drugs: ['Ondansetron', 'Metoclopramide', 'Domperidone'] },
+  { indication: 'Community-acquired infection', drugs: ['Amoxicillin', 'Doxycycline', 'Azithromycin', 'Clarithromycin', 'Erythromycin', 'Levofloxacin', 'Ciprofloxacin'] },
+  { indication: 'Fungal infection', drugs: ['Fluconazole', 'Terbinafine', 'Itraconazole', 'Voriconazole', 'Posaconazole', 'Ketoconazole'] },
+  { indication: 'Psychosis', drugs: ['Aripiprazole', 'Risperidone', 'Olanzapine', 'Quetiapine', 'Haloperidol', 'Clozapine'] },
+  { indication: 'Insomnia', drugs: ['Melatonin', 'Ramelteon', 'Zolpidem', 'Triazolam'] },
+  { indication: 'Anxiety (acute)', drugs: ['Buspirone', 'Lorazepam', 'Alprazolam', 'Diazepam'] },
+  { indication: 'Epilepsy', drugs: ['Levetiracetam', 'Lamotrigine', 'Valproic Acid', 'Carbamazepine', 'Phenytoin', 'Phenobarbital'] },
+  { indication: 'Type 2 diabetes', drugs: ['Metformin', 'Glipizide', 'Glyburide', 'Tolbutamide', 'Insulin'] },
+  { indication: 'Transplant immunosuppression', drugs: ['Tacrolimus', 'Cyclosporine'] },
+  { indication: 'Asthma / COPD', drugs: ['Montelukast', 'Theophylline'] },
+  { indication: 'Gout', drugs: ['Allopurinol', 'Colchicine'] }
+];
@@ -0,0 +1,60 @@
+import { AlternativeAnalysis, PredictionProvider } from "../types";
+import { THERAPEUTIC_GROUPS } from "../data/therapeuticAlternatives";
+import { resolveDrugName } from "./drugDictionary";
+import { deriveExpectedInteractions } from "./pkRuleEngine";
+import { CombinationRunOptions, analyzeCombinations } from "./decomposition";
+
+export const DEFAULT_ALTERNATIVE_COUNT = 3;
+
+export interface AlternativeCandidate {
+  substitute: string;
+  indication: string;
+  expectedPkInteractions: number; // Rule-table interactions between the substitute and the rest of the regimen
+}
+
+const sameDrug = (a: string, b: string) => resolveDrugName(a).name.toLowerCase() === resolveDrugName(b).name.toLowerCase();
+
+export const replaceDrug = (drugs: string[], target: string, substitute: string) =>
+  drugs.map(d => (sameDrug(d, target) ? substitute : d));
+
+/**
+ * Same-indication substitutes for `target` that are not already part of the regimen. Candidates
+ * with fewer rule-table PK interactions with the remaining drugs come first; ties keep the
+ * first-line order of the therapeutic group.
+ */
+export const findAlternatives = (drugs: string[], target: string, limit = DEFAULT_ALTERNATIVE_COUNT): AlternativeCandidate[] => {
+  const others = drugs.filter(d => !sameDrug(d, target));
+  const seen = new Set<string>();
+  const candidates: (AlternativeCandidate & { order: number })[] = [];
+
+  THERAPEUTIC_GROUPS
+    .filter(group => group.drugs.some(d => sameDrug(d, target)))
+    .forEach(group => group.drugs.forEach((substitute, order) => {
+      if (seen.has(substitute) || sameDrug(substitute, target) || drugs.some(d => sameDrug(d, substitute))) return;
+      seen.add(substitute);
+      const expectedPkInteractions = deriveExpectedInteractions([substitute, ...others])
+        .filter(e => e.victim === substitute || e.perpetrator === substitute).length;
+      candidates.push({ substitute, indication: group.indication, expectedPkInteractions, order });
+    }));
+
+  return candidates
+    .sort((a, b) => a.expectedPkInteractions - b.expectedPkInteractions || a.order - b.order)
+    .slice(0, limit)
+    .map(({ order, ...candidate }) => candidate);
+};
+
+// Analyzes the regimen once per candidate, with `target` swapped for the substitute
+export const runAlternatives = async (
+  drugs: string[],
+  target: string,
+  candidates: AlternativeCandidate[],
+  provider: PredictionProvider,
+  options: CombinationRunOptions = {}
+): Promise<AlternativeAnalysis[]> => {
+  const entries = await analyzeCombinations(
+    candidates.map(c => replaceDrug(drugs, target, c.substitute)),
+    provider,
+    options
+  );
+  return entries.map((entry, i) => ({ ...entry, substitute: candidates[i].substitute, indication: candidates[i].indication }));
+};
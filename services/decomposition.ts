@@ -0,0 +1,82 @@
+import { AnalysisResult, CombinationAnalysis, PredictionProvider } from "../types";
+import { PredictionOptions, runPrediction } from "./predictionProvider";
+import { classifyError } from "./predictionErrors";
+import { drugSetKey } from "./drugSet";
+import { severityWeight } from "./severity";
+
+// Sub-analyses run a few at a time to stay within API rate limits
+const DEFAULT_CONCURRENCY = 3;
+
+export interface CombinationRunOptions extends PredictionOptions {
+  concurrency?: number;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface DecompositionOptions extends CombinationRunOptions {
+  includeTriplets?: boolean;
+}
+
+// All k-element subsets in input order
+export const combinations = <T>(items: T[], k: number): T[][] => {
+  if (k === 0) return [[]];
+  if (items.length < k) return [];
+  const [first, ...rest] = items;
+  return [...combinations(rest, k - 1).map(c => [first, ...c]), ...combinations(rest, k)];
+};
+
+// Highest probability among the predicted outcomes, discounted for milder severities
+export const combinationRisk = (result: AnalysisResult): number =>
+  result.predictions.reduce((max, p) => Math.max(max, p.probability * severityWeight(p.severity)), 0);
+
+export const findCombination = (entries: CombinationAnalysis[] | undefined, drugs: string[]) => {
+  const key = drugSetKey(drugs);
+  return entries?.find(e => drugSetKey(e.drugs) === key);
+};
+
+/**
+ * Analyzes each drug set through the regular prediction pipeline, including its cache, a few at a
+ * time. A failing set is recorded with its error instead of failing the batch; only cancellation
+ * aborts the whole run. Entries keep the order of `sets`.
+ */
+export const analyzeCombinations = async (
+  sets: string[][],
+  provider: PredictionProvider,
+  options: CombinationRunOptions = {}
+): Promise<CombinationAnalysis[]> => {
+  const entries: CombinationAnalysis[] = new Array(sets.length);
+  let next = 0;
+  let completed = 0;
+
+  const worker = async () => {
+    while (next < sets.length) {
+      const index = next++;
+      const subset = sets[index];
+      try {
+        const { result, warnings } = await runPrediction(subset, provider, options);
+        entries[index] = { drugs: subset, result, warnings, risk: combinationRisk(result) };
+      } catch (error) {
+        const classified = classifyError(error);
+        if (classified.kind === 'cancelled') throw classified;
+        entries[index] = { drugs: subset, error: classified.message };
+      }
+      options.onProgress?.(++completed, sets.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(options.concurrency ?? DEFAULT_CONCURRENCY, sets.length) }, worker));
+  return entries;
+};
+
+/**
+ * Analyzes every pair of the regimen (and every triplet when requested and the regimen has more
+ * than three drugs) so that risks in the blended result can be attributed to specific pairs.
+ */
+export const runDecomposition = (
+  drugs: string[],
+  provider: PredictionProvider,
+  options: DecompositionOptions = {}
+): Promise<CombinationAnalysis[]> =>
+  analyzeCombinations([
+    ...combinations(drugs, 2),
+    ...(options.includeTriplets && drugs.length > 3 ? combinations(drugs, 3) : [])
+  ], provider, options);
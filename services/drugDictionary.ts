@@ -0,0 +1,153 @@
+import { DRUG_DICTIONARY, DrugDictionaryEntry, SALT_SUFFIXES } from "../data/drugDictionary";
+
+export type DrugMatchKind = 'generic' | 'brand' | 'synonym' | 'salt' | 'fuzzy' | 'unresolved';
+
+export interface DrugResolution {
+  input: string;
+  name: string; // Canonical name, or the trimmed input when unresolved
+  match: DrugMatchKind;
+  entry?: DrugDictionaryEntry;
+}
+
+export interface DrugSuggestion {
+  entry: DrugDictionaryEntry;
+  term: string; // The name, brand or synonym that matched the query
+  kind: 'generic' | 'brand' | 'synonym';
+}
+
+interface IndexedTerm {
+  key: string;
+  term: string;
+  kind: DrugSuggestion['kind'];
+  entry: DrugDictionaryEntry;
+}
+
+// Case, punctuation and whitespace insensitive: "St. John's Wort" and "st johns wort" share a key
+const termKey = (value: string) =>
+  value.toLowerCase().replace(/['’.®™]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const KIND_RANK: Record<DrugSuggestion['kind'], number> = { generic: 0, brand: 1, synonym: 2 };
+
+// Built once; generic names win over brands and synonyms when keys collide
+const TERMS: IndexedTerm[] = DRUG_DICTIONARY.flatMap(entry => [
+  { key: termKey(entry.name), term: entry.name, kind: 'generic' as const, entry },
+  ...entry.brands.map(term => ({ key: termKey(term), term, kind: 'brand' as const, entry })),
+  ...entry.synonyms.map(term => ({ key: termKey(term), term, kind: 'synonym' as const, entry }))
+]);
+const INDEX = new Map<string, IndexedTerm>();
+[...TERMS].sort((a, b) => KIND_RANK[a.kind] - KIND_RANK[b.kind]).forEach(t => {
+  if (!INDEX.has(t.key)) INDEX.set(t.key, t);
+});
+const SALTS = new Set(SALT_SUFFIXES);
+
+// Optimal string alignment distance: edits plus adjacent transpositions ("sertarline")
+const editDistance = (a: string, b: string): number => {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// Distance from the query to the closest prefix of `term`, allowing for dropped or extra letters
+const prefixDistance = (query: string, term: string, slack: number): number => {
+  let best = Infinity;
+  for (let len = query.length - slack; len <= query.length + slack; len++) {
+    if (len > 0 && len <= term.length) best = Math.min(best, editDistance(query, term.slice(0, len)));
+  }
+  return best;
+};
+
+// Short names tolerate fewer typos, so "ASA" never becomes "DXM"
+const maxTypos = (key: string) => (key.length < 5 ? 0 : key.length < 9 ? 1 : 2);
+
+// Drops trailing salt and formulation words while something is left to look up
+const stripSalts = (key: string): string => {
+  const words = key.split(' ');
+  while (words.length > 1 && SALTS.has(words[words.length - 1])) words.pop();
+  return words.join(' ');
+};
+
+const fuzzyMatch = (key: string): IndexedTerm | undefined => {
+  const limit = maxTypos(key);
+  if (limit === 0) return undefined;
+  let best: IndexedTerm | undefined;
+  let bestDistance = Infinity;
+  let ambiguous = false;
+  INDEX.forEach(t => {
+    if (Math.abs(t.key.length - key.length) > limit) return;
+    const distance = editDistance(key, t.key);
+    if (distance > limit) return;
+    if (distance < bestDistance) {
+      best = t;
+      bestDistance = distance;
+      ambiguous = false;
+    } else if (distance === bestDistance && best && best.entry !== t.entry) {
+      ambiguous = true;
+    }
+  });
+  // Two different drugs equally close is a guess, not a correction
+  return ambiguous ? undefined : best;
+};
+
+/**
+ * Maps a typed drug name to its canonical dictionary name. Tries, in order: an exact generic,
+ * brand or synonym match, the name without salt suffixes ("warfarin sodium"), and a typo-tolerant
+ * match ("Sertaline"). Unresolved names are returned trimmed but otherwise unchanged.
+ */
+export const resolveDrugName = (input: string): DrugResolution => {
+  const trimmed = input.trim().replace(/\s+/g, ' ');
+  const key = termKey(trimmed);
+  const exact = INDEX.get(key);
+  if (exact) return { input, name: exact.entry.name, match: exact.kind, entry: exact.entry };
+
+  const stripped = stripSalts(key);
+  const salt = stripped !== key ? INDEX.get(stripped) : undefined;
+  if (salt) return { input, name: salt.entry.name, match: 'salt', entry: salt.entry };
+
+  const fuzzy = fuzzyMatch(stripped);
+  if (fuzzy) return { input, name: fuzzy.entry.name, match: 'fuzzy', entry: fuzzy.entry };
+
+  return { input, name: trimmed, match: 'unresolved' };
+};
+
+export const canonicalizeDrugs = (drugs: string[]): { drugs: string[]; resolutions: DrugResolution[] } => {
+  const resolutions = drugs.map(resolveDrugName);
+  return { drugs: resolutions.map(r => r.name), resolutions };
+};
+
+/**
+ * Autocomplete candidates for a partial name: prefix matches first, then substring matches,
+ * then names whose beginning is within typo distance of the query. One suggestion per drug.
+ */
+export const suggestDrugs = (query: string, limit = 8): DrugSuggestion[] => {
+  const key = termKey(query);
+  if (key.length < 2) return [];
+  const typos = maxTypos(key);
+
+  const best = new Map<DrugDictionaryEntry, { suggestion: DrugSuggestion; score: number }>();
+  TERMS.forEach(t => {
+    let score: number;
+    if (t.key.startsWith(key)) score = 0;
+    else if (t.key.includes(key)) score = 10;
+    else if (typos > 0 && prefixDistance(key, t.key, typos) <= typos) score = 20;
+    else return;
+    score += KIND_RANK[t.kind];
+    const current = best.get(t.entry);
+    if (!current || score < current.score) {
+      best.set(t.entry, { suggestion: { entry: t.entry, term: t.term, kind: t.kind }, score });
+    }
+  });
+
+  return Array.from(best.values())
+    .sort((a, b) => a.score - b.score || a.suggestion.entry.name.localeCompare(b.suggestion.entry.name))
+    .slice(0, limit)
+    .map(b => b.suggestion);
+};
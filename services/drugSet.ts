@@ -0,0 +1,10 @@
+// Order-, case- and whitespace-insensitive identity of a drug combination,
+// so ["Aspirin", "Warfarin"] and [" warfarin", "aspirin"] share one key.
+export const drugSetKey = (drugs: string[]): string =>
+  Array.from(new Set(
+    drugs
+      .map(d => d.trim().toLowerCase().replace(/\s+/g, ' '))
+      .filter(d => d !== '')
+  ))
+    .sort()
+    .join('|');
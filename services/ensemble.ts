@@ -0,0 +1,173 @@
+import { AnalysisResult, EnsembleStats, Evidence, GraphLink, GraphNode, InteractionPrediction, NodeType } from "../types";
+import { mostSevere } from "./severity";
+
+// Two-sided 95% Student t critical values by degrees of freedom; the normal value is used beyond 30
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042
+];
+
+const tCritical = (df: number) => T_CRITICAL_95[df - 1] ?? 1.96;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Entities are matched across runs by label, ignoring case and punctuation ("CYP-3A4" == "cyp3a4")
+export const entityKey = (label: string) => label.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+// Union of the evidence cited by different runs for the same claim
+export const mergeEvidence = (existing: Evidence[] | undefined, added: Evidence[] | undefined): Evidence[] | undefined => {
+  if (!added?.length) return existing;
+  const merged = [...(existing ?? [])];
+  for (const e of added) {
+    if (!merged.some(m => m.source === e.source && m.identifier === e.identifier && m.quote === e.quote)) merged.push(e);
+  }
+  return merged;
+};
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * Mean, spread and 95% confidence interval of one side effect's probability. Runs that did not
+ * report the side effect lower its agreement but do not count as a probability of zero.
+ */
+export const summarizeProbabilities = (probabilities: number[], ensembleSize: number): EnsembleStats & { mean: number } => {
+  const runs = probabilities.length;
+  const avg = mean(probabilities);
+  const stdDev = runs > 1
+    ? Math.sqrt(probabilities.reduce((sum, p) => sum + (p - avg) ** 2, 0) / (runs - 1))
+    : 0;
+  const margin = runs > 1 ? tCritical(runs - 1) * stdDev / Math.sqrt(runs) : 0;
+  return {
+    mean: avg,
+    runs,
+    agreement: runs / ensembleSize,
+    stdDev,
+    lower: clamp01(avg - margin),
+    upper: clamp01(avg + margin)
+  };
+};
+
+interface NodeTally {
+  node: GraphNode;
+  runs: number;
+  sizes: number[];
+}
+
+interface LinkTally {
+  link: GraphLink;
+  runs: number;
+  strengths: number[];
+}
+
+interface PredictionTally {
+  prediction: InteractionPrediction;
+  probabilities: number[];
+  variants: InteractionPrediction[];
+  nodeKeys: string[]; // Outcome node of each run that named one, re-keyed
+}
+
+/**
+ * Merges independent analyses of the same drug set into one consensus result. Nodes and links
+ * are kept when at least half of the runs produced them (drugs always are); every predicted side
+ * effect is kept with its ensemble statistics so that low-agreement outcomes stay visible.
+ * Severity grades disagreeing between runs resolve to the most severe one.
+ * Expects validated results, so ids are unique and links resolve within each run.
+ */
+export const mergeEnsemble = (runs: AnalysisResult[]): AnalysisResult => {
+  if (runs.length === 0) throw new Error('Cannot merge an empty ensemble.');
+  if (runs.length === 1) return runs[0];
+
+  const quorum = Math.ceil(runs.length / 2);
+  const nodes = new Map<string, NodeTally>();
+  const links = new Map<string, LinkTally>();
+  const predictions = new Map<string, PredictionTally>();
+
+  for (const run of runs) {
+    // Local ids differ between runs, so everything is re-keyed by entity label
+    const localToKey = new Map<string, string>();
+    const seenNodes = new Set<string>();
+    for (const node of run.nodes) {
+      const key = entityKey(node.label) || node.id;
+      localToKey.set(node.id, key);
+      if (seenNodes.has(key)) continue;
+      seenNodes.add(key);
+      const tally = nodes.get(key);
+      if (tally) {
+        tally.runs++;
+        if (node.val !== undefined) tally.sizes.push(node.val);
+      } else {
+        nodes.set(key, { node: { ...node, id: key }, runs: 1, sizes: node.val !== undefined ? [node.val] : [] });
+      }
+    }
+
+    const seenLinks = new Set<string>();
+    for (const link of run.links) {
+      const source = localToKey.get(link.source);
+      const target = localToKey.get(link.target);
+      if (!source || !target || source === target) continue;
+      const key = `${source}|${entityKey(link.type)}|${target}`;
+      if (seenLinks.has(key)) continue;
+      seenLinks.add(key);
+      const tally = links.get(key);
+      if (tally) {
+        tally.runs++;
+        if (link.strength !== undefined) tally.strengths.push(link.strength);
+        tally.link.evidence = mergeEvidence(tally.link.evidence, link.evidence);
+      } else {
+        links.set(key, { link: { ...link, source, target }, runs: 1, strengths: link.strength !== undefined ? [link.strength] : [] });
+      }
+    }
+
+    const seenPredictions = new Set<string>();
+    for (const prediction of run.predictions) {
+      const key = entityKey(prediction.sideEffect);
+      if (seenPredictions.has(key)) continue;
+      seenPredictions.add(key);
+      const tally = predictions.get(key);
+      if (tally) {
+        tally.probabilities.push(prediction.probability);
+        tally.variants.push(prediction);
+        tally.prediction = { ...tally.prediction, evidence: mergeEvidence(tally.prediction.evidence, prediction.evidence) };
+      } else {
+        predictions.set(key, { prediction, probabilities: [prediction.probability], variants: [prediction], nodeKeys: [] });
+      }
+      const nodeKey = prediction.nodeId && localToKey.get(prediction.nodeId);
+      if (nodeKey) predictions.get(key)!.nodeKeys.push(nodeKey);
+    }
+  }
+
+  const mergedNodes = [...nodes.values()]
+    .filter(t => t.runs >= quorum || t.node.type === NodeType.DRUG)
+    .map(t => (t.sizes.length > 0 ? { ...t.node, val: mean(t.sizes) } : t.node));
+  const keptIds = new Set(mergedNodes.map(n => n.id));
+
+  const mergedLinks = [...links.values()]
+    .filter(t => t.runs >= quorum && keptIds.has(t.link.source) && keptIds.has(t.link.target))
+    .map(t => (t.strengths.length > 0 ? { ...t.link, strength: mean(t.strengths) } : t.link));
+
+  const mergedPredictions = [...predictions.values()]
+    .map(({ prediction, probabilities, variants, nodeKeys }) => {
+      const { mean: probability, ...ensemble } = summarizeProbabilities(probabilities, runs.length);
+      // Grading is resolved conservatively: the most severe run wins and supplies onset and management
+      const severity = mostSevere(variants.map(v => v.severity));
+      const graded = variants.find(v => v.severity === severity) ?? prediction;
+      // Outcome nodes are re-keyed like all nodes; the first one that reached the quorum is kept
+      const nodeId = nodeKeys.find(k => keptIds.has(k));
+      return { ...prediction, nodeId, severity, onset: graded.onset, management: graded.management, probability, ensemble };
+    })
+    .sort((a, b) => b.ensemble.agreement - a.ensemble.agreement || b.probability - a.probability);
+
+  // The summary is prose and cannot be averaged; use the run that agrees most with the consensus
+  const agreementByKey = new Map(mergedPredictions.map(p => [entityKey(p.sideEffect), p.ensemble.agreement]));
+  const consensusScore = (run: AnalysisResult) =>
+    run.predictions.reduce((sum, p) => sum + (agreementByKey.get(entityKey(p.sideEffect)) ?? 0), 0);
+  const representative = runs.reduce((best, run) => (consensusScore(run) > consensusScore(best) ? run : best));
+
+  return {
+    nodes: mergedNodes,
+    links: mergedLinks,
+    predictions: mergedPredictions,
+    summary: representative.summary
+  };
+};
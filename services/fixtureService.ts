@@ -0,0 +1,37 @@
+import { AnalysisResult, PredictionProvider } from "../types";
+import warfarinAspirin from "../fixtures/warfarin_aspirin.json";
+import sertralineTramadol from "../fixtures/sertraline_tramadol.json";
+import lisinoprilIbuprofen from "../fixtures/lisinopril_ibuprofen.json";
+import { drugSetKey } from "./drugSet";
+
+interface AnalysisFixture {
+  drugs: string[];
+  result: AnalysisResult;
+}
+
+// Canned analyses recorded on disk. Add a JSON file to /fixtures and list it here to make it replayable.
+const FIXTURES: AnalysisFixture[] = [
+  warfarinAspirin,
+  sertralineTramadol,
+  lisinoprilIbuprofen
+] as AnalysisFixture[];
+
+const fixturesByKey = new Map(FIXTURES.map(f => [drugSetKey(f.drugs), f]));
+
+export const listFixtureCombinations = (): string[][] => FIXTURES.map(f => [...f.drugs]);
+
+export const replayFixture = async (drugs: string[]): Promise<AnalysisResult> => {
+  const fixture = fixturesByKey.get(drugSetKey(drugs));
+  if (!fixture) {
+    const available = FIXTURES.map(f => f.drugs.join(' + ')).join('; ');
+    throw new Error(`No recorded fixture for ${drugs.join(' + ')}. Available fixtures: ${available}.`);
+  }
+  // Hand out a deep copy so callers can never mutate the canned data
+  return JSON.parse(JSON.stringify(fixture.result)) as AnalysisResult;
+};
+
+export const fixtureProvider: PredictionProvider = {
+  id: 'fixture',
+  label: 'Offline Fixtures (Deterministic Replay)',
+  predict: replayFixture
+};
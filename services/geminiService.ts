@@ -1,100 +1,118 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AnalysisResult, NodeType } from "../types";
+import { GoogleGenAI, Schema } from "@google/genai";
+import { AnalysisResult, GraphNeighborhood, GraphNode, PredictOptions, PredictionProvider, RunSettings } from "../types";
+import { PredictionError, classifyError } from "./predictionErrors";
+import { describePatientProfile } from "./patientProfile";
+import { assertSafeInput } from "./inputSanitizer";
+import {
+  CURRENT_PROMPT_VERSION,
+  INTERACTION_SCHEMA_VERSION,
+  getPromptTemplate,
+  interactionResponseSchema,
+  neighborhoodPrompt,
+  neighborhoodResponseSchema
+} from "./prompts";
 
-// Initialize Gemini
-// Note: We use process.env.API_KEY as per instructions.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Upgraded to gemini-3-pro-preview for higher accuracy on complex reasoning tasks
+export const GEMINI_MODEL_ID = "gemini-3-pro-preview";
+// Lower temperature for maximum factual accuracy and consistency
+const DEFAULT_TEMPERATURE = 0.1;
 
-export const predictInteractions = async (drugs: string[]): Promise<AnalysisResult> => {
-  // Upgraded to gemini-3-pro-preview for higher accuracy on complex reasoning tasks
-  const modelId = "gemini-3-pro-preview";
-  
-  const drugsList = drugs.join('", "');
+// Initialize Gemini lazily so that offline providers work without an API key.
+// Note: We use process.env.API_KEY as per instructions.
+let ai: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) {
+    throw new PredictionError('auth', 'No Gemini API key is configured.');
+  }
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return ai;
+};
 
-  const prompt = `
-    Act as a senior Clinical Toxicologist and Biomedical Knowledge Graph expert. 
-    Perform a high-precision analysis of the potential polypharmacy interactions between the following list of drugs: "${drugsList}".
-    
-    Execute the following cognitive analysis steps to ensure accuracy:
-    1. **Pharmacokinetic (PK) Analysis**: Evaluate if these drugs compete for the same metabolic enzymes (specifically CYP450 isozymes like CYP3A4, CYP2D6, CYP2C9). Is one drug an inhibitor or inducer of the others' metabolism? Check for P-glycoprotein (P-gp) transporter interactions.
-    2. **Pharmacodynamic (PD) Analysis**: Evaluate if the drugs act on the same receptors or physiological pathways (e.g., additive CNS depression, QT prolongation, serotonin syndrome risk, or bleeding risk). Consider cumulative effects of multiple drugs.
-    3. **Graph Construction**: Construct a causal subgraph that explains *why* the interactions occur.
-    
-    The subgraph should include:
-       - **Drug Nodes**: The input drugs.
-       - **Mechanism Nodes**: Specific enzymes (e.g., "CYP3A4"), receptors (e.g., "5-HT Receptor"), or pathways involved.
-       - **Outcome Nodes**: The predicted clinical side effects.
-       - **Links**: Scientifically accurate edge labels (e.g., "inhibits", "substrate_of", "prolongs", "synergizes_with").
-    
-    For every node, provide a concise, high-quality scientific description.
-    Provide a confidence score (0.0 to 1.0) for the predicted side effects based on established medical literature.
-  `;
+// Finish reasons that mean the model refused rather than failed
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
 
-  const responseSchema: Schema = {
-    type: Type.OBJECT,
-    properties: {
-      summary: {
-        type: Type.STRING,
-        description: "A detailed clinical summary explaining the mechanism of the interaction (PK/PD) among the combination."
-      },
-      nodes: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            id: { type: Type.STRING },
-            label: { type: Type.STRING },
-            type: { type: Type.STRING, enum: [NodeType.DRUG, NodeType.PROTEIN, NodeType.SIDE_EFFECT] },
-            val: { type: Type.NUMBER, description: "Relative importance size, 1-10" },
-            description: { type: Type.STRING, description: "Scientific description of the entity." }
-          },
-          required: ["id", "label", "type", "description"]
-        }
-      },
-      links: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            source: { type: Type.STRING },
-            target: { type: Type.STRING },
-            type: { type: Type.STRING, description: "Scientific edge label, e.g., 'inhibits', 'metabolized_by'" }
-          },
-          required: ["source", "target", "type"]
-        }
-      },
-      predictions: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            sideEffect: { type: Type.STRING },
-            probability: { type: Type.NUMBER },
-            description: { type: Type.STRING }
-          },
-          required: ["sideEffect", "probability", "description"]
-        }
-      }
-    },
-    required: ["summary", "nodes", "links", "predictions"]
-  };
+// Settings a call with these options runs with; recorded per session so it can be reproduced
+const geminiRunSettings = (options: PredictOptions): RunSettings => ({
+  modelId: options.modelId ?? GEMINI_MODEL_ID,
+  promptVersion: options.promptVersion ?? CURRENT_PROMPT_VERSION,
+  schemaVersion: INTERACTION_SCHEMA_VERSION,
+  temperature: options.temperature ?? DEFAULT_TEMPERATURE
+});
 
+// One structured-output call; safety blocks and empty answers surface as typed errors
+const generateJson = async (prompt: string, responseSchema: Schema, options: PredictOptions): Promise<unknown> => {
   try {
-    const response = await ai.models.generateContent({
-      model: modelId,
+    const response = await getClient().models.generateContent({
+      model: options.modelId ?? GEMINI_MODEL_ID,
       contents: prompt,
       config: {
         responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        temperature: 0.1, // Lower temperature for maximum factual accuracy and consistency
+        responseSchema,
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        abortSignal: options.signal
       }
     });
 
-    const result = JSON.parse(response.text);
-    return result as AnalysisResult;
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+      throw new PredictionError(
+        'safety_block',
+        response.promptFeedback?.blockReasonMessage || `The request was blocked (${blockReason || finishReason}).`
+      );
+    }
+    if (!response.text) {
+      throw new PredictionError('malformed_output', `The model returned an empty response (finish reason: ${finishReason || 'unknown'}).`);
+    }
+
+    // Anything but an object ("OK", a bare list) means the reply ignored the response schema
+    const parsed: unknown = JSON.parse(response.text);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new PredictionError('malformed_output', 'The model response was not a JSON object.');
+    }
+    return parsed;
 
   } catch (error) {
     console.error("Gemini API Error:", error);
-    throw new Error("Failed to analyze drug interactions. Please check your API key or try again.");
+    throw classifyError(error);
   }
-};
\ No newline at end of file
+};
+
+export const predictInteractions = async (drugs: string[], options: PredictOptions = {}): Promise<AnalysisResult> => {
+  // Rejects entries that carry instructions instead of names, whichever caller built the list
+  assertSafeInput(drugs, options.patient);
+
+  const template = getPromptTemplate(options.promptVersion);
+  const prompt = template.render(drugs, describePatientProfile(options.patient));
+  return (await generateJson(prompt, interactionResponseSchema, options)) as AnalysisResult;
+};
+
+// Labels of the node's current neighbors are passed along so the model only adds new ones
+export const expandNeighborhood = async (
+  node: GraphNode,
+  drugs: string[],
+  graph: GraphNeighborhood,
+  options: PredictOptions = {}
+): Promise<GraphNeighborhood> => {
+  // Node labels ("CYP2C19*2") are no drug names and only reach the prompt inside a JSON data block
+  assertSafeInput(drugs);
+
+  const neighborIds = new Set(graph.links.flatMap(l =>
+    l.source === node.id ? [l.target] : l.target === node.id ? [l.source] : []
+  ));
+  const knownNeighbors = graph.nodes.filter(n => neighborIds.has(n.id)).map(n => n.label);
+  const prompt = neighborhoodPrompt.render({ id: node.id, label: node.label, type: node.type }, drugs, knownNeighbors);
+  return (await generateJson(prompt, neighborhoodResponseSchema, options)) as GraphNeighborhood;
+};
+
+export const geminiProvider: PredictionProvider = {
+  id: 'gemini',
+  label: 'Gemini 3.0 Pro (High Precision)',
+  version: `${GEMINI_MODEL_ID}@prompt-${CURRENT_PROMPT_VERSION}`,
+  patientAware: true,
+  runSettings: geminiRunSettings,
+  predict: predictInteractions,
+  expand: expandNeighborhood
+};
@@ -0,0 +1,94 @@
+import { AnalysisSession, GraphLink, GraphNode, NodeType } from "../types";
+import { entityKey, mergeEvidence } from "./ensemble";
+import { resolveDrugName } from "./drugDictionary";
+
+export interface GlobalGraphNode extends GraphNode {
+  sessionIds: string[]; // Sessions whose graph contains this entity, newest first
+}
+
+export interface GlobalGraphLink extends GraphLink {
+  sessionIds: string[];
+}
+
+export interface GlobalGraph {
+  nodes: GlobalGraphNode[];
+  links: GlobalGraphLink[];
+  sessionIds: string[]; // Sessions that passed the filter
+}
+
+export interface GlobalGraphFilter {
+  drug?: string; // Only sessions analyzing this drug
+  from?: number; // Inclusive bounds on the session timestamp
+  to?: number;
+}
+
+// Entities match when type and normalized label agree; drugs are compared by canonical name
+// so that "Coumadin" in one session and "Warfarin" in another become one node
+export const globalEntityId = (node: Pick<GraphNode, 'label' | 'type'>): string => {
+  const name = node.type === NodeType.DRUG ? resolveDrugName(node.label).name : node.label;
+  return `${node.type}:${entityKey(name)}`;
+};
+
+const drugKey = (drug: string) => entityKey(resolveDrugName(drug).name);
+
+export const matchesGlobalFilter = (session: AnalysisSession, filter: GlobalGraphFilter): boolean => {
+  if (filter.from !== undefined && session.timestamp < filter.from) return false;
+  if (filter.to !== undefined && session.timestamp > filter.to) return false;
+  return !filter.drug || session.drugs.some(d => drugKey(d) === drugKey(filter.drug!));
+};
+
+/** Canonical names of every drug analyzed in the given sessions, for the drug filter. */
+export const listSessionDrugs = (sessions: AnalysisSession[]): string[] =>
+  Array.from(new Set(sessions.flatMap(s => s.drugs.map(d => resolveDrugName(d).name)))).sort((a, b) => a.localeCompare(b));
+
+/**
+ * Merges the graphs of all sessions that pass the filter into one. Nodes are resolved by type and
+ * normalized label, links by their resolved endpoints and relation; evidence is pooled and every
+ * element records the sessions it came from. Only each session's full-regimen graph is merged,
+ * not its pair decomposition or alternatives.
+ */
+export const buildGlobalGraph = (sessions: AnalysisSession[], filter: GlobalGraphFilter = {}): GlobalGraph => {
+  const included = sessions.filter(s => matchesGlobalFilter(s, filter)).sort((a, b) => b.timestamp - a.timestamp);
+  const nodes = new Map<string, GlobalGraphNode>();
+  const links = new Map<string, GlobalGraphLink>();
+
+  const contribute = (element: { sessionIds: string[] }, sessionId: string) => {
+    if (!element.sessionIds.includes(sessionId)) element.sessionIds.push(sessionId);
+  };
+
+  included.forEach(session => {
+    const localToGlobal = new Map<string, string>();
+    session.result.nodes.forEach(node => {
+      const id = globalEntityId(node);
+      localToGlobal.set(node.id, id);
+      const existing = nodes.get(id);
+      if (existing) {
+        contribute(existing, session.id);
+        if (!existing.description && node.description) existing.description = node.description;
+      } else {
+        // Newest session names the entity; drugs always carry their canonical name
+        const label = node.type === NodeType.DRUG ? resolveDrugName(node.label).name : node.label;
+        nodes.set(id, { ...node, id, label, sessionIds: [session.id] });
+      }
+    });
+
+    session.result.links.forEach(link => {
+      const source = localToGlobal.get(link.source);
+      const target = localToGlobal.get(link.target);
+      if (!source || !target || source === target) return;
+      const key = `${source}|${link.type}|${target}`;
+      const existing = links.get(key);
+      if (existing) {
+        contribute(existing, session.id);
+        existing.evidence = mergeEvidence(existing.evidence, link.evidence);
+        if (link.strength !== undefined) existing.strength = Math.max(existing.strength ?? 0, link.strength);
+      } else {
+        links.set(key, { ...link, source, target, sessionIds: [session.id] });
+      }
+    });
+  });
+
+  // Entities that recur across sessions are drawn larger
+  const merged = Array.from(nodes.values()).map(n => ({ ...n, val: Math.min(10, 3 + 2 * n.sessionIds.length) }));
+  return { nodes: merged, links: Array.from(links.values()), sessionIds: included.map(s => s.id) };
+};
@@ -0,0 +1,107 @@
+import { GraphNode, NodeType } from "../../types";
+import { BUNDLED_KNOWLEDGE_GRAPH } from "../../data/knowledgeGraph";
+import { PairTriple, RgcnModel, TrainingReport, buildRelationGraph, createRgcnModel, encode, scoreTriple, trainRgcn } from "./rgcn";
+import { Matrix } from "./linalg";
+
+// Training and scoring on the calling thread. The app reaches these through the worker in
+// gnnWorker.ts (via gnnService), since training blocks for several hundred milliseconds.
+
+interface TrainedGnn {
+  model: RgcnModel;
+  embeddings: Matrix;
+  nodeIndex: Map<string, number>;
+  sideEffects: GraphNode[];
+  report: TrainingReport;
+}
+
+export interface GnnSideEffectScore {
+  sideEffect: GraphNode;
+  probability: number; // Noisy-OR over all drug pairs in the regimen
+  strongestPair: [string, string]; // Drug ids of the pair contributing the highest score
+  strongestPairProbability: number;
+}
+
+export interface GnnScoring {
+  scores: GnnSideEffectScore[];
+  resolvedDrugs: GraphNode[];
+  unknownDrugs: string[];
+  training: TrainingReport; // Of the model that produced the scores
+}
+
+let trained: TrainedGnn | null = null;
+
+// Trains once on first use and keeps the model for the lifetime of the page (or worker)
+const getTrainedGnn = (): TrainedGnn => {
+  if (trained) return trained;
+
+  const { nodes, links, interactions } = BUNDLED_KNOWLEDGE_GRAPH;
+  const nodeIndex = new Map(nodes.map((n, i) => [n.id, i]));
+  const sideEffects = nodes.filter(n => n.type === NodeType.SIDE_EFFECT);
+  const sideEffectIndex = new Map(sideEffects.map((n, i) => [n.id, i]));
+  const drugIndices = nodes.flatMap((n, i) => (n.type === NodeType.DRUG ? [i] : []));
+
+  // Message passing runs over both directions of every typed edge
+  const typedEdges = links.flatMap(l => {
+    const source = nodeIndex.get(l.source)!;
+    const target = nodeIndex.get(l.target)!;
+    return [
+      { source, target, relation: l.type },
+      { source: target, target: source, relation: `rev_${l.type}` }
+    ];
+  });
+
+  // Interactions are unordered pairs, so both orientations are trained as positives
+  const positives: PairTriple[] = interactions.flatMap(t => {
+    const a = nodeIndex.get(t.drugs[0])!;
+    const b = nodeIndex.get(t.drugs[1])!;
+    const sideEffect = sideEffectIndex.get(t.sideEffect)!;
+    return [{ a, b, sideEffect }, { a: b, b: a, sideEffect }];
+  });
+
+  const model = createRgcnModel(buildRelationGraph(nodes.length, typedEdges), sideEffects.length);
+  const report = trainRgcn(model, positives, drugIndices);
+  trained = { model, embeddings: encode(model), nodeIndex, sideEffects, report };
+  return trained;
+};
+
+const findDrugNode = (name: string): GraphNode | undefined => {
+  const key = name.trim().toLowerCase();
+  return BUNDLED_KNOWLEDGE_GRAPH.nodes.find(
+    n => n.type === NodeType.DRUG && (n.id === key || n.label.toLowerCase() === key)
+  );
+};
+
+export const scoreDrugSet = (drugs: string[]): GnnScoring => {
+  const gnn = getTrainedGnn();
+  const resolvedDrugs: GraphNode[] = [];
+  const unknownDrugs: string[] = [];
+  drugs.forEach(d => {
+    const node = findDrugNode(d);
+    if (node && !resolvedDrugs.includes(node)) resolvedDrugs.push(node);
+    else if (!node) unknownDrugs.push(d);
+  });
+
+  const scores: GnnSideEffectScore[] = gnn.sideEffects.map((sideEffect, r) => {
+    let survival = 1;
+    let strongestPair: [string, string] = ['', ''];
+    let strongestPairProbability = 0;
+    for (let i = 0; i < resolvedDrugs.length; i++) {
+      for (let j = i + 1; j < resolvedDrugs.length; j++) {
+        const a = gnn.nodeIndex.get(resolvedDrugs[i].id)!;
+        const b = gnn.nodeIndex.get(resolvedDrugs[j].id)!;
+        // The decoder is not symmetric in general, so average both orientations
+        const p = (scoreTriple(gnn.model, gnn.embeddings, { a, b, sideEffect: r }) +
+          scoreTriple(gnn.model, gnn.embeddings, { a: b, b: a, sideEffect: r })) / 2;
+        survival *= 1 - p;
+        if (p > strongestPairProbability) {
+          strongestPairProbability = p;
+          strongestPair = [resolvedDrugs[i].id, resolvedDrugs[j].id];
+        }
+      }
+    }
+    return { sideEffect, probability: 1 - survival, strongestPair, strongestPairProbability };
+  });
+
+  scores.sort((x, y) => y.probability - x.probability);
+  return { scores, resolvedDrugs, unknownDrugs, training: gnn.report };
+};
@@ -0,0 +1,21 @@
+import { GnnScoring, scoreDrugSet } from "./drugSetScoring";
+
+// Runs R-GCN training and scoring off the main thread; see requestGnnScoring in gnnService
+
+export interface GnnWorkerRequest {
+  id: number;
+  drugs: string[];
+}
+
+export type GnnWorkerResponse = { id: number; scoring: GnnScoring } | { id: number; error: string };
+
+const scope = self as unknown as Worker;
+
+scope.onmessage = (event: MessageEvent<GnnWorkerRequest>) => {
+  const { id, drugs } = event.data;
+  try {
+    scope.postMessage({ id, scoring: scoreDrugSet(drugs) } satisfies GnnWorkerResponse);
+  } catch (error) {
+    scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) } satisfies GnnWorkerResponse);
+  }
+};
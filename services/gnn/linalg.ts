@@ -0,0 +1,94 @@
+// Minimal dense linear algebra for the in-browser GNN. Matrices are row-major number[][];
+// the graphs we train on are small enough that clarity wins over typed-array performance.
+
+export type Matrix = number[][];
+
+// Deterministic PRNG (mulberry32) so training is reproducible across runs and machines
+export const createRng = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export type Rng = ReturnType<typeof createRng>;
+
+export const zeros = (rows: number, cols: number): Matrix =>
+  Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+
+// Glorot/Xavier uniform initialization
+export const glorot = (rows: number, cols: number, rng: Rng): Matrix => {
+  const limit = Math.sqrt(6 / (rows + cols));
+  return Array.from({ length: rows }, () =>
+    Array.from({ length: cols }, () => (rng() * 2 - 1) * limit)
+  );
+};
+
+export const matmul = (a: Matrix, b: Matrix): Matrix => {
+  const rows = a.length;
+  const inner = b.length;
+  const cols = inner > 0 ? b[0].length : 0;
+  const out = zeros(rows, cols);
+  for (let i = 0; i < rows; i++) {
+    const ai = a[i];
+    const oi = out[i];
+    for (let k = 0; k < inner; k++) {
+      const aik = ai[k];
+      if (aik === 0) continue;
+      const bk = b[k];
+      for (let j = 0; j < cols; j++) oi[j] += aik * bk[j];
+    }
+  }
+  return out;
+};
+
+export const transpose = (a: Matrix): Matrix => {
+  const rows = a.length;
+  const cols = rows > 0 ? a[0].length : 0;
+  const out = zeros(cols, rows);
+  for (let i = 0; i < rows; i++) {
+    for (let j = 0; j < cols; j++) out[j][i] = a[i][j];
+  }
+  return out;
+};
+
+// a += b * scale, in place
+export const addInPlace = (a: Matrix, b: Matrix, scale = 1): void => {
+  for (let i = 0; i < a.length; i++) {
+    const ai = a[i];
+    const bi = b[i];
+    for (let j = 0; j < ai.length; j++) ai[j] += bi[j] * scale;
+  }
+};
+
+export const sigmoid = (x: number): number => 1 / (1 + Math.exp(-x));
+
+export interface AdamState {
+  m: Matrix;
+  v: Matrix;
+}
+
+export const createAdamState = (rows: number, cols: number): AdamState => ({ m: zeros(rows, cols), v: zeros(rows, cols) });
+
+// One Adam update of `param` in place; `step` is the 1-based iteration count
+export const adamStep = (param: Matrix, grad: Matrix, state: AdamState, learningRate: number, step: number): void => {
+  const beta1 = 0.9;
+  const beta2 = 0.999;
+  const eps = 1e-8;
+  const correction1 = 1 - Math.pow(beta1, step);
+  const correction2 = 1 - Math.pow(beta2, step);
+  for (let i = 0; i < param.length; i++) {
+    for (let j = 0; j < param[i].length; j++) {
+      const g = grad[i][j];
+      state.m[i][j] = beta1 * state.m[i][j] + (1 - beta1) * g;
+      state.v[i][j] = beta2 * state.v[i][j] + (1 - beta2) * g * g;
+      const mHat = state.m[i][j] / correction1;
+      const vHat = state.v[i][j] / correction2;
+      param[i][j] -= (learningRate * mHat) / (Math.sqrt(vHat) + eps);
+    }
+  }
+};
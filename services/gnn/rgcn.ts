@@ -0,0 +1,258 @@
+import { AdamState, Matrix, Rng, addInPlace, adamStep, createAdamState, createRng, glorot, matmul, sigmoid, transpose, zeros } from "./linalg";
+
+/**
+ * Decagon-style link predictor:
+ *  - Encoder: one relational graph convolution (R-GCN) layer over learnable node embeddings,
+ *    h_i = ReLU(x_i W_0 + Σ_r Σ_{j ∈ N_r(i)} (1 / |N_r(i)|) x_j W_r)
+ *  - Decoder: per side effect r, score(i, j) = σ(z_iᵀ D_r M D_r z_j) with a shared interaction
+ *    matrix M and a diagonal, side-effect specific D_r.
+ * Gradients are derived by hand. Training on CPU takes several hundred milliseconds, so the app
+ * runs it in a Web Worker (see gnnService).
+ */
+
+export interface RgcnConfig {
+  inputDim: number;
+  hiddenDim: number;
+  epochs: number;
+  learningRate: number;
+  negativesPerPositive: number;
+  weightDecay: number; // L2 penalty, keeps unseen pairs from collapsing to 0 or 1
+  seed: number;
+}
+
+export const DEFAULT_RGCN_CONFIG: RgcnConfig = {
+  inputDim: 16,
+  hiddenDim: 16,
+  epochs: 150,
+  learningRate: 0.01,
+  negativesPerPositive: 2,
+  weightDecay: 1e-3,
+  seed: 42
+};
+
+// Normalized edge i ← j for one relation (weight = 1 / in-degree of i under that relation)
+interface WeightedEdge {
+  target: number;
+  source: number;
+  weight: number;
+}
+
+export interface RelationGraph {
+  numNodes: number;
+  relations: string[];
+  edges: WeightedEdge[][]; // indexed by relation
+}
+
+// Labelled (drug, drug, side effect) example; label 1 for known interactions
+export interface PairTriple {
+  a: number;
+  b: number;
+  sideEffect: number;
+}
+
+export interface RgcnModel {
+  config: RgcnConfig;
+  graph: RelationGraph;
+  numSideEffects: number;
+  features: Matrix; // X: numNodes × inputDim
+  selfWeight: Matrix; // W_0: inputDim × hiddenDim
+  relationWeights: Matrix[]; // W_r: inputDim × hiddenDim
+  interaction: Matrix; // M: hiddenDim × hiddenDim
+  sideEffectDiagonals: Matrix; // D: numSideEffects × hiddenDim
+}
+
+export interface TrainingReport {
+  epochs: number;
+  finalLoss: number;
+  positives: number;
+  durationMs: number;
+}
+
+export const buildRelationGraph = (
+  numNodes: number,
+  typedEdges: { source: number; target: number; relation: string }[]
+): RelationGraph => {
+  const relations = Array.from(new Set(typedEdges.map(e => e.relation))).sort();
+  const inDegree = relations.map(() => new Array<number>(numNodes).fill(0));
+  typedEdges.forEach(e => { inDegree[relations.indexOf(e.relation)][e.target]++; });
+
+  const edges: WeightedEdge[][] = relations.map(() => []);
+  typedEdges.forEach(e => {
+    const r = relations.indexOf(e.relation);
+    edges[r].push({ target: e.target, source: e.source, weight: 1 / inDegree[r][e.target] });
+  });
+  return { numNodes, relations, edges };
+};
+
+export const createRgcnModel = (graph: RelationGraph, numSideEffects: number, config: RgcnConfig = DEFAULT_RGCN_CONFIG): RgcnModel => {
+  const rng = createRng(config.seed);
+  return {
+    config,
+    graph,
+    numSideEffects,
+    features: glorot(graph.numNodes, config.inputDim, rng),
+    selfWeight: glorot(config.inputDim, config.hiddenDim, rng),
+    relationWeights: graph.relations.map(() => glorot(config.inputDim, config.hiddenDim, rng)),
+    interaction: glorot(config.hiddenDim, config.hiddenDim, rng),
+    sideEffectDiagonals: Array.from({ length: numSideEffects }, () =>
+      Array.from({ length: config.hiddenDim }, () => 1 + (rng() * 2 - 1) * 0.1)
+    )
+  };
+};
+
+// A_r X: mean of neighbour features under one relation
+const aggregate = (edges: WeightedEdge[], input: Matrix, numNodes: number): Matrix => {
+  const cols = input[0].length;
+  const out = zeros(numNodes, cols);
+  edges.forEach(({ target, source, weight }) => {
+    const row = out[target];
+    const src = input[source];
+    for (let k = 0; k < cols; k++) row[k] += weight * src[k];
+  });
+  return out;
+};
+
+// A_rᵀ G: routes gradients from each target back to its sources
+const aggregateTranspose = (edges: WeightedEdge[], grad: Matrix, numNodes: number): Matrix => {
+  const cols = grad[0].length;
+  const out = zeros(numNodes, cols);
+  edges.forEach(({ target, source, weight }) => {
+    const row = out[source];
+    const g = grad[target];
+    for (let k = 0; k < cols; k++) row[k] += weight * g[k];
+  });
+  return out;
+};
+
+interface EncoderCache {
+  aggregated: Matrix[];
+  preActivation: Matrix;
+  embeddings: Matrix;
+}
+
+const forward = (model: RgcnModel): EncoderCache => {
+  const { graph, features } = model;
+  const aggregated = graph.edges.map(edges => aggregate(edges, features, graph.numNodes));
+  const preActivation = matmul(features, model.selfWeight);
+  aggregated.forEach((ax, r) => addInPlace(preActivation, matmul(ax, model.relationWeights[r])));
+  const embeddings = preActivation.map(row => row.map(v => (v > 0 ? v : 0)));
+  return { aggregated, preActivation, embeddings };
+};
+
+export const encode = (model: RgcnModel): Matrix => forward(model).embeddings;
+
+const logit = (model: RgcnModel, z: Matrix, t: PairTriple): number => {
+  const d = model.sideEffectDiagonals[t.sideEffect];
+  const h = model.config.hiddenDim;
+  let s = 0;
+  for (let p = 0; p < h; p++) {
+    const ap = d[p] * z[t.a][p];
+    if (ap === 0) continue;
+    const mp = model.interaction[p];
+    for (let q = 0; q < h; q++) s += ap * mp[q] * d[q] * z[t.b][q];
+  }
+  return s;
+};
+
+export const scoreTriple = (model: RgcnModel, embeddings: Matrix, triple: PairTriple): number =>
+  sigmoid(logit(model, embeddings, triple));
+
+const tripleKey = (t: PairTriple) => `${Math.min(t.a, t.b)}:${Math.max(t.a, t.b)}:${t.sideEffect}`;
+
+// Corrupt the partner drug or the side effect of each positive to create negatives that are not known interactions
+const sampleNegatives = (
+  model: RgcnModel,
+  positives: PairTriple[],
+  drugIndices: number[],
+  known: Set<string>,
+  rng: Rng
+): PairTriple[] => {
+  const negatives: PairTriple[] = [];
+  positives.forEach(pos => {
+    for (let n = 0; n < model.config.negativesPerPositive; n++) {
+      for (let attempt = 0; attempt < 10; attempt++) {
+        const candidate: PairTriple = n % 2 === 0
+          ? { ...pos, b: drugIndices[Math.floor(rng() * drugIndices.length)] }
+          : { ...pos, sideEffect: Math.floor(rng() * model.numSideEffects) };
+        if (candidate.a !== candidate.b && !known.has(tripleKey(candidate))) {
+          negatives.push(candidate);
+          break;
+        }
+      }
+    }
+  });
+  return negatives;
+};
+
+export const trainRgcn = (model: RgcnModel, positives: PairTriple[], drugIndices: number[]): TrainingReport => {
+  const started = Date.now();
+  const { config, graph } = model;
+  const h = config.hiddenDim;
+  const rng = createRng(config.seed + 1);
+  const known = new Set(positives.map(tripleKey));
+
+  const params: Matrix[] = [model.features, model.selfWeight, ...model.relationWeights, model.interaction, model.sideEffectDiagonals];
+  const states: AdamState[] = params.map(p => createAdamState(p.length, p[0].length));
+
+  let finalLoss = 0;
+  for (let epoch = 1; epoch <= config.epochs; epoch++) {
+    const { aggregated, preActivation, embeddings: z } = forward(model);
+
+    const negatives = sampleNegatives(model, positives, drugIndices, known, rng);
+
+    const batch = [
+      ...positives.map(t => ({ t, y: 1 })),
+      ...negatives.map(t => ({ t, y: 0 }))
+    ];
+
+    const dZ = zeros(graph.numNodes, h);
+    const dM = zeros(h, h);
+    const dD = zeros(model.numSideEffects, h);
+    let loss = 0;
+
+    batch.forEach(({ t, y }) => {
+      const s = logit(model, z, t);
+      const p = sigmoid(s);
+      loss += -(y * Math.log(p + 1e-9) + (1 - y) * Math.log(1 - p + 1e-9));
+      const g = (p - y) / batch.length; // dL/ds for mean binary cross-entropy
+
+      const d = model.sideEffectDiagonals[t.sideEffect];
+      const za = z[t.a];
+      const zb = z[t.b];
+      const a = za.map((v, k) => v * d[k]); // D z_a
+      const b = zb.map((v, k) => v * d[k]); // D z_b
+      const mb = model.interaction.map(row => row.reduce((sum, m, q) => sum + m * b[q], 0)); // M b
+      const mta = new Array<number>(h).fill(0); // Mᵀ a
+      for (let p2 = 0; p2 < h; p2++) {
+        for (let q = 0; q < h; q++) mta[q] += model.interaction[p2][q] * a[p2];
+      }
+
+      for (let p2 = 0; p2 < h; p2++) {
+        for (let q = 0; q < h; q++) dM[p2][q] += g * a[p2] * b[q];
+        dD[t.sideEffect][p2] += g * (mb[p2] * za[p2] + mta[p2] * zb[p2]);
+        dZ[t.a][p2] += g * d[p2] * mb[p2];
+        dZ[t.b][p2] += g * d[p2] * mta[p2];
+      }
+    });
+
+    // Back through the ReLU and the R-GCN layer
+    const gradPre = dZ.map((row, i) => row.map((v, k) => (preActivation[i][k] > 0 ? v : 0)));
+    const featuresT = transpose(model.features);
+    const dW0 = matmul(featuresT, gradPre);
+    const dX = matmul(gradPre, transpose(model.selfWeight));
+    const dWr = model.relationWeights.map((w, r) => {
+      addInPlace(dX, aggregateTranspose(graph.edges[r], matmul(gradPre, transpose(w)), graph.numNodes));
+      return matmul(transpose(aggregated[r]), gradPre);
+    });
+
+    const grads: Matrix[] = [dX, dW0, ...dWr, dM, dD];
+    params.forEach((param, i) => {
+      addInPlace(grads[i], param, config.weightDecay);
+      adamStep(param, grads[i], states[i], config.learningRate, epoch);
+    });
+
+    finalLoss = loss / batch.length;
+  }
+
+  return { epochs: config.epochs, finalLoss, positives: positives.length, durationMs: Date.now() - started };
+};
@@ -0,0 +1,155 @@
+import { AnalysisResult, Evidence, GraphLink, GraphNode, InteractionPrediction, PredictionProvider } from "../types";
+import { BUNDLED_KNOWLEDGE_GRAPH } from "../data/knowledgeGraph";
+import { GnnScoring, scoreDrugSet } from "./gnn/drugSetScoring";
+import type { GnnWorkerRequest, GnnWorkerResponse } from "./gnn/gnnWorker";
+import { isMechanismType } from "./nodeOntology";
+import { drugSetKey } from "./drugSet";
+import { PredictionError } from "./predictionErrors";
+
+export type { GnnScoring, GnnSideEffectScore } from "./gnn/drugSetScoring";
+
+// Side effects scoring below this are considered noise and not reported
+const MIN_PROBABILITY = 0.3;
+const MAX_PREDICTIONS = 6;
+
+const CURATED_EVIDENCE: Evidence = { source: 'database', identifier: 'NeuroGraph bundled knowledge graph', level: 'moderate' };
+const MODEL_EVIDENCE: Evidence = { source: 'inference', identifier: 'R-GCN link prediction', level: 'theoretical' };
+
+interface GnnWorkerHandle {
+  worker: Worker;
+  pending: Map<number, { resolve: (scoring: GnnScoring) => void; reject: (error: Error) => void }>;
+}
+
+let workerHandle: GnnWorkerHandle | null = null;
+let nextRequestId = 0;
+// The model is deterministic, so each drug set is scored once per page
+const scoringCache = new Map<string, Promise<GnnScoring>>();
+
+// One worker for the page: it trains on its first request and keeps the model for later ones
+const getWorker = (): GnnWorkerHandle => {
+  if (workerHandle) return workerHandle;
+  const worker = new Worker(new URL('./gnn/gnnWorker.ts', import.meta.url), { type: 'module' });
+  const handle: GnnWorkerHandle = { worker, pending: new Map() };
+  worker.onmessage = (event: MessageEvent<GnnWorkerResponse>) => {
+    const request = handle.pending.get(event.data.id);
+    if (!request) return;
+    handle.pending.delete(event.data.id);
+    if ('scoring' in event.data) request.resolve(event.data.scoring);
+    else request.reject(new Error(event.data.error));
+  };
+  // A worker that failed to load or crashed is dropped; the next request starts a fresh one
+  worker.onerror = (event) => {
+    handle.pending.forEach(request => request.reject(new Error(event.message || 'The GNN worker failed.')));
+    handle.pending.clear();
+    worker.terminate();
+    if (workerHandle === handle) workerHandle = null;
+  };
+  workerHandle = handle;
+  return handle;
+};
+
+/**
+ * Scores a drug set with the bundled R-GCN off the main thread. Training takes several hundred
+ * milliseconds on first use, which would otherwise freeze the page; without Worker support
+ * (e.g. outside the browser) the model trains and scores on the calling thread.
+ */
+export const requestGnnScoring = (drugs: string[]): Promise<GnnScoring> => {
+  const key = drugSetKey(drugs);
+  const cached = scoringCache.get(key);
+  if (cached) return cached;
+
+  const scoring = typeof Worker === 'undefined'
+    ? Promise.resolve().then(() => scoreDrugSet(drugs))
+    : new Promise<GnnScoring>((resolve, reject) => {
+        const handle = getWorker();
+        const id = nextRequestId++;
+        handle.pending.set(id, { resolve, reject });
+        handle.worker.postMessage({ id, drugs } satisfies GnnWorkerRequest);
+      });
+  // Failures are not cached so that a later request can try again
+  scoring.catch(() => scoringCache.delete(key));
+  scoringCache.set(key, scoring);
+  return scoring;
+};
+
+// Builds an explanatory subgraph around the GNN scores using the bundled knowledge graph
+export const predictWithGnn = async (drugs: string[]): Promise<AnalysisResult> => {
+  const { scores, resolvedDrugs, unknownDrugs, training } = await requestGnnScoring(drugs);
+  if (resolvedDrugs.length < 2) {
+    throw new PredictionError(
+      'invalid_input',
+      `The local GNN knowledge graph covers fewer than two of these drugs (unknown: ${unknownDrugs.join(', ')}).`
+    );
+  }
+
+  const reported = scores.filter(s => s.probability >= MIN_PROBABILITY).slice(0, MAX_PREDICTIONS);
+  const kg = BUNDLED_KNOWLEDGE_GRAPH;
+  const drugIds = new Set(resolvedDrugs.map(d => d.id));
+  const effectIds = new Set(reported.map(s => s.sideEffect.id));
+
+  // Keep mechanisms that are shared between input drugs or lead to a reported outcome
+  const mechanismUse = new Map<string, number>();
+  kg.links.forEach(l => {
+    if (drugIds.has(l.source)) mechanismUse.set(l.target, (mechanismUse.get(l.target) || 0) + 1);
+  });
+  const mechanismIds = new Set(
+    Array.from(mechanismUse.entries())
+      .filter(([id, count]) =>
+        !effectIds.has(id) && !drugIds.has(id) &&
+        (count > 1 || kg.links.some(l => l.source === id && effectIds.has(l.target))))
+      .map(([id]) => id)
+  );
+
+  const included = new Set([...drugIds, ...mechanismIds, ...effectIds]);
+  const nodes: GraphNode[] = kg.nodes
+    .filter(n => included.has(n.id))
+    .map(n => {
+      if (isMechanismType(n.type)) return { ...n, val: 3 + (mechanismUse.get(n.id) || 0) };
+      const score = reported.find(s => s.sideEffect.id === n.id);
+      return score ? { ...n, val: Math.round(3 + score.probability * 6) } : { ...n, val: 7 };
+    });
+
+  const links: GraphLink[] = kg.links
+    .filter(l => included.has(l.source) && included.has(l.target))
+    .map(l => ({ ...l, evidence: [CURATED_EVIDENCE] }));
+  reported.forEach(s => {
+    s.strongestPair.forEach(drugId => {
+      if (!links.some(l => l.source === drugId && l.target === s.sideEffect.id)) {
+        links.push({
+          source: drugId,
+          target: s.sideEffect.id,
+          type: 'contributes_to',
+          strength: s.strongestPairProbability,
+          evidence: [MODEL_EVIDENCE]
+        });
+      }
+    });
+  });
+
+  const labelOf = (id: string) => kg.nodes.find(n => n.id === id)?.label || id;
+  const predictions: InteractionPrediction[] = reported.map(s => ({
+    sideEffect: s.sideEffect.label,
+    nodeId: s.sideEffect.id,
+    probability: s.probability,
+    description: `Strongest signal from ${labelOf(s.strongestPair[0])} + ${labelOf(s.strongestPair[1])} (${(s.strongestPairProbability * 100).toFixed(0)}%). ${s.sideEffect.description || ''}`.trim(),
+    evidence: [MODEL_EVIDENCE]
+  }));
+
+  const shared = Array.from(mechanismIds).filter(id => (mechanismUse.get(id) || 0) > 1).map(labelOf);
+  const summary = [
+    `R-GCN link prediction over the bundled knowledge graph (${kg.nodes.length} entities, ${kg.links.length} relations, trained on ${kg.interactions.length} known interactions in ${training.durationMs} ms).`,
+    reported.length > 0
+      ? `Highest-risk outcome: ${reported[0].sideEffect.label} (${(reported[0].probability * 100).toFixed(0)}%).`
+      : 'No side effect scored above the reporting threshold.',
+    shared.length > 0 ? `Shared mechanisms: ${shared.join(', ')}.` : '',
+    unknownDrugs.length > 0 ? `Not in the local graph and therefore ignored: ${unknownDrugs.join(', ')}.` : ''
+  ].filter(Boolean).join(' ');
+
+  return { nodes, links, predictions, summary };
+};
+
+export const gnnProvider: PredictionProvider = {
+  id: 'gnn',
+  label: 'Local R-GCN (In-Browser GNN)',
+  predict: predictWithGnn
+};
@@ -0,0 +1,211 @@
+import { AnalysisResult, GraphNode } from "../types";
+import { isMechanismType } from "./nodeOntology";
+
+// Label propagation settles within a handful of sweeps on graphs of this size
+const MAX_PROPAGATION_SWEEPS = 20;
+const HUB_COUNT = 5;
+
+export type GraphMetric = 'model' | 'degree' | 'betweenness' | 'community';
+
+export interface NodeMetrics {
+  degree: number; // Distinct neighbors, ignoring edge direction
+  degreeCentrality: number; // degree / (n - 1)
+  betweenness: number; // Normalized to 0-1
+  component: number; // Index into GraphAnalytics.components
+  community: number; // Index into GraphAnalytics.communities
+}
+
+export interface GraphAnalytics {
+  metrics: Record<string, NodeMetrics>;
+  components: string[][]; // Node ids, largest first
+  communities: string[][]; // Node ids, largest first
+  modularity: number;
+  hubs: GraphNode[]; // Mechanism nodes with the highest betweenness
+}
+
+type Adjacency = Map<string, Set<string>>;
+
+// Edge direction and multiplicity are ignored; self-loops and dangling links are dropped
+const buildAdjacency = ({ nodes, links }: Pick<AnalysisResult, 'nodes' | 'links'>): Adjacency => {
+  const adjacency: Adjacency = new Map(nodes.map(n => [n.id, new Set<string>()]));
+  links.forEach(({ source, target }) => {
+    if (source === target || !adjacency.has(source) || !adjacency.has(target)) return;
+    adjacency.get(source)!.add(target);
+    adjacency.get(target)!.add(source);
+  });
+  return adjacency;
+};
+
+const connectedComponents = (adjacency: Adjacency): string[][] => {
+  const seen = new Set<string>();
+  const components: string[][] = [];
+  adjacency.forEach((_, start) => {
+    if (seen.has(start)) return;
+    const component = [start];
+    seen.add(start);
+    for (let i = 0; i < component.length; i++) {
+      adjacency.get(component[i])!.forEach(next => {
+        if (seen.has(next)) return;
+        seen.add(next);
+        component.push(next);
+      });
+    }
+    components.push(component);
+  });
+  return components.sort((a, b) => b.length - a.length);
+};
+
+/** Brandes' algorithm on the undirected, unweighted graph, normalized by the number of node pairs. */
+const betweennessCentrality = (adjacency: Adjacency): Map<string, number> => {
+  const ids = Array.from(adjacency.keys());
+  const scores = new Map(ids.map(id => [id, 0]));
+
+  ids.forEach(source => {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>(ids.map(id => [id, []]));
+    const paths = new Map(ids.map(id => [id, 0]));
+    const distance = new Map(ids.map(id => [id, -1]));
+    paths.set(source, 1);
+    distance.set(source, 0);
+
+    const queue = [source];
+    for (let i = 0; i < queue.length; i++) {
+      const current = queue[i];
+      stack.push(current);
+      adjacency.get(current)!.forEach(next => {
+        if (distance.get(next)! < 0) {
+          distance.set(next, distance.get(current)! + 1);
+          queue.push(next);
+        }
+        if (distance.get(next) === distance.get(current)! + 1) {
+          paths.set(next, paths.get(next)! + paths.get(current)!);
+          predecessors.get(next)!.push(current);
+        }
+      });
+    }
+
+    const dependency = new Map(ids.map(id => [id, 0]));
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      predecessors.get(node)!.forEach(prev => {
+        const share = (paths.get(prev)! / paths.get(node)!) * (1 + dependency.get(node)!);
+        dependency.set(prev, dependency.get(prev)! + share);
+      });
+      if (node !== source) scores.set(node, scores.get(node)! + dependency.get(node)!);
+    }
+  });
+
+  // Every pair was counted from both ends
+  const pairs = ((ids.length - 1) * (ids.length - 2)) / 2;
+  scores.forEach((score, id) => scores.set(id, pairs > 0 ? score / 2 / pairs : 0));
+  return scores;
+};
+
+/**
+ * Asynchronous label propagation: each node repeatedly adopts the label most common among its
+ * neighbors. Nodes are visited in id order and ties go to the smallest label, so the same graph
+ * always yields the same communities.
+ */
+const detectCommunities = (adjacency: Adjacency): string[][] => {
+  const ids = Array.from(adjacency.keys()).sort();
+  const labels = new Map(ids.map(id => [id, id]));
+
+  for (let sweep = 0; sweep < MAX_PROPAGATION_SWEEPS; sweep++) {
+    let changed = false;
+    ids.forEach(id => {
+      const neighbors = adjacency.get(id)!;
+      if (neighbors.size === 0) return;
+      const counts = new Map<string, number>();
+      neighbors.forEach(n => counts.set(labels.get(n)!, (counts.get(labels.get(n)!) ?? 0) + 1));
+      const top = Math.max(...counts.values());
+      const current = labels.get(id)!;
+      if (counts.get(current) === top) return;
+      const best = Array.from(counts.keys()).filter(l => counts.get(l) === top).sort()[0];
+      labels.set(id, best);
+      changed = true;
+    });
+    if (!changed) break;
+  }
+
+  const groups = new Map<string, string[]>();
+  ids.forEach(id => groups.set(labels.get(id)!, [...(groups.get(labels.get(id)!) ?? []), id]));
+  return Array.from(groups.values()).sort((a, b) => b.length - a.length);
+};
+
+// Newman's modularity of a partition; near 0 means no better than random, above ~0.3 a clear structure
+const modularity = (adjacency: Adjacency, communityOf: Map<string, number>): number => {
+  const degrees = new Map(Array.from(adjacency, ([id, neighbors]) => [id, neighbors.size]));
+  const edges = Array.from(degrees.values()).reduce((sum, d) => sum + d, 0) / 2;
+  if (edges === 0) return 0;
+
+  const internal = new Map<number, number>();
+  const totals = new Map<number, number>();
+  adjacency.forEach((neighbors, id) => {
+    const community = communityOf.get(id)!;
+    totals.set(community, (totals.get(community) ?? 0) + neighbors.size);
+    neighbors.forEach(n => {
+      if (communityOf.get(n) === community) internal.set(community, (internal.get(community) ?? 0) + 0.5);
+    });
+  });
+  return Array.from(totals, ([community, total]) =>
+    (internal.get(community) ?? 0) / edges - (total / (2 * edges)) ** 2
+  ).reduce((sum, q) => sum + q, 0);
+};
+
+/**
+ * Structural metrics of an interaction graph: degree and betweenness centrality, connected
+ * components and communities. Hubs are the enzymes, transporters, receptors and other mechanism
+ * nodes that the most drug-to-outcome routes pass through, i.e. the regimen's bottlenecks.
+ */
+export const analyzeGraph = (graph: Pick<AnalysisResult, 'nodes' | 'links'>): GraphAnalytics => {
+  const adjacency = buildAdjacency(graph);
+  const components = connectedComponents(adjacency);
+  const communities = detectCommunities(adjacency);
+  const betweenness = betweennessCentrality(adjacency);
+
+  const indexOf = (groups: string[][]) => new Map(groups.flatMap((ids, i) => ids.map(id => [id, i] as [string, number])));
+  const componentOf = indexOf(components);
+  const communityOf = indexOf(communities);
+
+  const metrics: Record<string, NodeMetrics> = {};
+  adjacency.forEach((neighbors, id) => {
+    metrics[id] = {
+      degree: neighbors.size,
+      degreeCentrality: adjacency.size > 1 ? neighbors.size / (adjacency.size - 1) : 0,
+      betweenness: betweenness.get(id)!,
+      component: componentOf.get(id)!,
+      community: communityOf.get(id)!
+    };
+  });
+
+  const hubs = graph.nodes
+    .filter(n => isMechanismType(n.type) && metrics[n.id].degree > 0)
+    .sort((a, b) => metrics[b.id].betweenness - metrics[a.id].betweenness || metrics[b.id].degree - metrics[a.id].degree)
+    .slice(0, HUB_COUNT);
+
+  return { metrics, components, communities, modularity: modularity(adjacency, communityOf), hubs };
+};
+
+const COMMUNITY_PALETTE = ['#a855f7', '#0ea5e9', '#f59e0b', '#22c55e', '#ec4899', '#14b8a6', '#6366f1', '#ef4444'];
+const OVERFLOW_COMMUNITY_COLOR = '#64748b';
+
+// Communities beyond the palette share a neutral color; they are the smallest ones
+export const communityColor = (community: number) => COMMUNITY_PALETTE[community] ?? OVERFLOW_COMMUNITY_COLOR;
+
+/**
+ * The graph's nodes restyled by a metric: centralities replace the model-supplied `val` (1-8,
+ * relative to the most central node), communities replace the node type color. 'model' and
+ * 'community' keep `val`.
+ */
+export const applyGraphMetric = (nodes: GraphNode[], analytics: GraphAnalytics, metric: GraphMetric): GraphNode[] => {
+  if (metric === 'model' || metric === 'community') return nodes;
+  const value = (id: string) => (metric === 'degree' ? analytics.metrics[id]?.degree : analytics.metrics[id]?.betweenness) ?? 0;
+  const max = Math.max(...nodes.map(n => value(n.id)));
+  return nodes.map(n => ({ ...n, val: 1 + 7 * (max > 0 ? value(n.id) / max : 0) }));
+};
+
+/** Fill color per node id when coloring by community, otherwise null (type colors). */
+export const communityColors = (analytics: GraphAnalytics, metric: GraphMetric): Record<string, string> | null => {
+  if (metric !== 'community') return null;
+  return Object.fromEntries(Object.entries(analytics.metrics).map(([id, m]) => [id, communityColor(m.community)]));
+};
@@ -0,0 +1,61 @@
+// Shared helpers for the TSV/CSV dataset dumps. Files can be several GB, so they are read as a
+// stream of lines rather than loaded into memory at once.
+
+// `onLine` may return a promise (e.g. a chunk being written), which is awaited before the next line
+export const forEachLine = async (
+  file: Blob,
+  onLine: (line: string, lineNumber: number) => Promise<void> | void
+): Promise<number> => {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let lineNumber = 0;
+
+  const flush = async (final: boolean) => {
+    const lines = buffer.split(/\r?\n/);
+    buffer = final ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim() === '') continue;
+      const pending = onLine(line, lineNumber++);
+      if (pending) await pending;
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    await flush(false);
+  }
+  buffer += decoder.decode();
+  await flush(true);
+  return lineNumber;
+};
+
+// Splits one row, honouring double-quoted fields in CSV files
+export const splitRow = (line: string, delimiter: string): string[] => {
+  if (delimiter === '\t' || !line.includes('"')) return line.split(delimiter).map(f => f.trim());
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (ch === delimiter && !quoted) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+export const detectDelimiter = (line: string): string => (line.includes('\t') ? '\t' : ',');
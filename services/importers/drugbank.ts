@@ -0,0 +1,178 @@
+import { NodeType, RelationType } from "../../types";
+import { ImportSummary, KnowledgeWriter, createKnowledgeWriter, entityId } from "../knowledgeStore";
+import { inferNodeType } from "../nodeOntology";
+
+type PartnerSection = 'targets' | 'enzymes' | 'transporters' | 'carriers';
+
+// Relation used when DrugBank lists a partner without an explicit action
+const DEFAULT_RELATION: Record<PartnerSection, RelationType> = {
+  targets: 'binds',
+  enzymes: 'substrate_of',
+  transporters: 'substrate_of',
+  carriers: 'binds'
+};
+
+// Targets mix enzymes, receptors and channels, so their type is inferred from the full name instead
+const SECTION_NODE_TYPES: Record<PartnerSection, NodeType | null> = {
+  targets: null,
+  enzymes: NodeType.ENZYME,
+  transporters: NodeType.TRANSPORTER,
+  carriers: NodeType.PROTEIN // Plasma binding proteins such as albumin
+};
+
+const ACTION_RELATIONS: Record<string, RelationType> = {
+  inhibitor: 'inhibits',
+  antagonist: 'inhibits',
+  blocker: 'inhibits',
+  'negative modulator': 'inhibits',
+  substrate: 'substrate_of',
+  inducer: 'induces',
+  agonist: 'activates',
+  'positive allosteric modulator': 'activates',
+  potentiator: 'activates',
+  binder: 'binds'
+};
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const firstTag = (xml: string, tag: string): string | undefined => {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeEntities(match[1].trim()) : undefined;
+};
+
+const allBlocks = (xml: string, tag: string): string[] =>
+  Array.from(xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g')), m => m[1]);
+
+// Removes nested sections so that e.g. a target's <name> is not mistaken for the drug's <name>
+const stripSections = (xml: string, tags: string[]) =>
+  tags.reduce((acc, tag) => acc.replace(new RegExp(`<${tag}(?:\\s[^>]*)?>[\\s\\S]*?</${tag}>`, 'g'), ''), xml);
+
+const NESTED_SECTIONS = [
+  'targets', 'enzymes', 'transporters', 'carriers', 'drug-interactions', 'products', 'international-brands',
+  'mixtures', 'packagers', 'manufacturers', 'prices', 'categories', 'patents', 'pathways', 'reactions',
+  'snp-effects', 'snp-adverse-drug-reactions', 'salts', 'synonyms', 'general-references', 'dosages'
+];
+
+// Pathways and metabolic reactions come before the partner sections and list <enzymes> of their own
+const NON_PARTNER_SECTIONS = ['pathways', 'reactions', 'snp-effects', 'snp-adverse-drug-reactions'];
+
+const truncate = (text: string, max = 400) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+// Entities repeat across drugs; the writer stores each once, keeping the first description it gets
+const parseDrugBlock = (block: string, writer: KnowledgeWriter) => {
+  const own = stripSections(block, NESTED_SECTIONS);
+  const name = firstTag(own, 'name');
+  if (!name) return;
+
+  const drugId = entityId(NodeType.DRUG, name);
+  const description = firstTag(own, 'description');
+  writer.addNode({ id: drugId, label: name, type: NodeType.DRUG, description: description ? truncate(description) : undefined });
+
+  const partnerXml = stripSections(block, NON_PARTNER_SECTIONS);
+  (['targets', 'enzymes', 'transporters', 'carriers'] as PartnerSection[]).forEach(section => {
+    const sectionXml = firstTag(partnerXml, section);
+    if (!sectionXml) return;
+    const partnerTag = section.slice(0, -1); // targets → target
+    allBlocks(sectionXml, partnerTag).forEach(partner => {
+      const partnerName = firstTag(partner, 'gene-name') || firstTag(stripSections(partner, ['polypeptide', 'actions', 'references']), 'name');
+      if (!partnerName) return;
+      const proteinId = entityId(NodeType.PROTEIN, partnerName);
+      const fullName = firstTag(stripSections(partner, ['polypeptide', 'actions', 'references']), 'name');
+      writer.addNode({
+        id: proteinId,
+        label: partnerName,
+        type: SECTION_NODE_TYPES[section] ?? inferNodeType(fullName ?? partnerName),
+        description: fullName && fullName !== partnerName ? fullName : undefined
+      });
+      const actions = allBlocks(firstTag(partner, 'actions') ?? '', 'action').map(a => a.trim().toLowerCase());
+      const relations = actions.map(a => ACTION_RELATIONS[a]).filter(Boolean);
+      const unique = relations.length > 0 ? Array.from(new Set(relations)) : [DEFAULT_RELATION[section]];
+      unique.forEach(type => writer.addLink({ source: drugId, target: proteinId, type }));
+    });
+  });
+
+  const interactions = firstTag(partnerXml, 'drug-interactions');
+  if (interactions) {
+    allBlocks(interactions, 'drug-interaction').forEach(interaction => {
+      const otherName = firstTag(interaction, 'name');
+      const text = firstTag(interaction, 'description');
+      if (!otherName || !text) return;
+      const otherId = entityId(NodeType.DRUG, otherName);
+      writer.addNode({ id: otherId, label: otherName, type: NodeType.DRUG });
+      writer.addPairEffect({ drugs: [drugId, otherId].sort() as [string, string], description: truncate(text) });
+    });
+  }
+};
+
+const OPEN_DRUG = /<drug[\s>]/g;
+const CLOSE_DRUG = '</drug>';
+
+// Index just past the </drug> closing the element opened at `start`, or -1 if not yet buffered.
+// Pathway sections nest their own <drug> elements, so nesting depth has to be tracked.
+const findDrugEnd = (buffer: string, start: number): number => {
+  let depth = 0;
+  let cursor = start;
+  for (;;) {
+    OPEN_DRUG.lastIndex = cursor;
+    const open = OPEN_DRUG.exec(buffer);
+    const close = buffer.indexOf(CLOSE_DRUG, cursor);
+    if (close < 0) return -1;
+    if (open && open.index < close) {
+      depth++;
+      cursor = open.index + 1;
+    } else {
+      depth--;
+      cursor = close + CLOSE_DRUG.length;
+      if (depth === 0) return cursor;
+    }
+  }
+};
+
+// Streams the (multi-GB) DrugBank full database XML and parses it one top-level <drug> at a time
+export const importDrugBank = async (file: Blob): Promise<ImportSummary> => {
+  const writer = createKnowledgeWriter('DRUGBANK');
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let drugCount = 0;
+
+  const drain = async () => {
+    for (;;) {
+      const start = buffer.search(/<drug[\s>]/);
+      if (start < 0) {
+        // Keep a short tail in case an opening tag straddles two chunks
+        buffer = buffer.slice(-8);
+        return;
+      }
+      const end = findDrugEnd(buffer, start);
+      if (end < 0) {
+        buffer = buffer.slice(start);
+        return;
+      }
+      parseDrugBlock(buffer.slice(start, end), writer);
+      drugCount++;
+      buffer = buffer.slice(end);
+      await writer.flushIfFull();
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    await drain();
+  }
+  buffer += decoder.decode();
+  await drain();
+
+  if (drugCount === 0) {
+    throw new Error('No <drug> entries found. Expected the DrugBank full database XML.');
+  }
+  return writer.finish();
+};
@@ -0,0 +1,45 @@
+import { NodeType } from "../../types";
+import { ImportSummary, createKnowledgeWriter, entityId } from "../knowledgeStore";
+import { forEachLine } from "./delimited";
+
+// SIDER 4.1 ships headerless TSVs:
+//  drug_names.tsv:     STITCH flat id, drug name
+//  meddra_all_se.tsv:  STITCH flat id, STITCH stereo id, UMLS id (label), MedDRA type, UMLS id (MedDRA), side effect name
+export const readSiderDrugNames = async (file: Blob): Promise<Map<string, string>> => {
+  const names = new Map<string, string>();
+  await forEachLine(file, line => {
+    const [stitchId, name] = line.split('\t');
+    if (stitchId && name) names.set(stitchId.trim(), name.trim());
+  });
+  return names;
+};
+
+export const importSider = async (sideEffectsFile: Blob, drugNamesFile?: Blob): Promise<ImportSummary> => {
+  const names = drugNamesFile ? await readSiderDrugNames(drugNamesFile) : new Map<string, string>();
+  const writer = createKnowledgeWriter('SIDER');
+  const seenLinks = new Set<string>();
+
+  const addNode = (type: NodeType, label: string) => {
+    const id = entityId(type, label);
+    writer.addNode({ id, label, type });
+    return id;
+  };
+
+  await forEachLine(sideEffectsFile, line => {
+    const row = line.split('\t');
+    if (row.length < 6) return;
+    const [stitchFlat, , , meddraType, , sideEffectName] = row.map(c => c.trim());
+    // Lowest-level terms duplicate their preferred terms, so only PT rows are kept
+    if (meddraType !== 'PT' || !sideEffectName) return;
+
+    const drugId = addNode(NodeType.DRUG, names.get(stitchFlat) ?? stitchFlat);
+    const effectId = addNode(NodeType.SIDE_EFFECT, sideEffectName);
+    const key = `${drugId}|${effectId}`;
+    if (seenLinks.has(key)) return;
+    seenLinks.add(key);
+    writer.addLink({ source: drugId, target: effectId, type: 'causes' });
+    return writer.flushIfFull();
+  });
+
+  return writer.finish();
+};
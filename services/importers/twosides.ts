@@ -0,0 +1,74 @@
+import { NodeType } from "../../types";
+import { ImportSummary, createKnowledgeWriter, entityId } from "../knowledgeStore";
+import { detectDelimiter, forEachLine, splitRow } from "./delimited";
+
+// Column names used by the two public TWOSIDES releases: the 2019 nSides dump
+// (drug_1_concept_name, condition_concept_name, PRR, mean_reporting_frequency) and the
+// Decagon-preprocessed file (STITCH 1, STITCH 2, Side Effect Name).
+const COLUMN_CANDIDATES = {
+  drugA: ['drug_1_concept_name', 'drug1_name', 'stitch 1', 'drug1', '# stitch 1'],
+  drugB: ['drug_2_concept_name', 'drug2_name', 'stitch 2', 'drug2'],
+  sideEffect: ['condition_concept_name', 'side effect name', 'event_name', 'condition'],
+  frequency: ['mean_reporting_frequency'],
+  prr: ['prr']
+};
+
+const findColumn = (header: string[], candidates: string[]) =>
+  header.findIndex(h => candidates.includes(h.toLowerCase().replace(/^#\s*/, '# ').trim()) || candidates.includes(h.toLowerCase().trim()));
+
+// Reporting frequency is already a proportion; otherwise map PRR (1..∞) onto 0..1
+const signalScore = (frequency: number, prr: number): number | undefined => {
+  if (Number.isFinite(frequency) && frequency > 0) return Math.min(1, frequency);
+  if (Number.isFinite(prr) && prr > 1) return 1 - 1 / prr;
+  return undefined;
+};
+
+export const importTwosides = async (file: Blob): Promise<ImportSummary> => {
+  const writer = createKnowledgeWriter('TWOSIDES');
+  let delimiter = '\t';
+  let columns: Record<keyof typeof COLUMN_CANDIDATES, number> | null = null;
+
+  const addNode = (type: NodeType, label: string) => {
+    const id = entityId(type, label);
+    writer.addNode({ id, label, type });
+    return id;
+  };
+
+  await forEachLine(file, (line, lineNumber) => {
+    if (lineNumber === 0) {
+      delimiter = detectDelimiter(line);
+      const header = splitRow(line, delimiter);
+      columns = {
+        drugA: findColumn(header, COLUMN_CANDIDATES.drugA),
+        drugB: findColumn(header, COLUMN_CANDIDATES.drugB),
+        sideEffect: findColumn(header, COLUMN_CANDIDATES.sideEffect),
+        frequency: findColumn(header, COLUMN_CANDIDATES.frequency),
+        prr: findColumn(header, COLUMN_CANDIDATES.prr)
+      };
+      if (columns.drugA < 0 || columns.drugB < 0 || columns.sideEffect < 0) {
+        throw new Error('Unrecognized TWOSIDES header: expected drug 1, drug 2 and side effect columns.');
+      }
+      return;
+    }
+
+    const cols = columns!;
+    const row = splitRow(line, delimiter);
+    const drugA = row[cols.drugA];
+    const drugB = row[cols.drugB];
+    const sideEffect = row[cols.sideEffect];
+    if (!drugA || !drugB || !sideEffect || drugA.toLowerCase() === drugB.toLowerCase()) return;
+
+    const ids = [addNode(NodeType.DRUG, drugA), addNode(NodeType.DRUG, drugB)].sort() as [string, string];
+    writer.addPairEffect({
+      drugs: ids,
+      sideEffect: addNode(NodeType.SIDE_EFFECT, sideEffect),
+      score: signalScore(
+        cols.frequency >= 0 ? parseFloat(row[cols.frequency]) : NaN,
+        cols.prr >= 0 ? parseFloat(row[cols.prr]) : NaN
+      )
+    });
+    return writer.flushIfFull();
+  });
+
+  return writer.finish();
+};
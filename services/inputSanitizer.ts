@@ -0,0 +1,65 @@
+import { PatientProfile } from "../types";
+import { resolveDrugName } from "./drugDictionary";
+import { PredictionError } from "./predictionErrors";
+
+export const MAX_DRUG_NAME_LENGTH = 60;
+// Unknown names longer than this read like sentences rather than drug names
+const MAX_UNRESOLVED_WORDS = 4;
+
+// Letters of any script, digits and the punctuation real product names use ("Co-trimoxazole", "Toprol-XL", "5-FU")
+const ALLOWED_CHARACTERS = /^[\p{L}\p{N} '’.,()/+-]+$/u;
+
+// Phrases addressed to the model rather than naming a substance
+const INSTRUCTION_PATTERNS: RegExp[] = [
+  /\b(ignore|disregard|forget|override)\b/i,
+  /\b(instructions?|prompt|system|assistant|schema|json)\b/i,
+  /\b(you are|act as|pretend|respond|reply|output|return|print|say)\b/i
+];
+
+export interface EntryIssue {
+  entry: string;
+  reason: string;
+}
+
+/**
+ * Checks one drug entry before it reaches a provider. Entries must be short and use only name
+ * characters; entries the drug dictionary resolves are otherwise trusted, unknown ones must also
+ * look like a name (a few words, no phrasing aimed at the model). Returns null when acceptable.
+ */
+export const checkDrugEntry = (raw: string): string | null => {
+  const entry = raw.trim();
+  if (entry.length > MAX_DRUG_NAME_LENGTH) return `Longer than ${MAX_DRUG_NAME_LENGTH} characters.`;
+  if (!ALLOWED_CHARACTERS.test(entry)) return 'Contains characters that do not occur in drug names.';
+  if (resolveDrugName(entry).match !== 'unresolved') return null;
+  if (entry.split(/\s+/).length > MAX_UNRESOLVED_WORDS) return 'Unknown name with too many words to be a drug name.';
+  if (INSTRUCTION_PATTERNS.some(p => p.test(entry))) return 'Looks like an instruction rather than a drug name.';
+  return null;
+};
+
+// Comorbidities are free text but reach the prompt as well, so they get the same treatment
+export const checkFreeTextEntry = (raw: string): string | null => {
+  const entry = raw.trim();
+  if (entry.length > MAX_DRUG_NAME_LENGTH) return `Longer than ${MAX_DRUG_NAME_LENGTH} characters.`;
+  if (!ALLOWED_CHARACTERS.test(entry)) return 'Contains characters that are not allowed.';
+  if (INSTRUCTION_PATTERNS.some(p => p.test(entry))) return 'Looks like an instruction rather than a condition.';
+  return null;
+};
+
+export const findInputIssues = (drugs: string[], patient?: PatientProfile): EntryIssue[] => [
+  ...drugs
+    .filter(d => d.trim() !== '')
+    .map(entry => ({ entry, reason: checkDrugEntry(entry) }))
+    .filter((i): i is EntryIssue => i.reason !== null),
+  ...(patient?.comorbidities ?? [])
+    .filter(c => c.trim() !== '')
+    .map(entry => ({ entry, reason: checkFreeTextEntry(entry) }))
+    .filter((i): i is EntryIssue => i.reason !== null)
+];
+
+// Throws an `invalid_input` error naming every rejected entry
+export const assertSafeInput = (drugs: string[], patient?: PatientProfile): void => {
+  const issues = findInputIssues(drugs, patient);
+  if (issues.length === 0) return;
+  const details = issues.map(i => `"${i.entry.length > 40 ? `${i.entry.slice(0, 40)}…` : i.entry}": ${i.reason}`).join(' ');
+  throw new PredictionError('invalid_input', `Rejected ${issues.length === 1 ? 'entry' : 'entries'}. ${details}`);
+};
@@ -0,0 +1,419 @@
+import { AnalysisResult, Evidence, GraphLink, GraphNeighborhood, GraphNode, InteractionPrediction, NodeType, PredictionProvider } from "../types";
+import { openDatabase, promisifyRequest, transactionDone } from "./indexedDb";
+import { PredictionError } from "./predictionErrors";
+
+export type KnowledgeDataset = 'TWOSIDES' | 'SIDER' | 'DRUGBANK';
+
+export interface StoredLink extends GraphLink {
+  key: string;
+  dataset: KnowledgeDataset;
+}
+
+// Interaction that only exists for a specific drug pair (TWOSIDES side effects, DrugBank DDIs)
+export interface PairEffect {
+  key: string;
+  drugs: [string, string]; // Drug node ids, sorted
+  sideEffect?: string; // Side effect node id
+  description?: string;
+  score?: number; // 0–1 signal strength (reporting frequency or PRR-derived)
+  dataset: KnowledgeDataset;
+}
+
+// Row as the importers produce it; the writer fills in key and dataset
+export type PairEffectRow = Omit<PairEffect, 'key' | 'dataset'>;
+
+// Rows an import handed to the writer, before merging with what the store already held
+export interface ImportSummary {
+  dataset: KnowledgeDataset;
+  nodes: number;
+  links: number;
+  pairEffects: number;
+}
+
+export interface KnowledgeStoreStats {
+  nodes: number;
+  links: number;
+  pairEffects: number;
+  byDataset: Record<KnowledgeDataset, number>;
+}
+
+const DB_NAME = 'neurograph_knowledge';
+const DB_VERSION = 2;
+const NODE_STORE = 'nodes';
+const LINK_STORE = 'links';
+const PAIR_STORE = 'pairEffects';
+const DATASETS: KnowledgeDataset[] = ['TWOSIDES', 'SIDER', 'DRUGBANK'];
+// Rows buffered before an import writes them in one transaction
+const IMPORT_CHUNK_SIZE = 5_000;
+
+// Canonical, dataset-independent ids so that the same entity from different sources merges.
+// Every mechanism type shares the "protein" prefix, keeping ids of earlier imports stable.
+export const entityId = (type: NodeType, name: string): string => {
+  const prefix = type === NodeType.DRUG ? 'drug' : type === NodeType.SIDE_EFFECT ? 'effect' : 'protein';
+  return `${prefix}:${name.trim().toLowerCase()}`;
+};
+
+// How each dataset is cited: SIDER is mined from product labels, TWOSIDES from FAERS reports
+const DATASET_EVIDENCE: Record<KnowledgeDataset, Evidence> = {
+  TWOSIDES: { source: 'database', identifier: 'TWOSIDES', level: 'moderate' },
+  SIDER: { source: 'label', identifier: 'SIDER', level: 'high' },
+  DRUGBANK: { source: 'database', identifier: 'DrugBank', level: 'high' }
+};
+
+const datasetEvidence = (dataset: KnowledgeDataset, quote?: string): Evidence =>
+  quote ? { ...DATASET_EVIDENCE[dataset], quote } : DATASET_EVIDENCE[dataset];
+
+const linkKey = (l: GraphLink) => `${l.source}|${l.target}|${l.type}`;
+// DrugBank describes an interaction once from each drug's side; both rows are the same pair record,
+// which keeps the first description
+const pairKey = (p: PairEffectRow, dataset: KnowledgeDataset) =>
+  `${p.drugs[0]}|${p.drugs[1]}|${p.sideEffect ?? dataset}`;
+
+const pushIndexed = <T>(index: Map<string, T[]>, key: string, value: T) => {
+  const list = index.get(key);
+  if (list) list.push(value);
+  else index.set(key, [value]);
+};
+
+// Imports can hold millions of rows, so lookups go through indexes instead of an in-memory copy.
+// Version 1 had no indexes; they are added to the existing stores on upgrade.
+const openKnowledgeDb = () =>
+  openDatabase(DB_NAME, DB_VERSION, (db, _oldVersion, transaction) => {
+    const store = (name: string, keyPath: string) =>
+      db.objectStoreNames.contains(name) ? transaction.objectStore(name) : db.createObjectStore(name, { keyPath });
+    const index = (target: IDBObjectStore, name: string, keyPath: string) => {
+      if (!target.indexNames.contains(name)) target.createIndex(name, keyPath);
+    };
+    store(NODE_STORE, 'id');
+    const links = store(LINK_STORE, 'key');
+    index(links, 'source', 'source');
+    index(links, 'target', 'target');
+    index(links, 'dataset', 'dataset');
+    const pairs = store(PAIR_STORE, 'key');
+    index(pairs, 'pair', 'drugs'); // The sorted drug id pair as an array key
+    index(pairs, 'dataset', 'dataset');
+  });
+
+// One connection for the lifetime of the page, opened on first use
+let dbPromise: Promise<IDBDatabase> | null = null;
+const getKnowledgeDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openKnowledgeDb();
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const readStore = async <T>(name: string, read: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await getKnowledgeDb();
+  return promisifyRequest(read(db.transaction(name, 'readonly').objectStore(name)));
+};
+
+export interface KnowledgeWriter {
+  addNode: (node: GraphNode) => void;
+  addLink: (link: GraphLink) => void;
+  addPairEffect: (row: PairEffectRow) => void;
+  flushIfFull: () => Promise<void> | undefined; // Importers await it between rows
+  finish: () => Promise<ImportSummary>;
+}
+
+/**
+ * Buffers imported rows and writes them in chunks of IMPORT_CHUNK_SIZE, one transaction per chunk,
+ * so that a multi-GB dump never sits in memory as a whole. Entities keep the richest description
+ * seen, links the first dataset that reported them, and repeated pair records (e.g. per-year
+ * TWOSIDES rows) the strongest signal. Only the ids of entities written so far are kept across chunks.
+ */
+export const createKnowledgeWriter = (dataset: KnowledgeDataset): KnowledgeWriter => {
+  const written = new Map<string, boolean>(); // Entity id → written with a description
+  let nodes = new Map<string, GraphNode>();
+  let links = new Map<string, StoredLink>();
+  let pairs = new Map<string, PairEffect>();
+  const summary: ImportSummary = { dataset, nodes: 0, links: 0, pairEffects: 0 };
+  const buffered = () => nodes.size + links.size + pairs.size;
+
+  const flush = async () => {
+    if (buffered() === 0) return;
+    const chunk = { nodes, links, pairs };
+    nodes = new Map();
+    links = new Map();
+    pairs = new Map();
+
+    const db = await getKnowledgeDb();
+    const tx = db.transaction([NODE_STORE, LINK_STORE, PAIR_STORE], 'readwrite');
+    const nodeStore = tx.objectStore(NODE_STORE);
+    const linkStore = tx.objectStore(LINK_STORE);
+    const pairStore = tx.objectStore(PAIR_STORE);
+    chunk.nodes.forEach(node => {
+      const request = nodeStore.get(node.id);
+      request.onsuccess = () => {
+        const existing = request.result as GraphNode | undefined;
+        if (!existing) nodeStore.put(node);
+        else if (!existing.description && node.description) nodeStore.put({ ...existing, description: node.description });
+      };
+    });
+    chunk.links.forEach(link => {
+      const request = linkStore.getKey(link.key);
+      request.onsuccess = () => {
+        if (request.result === undefined) linkStore.put(link);
+      };
+    });
+    chunk.pairs.forEach(pair => {
+      const request = pairStore.get(pair.key);
+      request.onsuccess = () => {
+        const existing = request.result as PairEffect | undefined;
+        if (!existing) pairStore.put(pair);
+        else if ((pair.score ?? 0) > (existing.score ?? 0)) pairStore.put({ ...existing, score: pair.score });
+      };
+    });
+    await transactionDone(tx);
+  };
+
+  return {
+    addNode: node => {
+      const hasDescription = Boolean(node.description);
+      const seen = written.get(node.id);
+      if (seen === true || (seen === false && !hasDescription)) return;
+      if (seen === undefined) summary.nodes++;
+      written.set(node.id, hasDescription);
+      nodes.set(node.id, node);
+    },
+    addLink: link => {
+      summary.links++;
+      const key = linkKey(link);
+      if (!links.has(key)) links.set(key, { ...link, key, dataset });
+    },
+    addPairEffect: row => {
+      summary.pairEffects++;
+      const key = pairKey(row, dataset);
+      const existing = pairs.get(key);
+      if (!existing) pairs.set(key, { ...row, key, dataset });
+      else if ((row.score ?? 0) > (existing.score ?? 0)) existing.score = row.score;
+    },
+    flushIfFull: () => (buffered() >= IMPORT_CHUNK_SIZE ? flush() : undefined),
+    finish: async () => {
+      await flush();
+      return summary;
+    }
+  };
+};
+
+export const clearKnowledgeStore = async (): Promise<void> => {
+  const db = await getKnowledgeDb();
+  const tx = db.transaction([NODE_STORE, LINK_STORE, PAIR_STORE], 'readwrite');
+  tx.objectStore(NODE_STORE).clear();
+  tx.objectStore(LINK_STORE).clear();
+  tx.objectStore(PAIR_STORE).clear();
+  await transactionDone(tx);
+};
+
+const EMPTY_STATS: KnowledgeStoreStats = { nodes: 0, links: 0, pairEffects: 0, byDataset: { TWOSIDES: 0, SIDER: 0, DRUGBANK: 0 } };
+
+// Counted by IndexedDB; a store that cannot be opened reads as empty
+export const getKnowledgeStoreStats = async (): Promise<KnowledgeStoreStats> => {
+  try {
+    const db = await getKnowledgeDb();
+    const tx = db.transaction([NODE_STORE, LINK_STORE, PAIR_STORE], 'readonly');
+    const count = (name: string, dataset?: KnowledgeDataset) => {
+      const store = tx.objectStore(name);
+      return promisifyRequest(dataset ? store.index('dataset').count(dataset) : store.count());
+    };
+    const [nodes, links, pairEffects, perDataset] = await Promise.all([
+      count(NODE_STORE),
+      count(LINK_STORE),
+      count(PAIR_STORE),
+      Promise.all(DATASETS.map(async d => (await count(LINK_STORE, d)) + (await count(PAIR_STORE, d))))
+    ]);
+    const byDataset = Object.fromEntries(DATASETS.map((d, i) => [d, perDataset[i]])) as Record<KnowledgeDataset, number>;
+    return { nodes, links, pairEffects, byDataset };
+  } catch (e) {
+    console.error('Failed to read the local knowledge store:', e);
+    return EMPTY_STATS;
+  }
+};
+
+export const getStoredNode = async (id: string): Promise<GraphNode | undefined> =>
+  readStore<GraphNode | undefined>(NODE_STORE, store => store.get(id));
+
+export const findDrugId = async (name: string): Promise<string | undefined> => {
+  const id = entityId(NodeType.DRUG, name);
+  return (await getStoredNode(id)) ? id : undefined;
+};
+
+export const getStoredLinks = async (nodeId: string): Promise<StoredLink[]> => {
+  const [outgoing, incoming] = await Promise.all([
+    readStore<StoredLink[]>(LINK_STORE, store => store.index('source').getAll(nodeId)),
+    readStore<StoredLink[]>(LINK_STORE, store => store.index('target').getAll(nodeId))
+  ]);
+  return [...outgoing, ...incoming];
+};
+
+// Records for every pair among the given drugs, looked up pair by pair
+export const getPairEffects = async (drugIds: string[]): Promise<PairEffect[]> => {
+  const ids = Array.from(new Set(drugIds)).sort();
+  const pairs = ids.flatMap((a, i) => ids.slice(i + 1).map(b => [a, b]));
+  const results = await Promise.all(pairs.map(pair =>
+    readStore<PairEffect[]>(PAIR_STORE, store => store.index('pair').getAll(pair))
+  ));
+  return results.flat();
+};
+
+const MAX_PAIR_EFFECTS = 8;
+const MAX_MECHANISMS = 12;
+const MAX_NEIGHBORS = 10;
+
+/**
+ * Builds an evidence-backed subgraph for a drug list purely from imported datasets:
+ * pair-specific side effects (TWOSIDES), DrugBank interaction notes, shared targets/enzymes/
+ * transporters and single-drug side effects (SIDER) reported for more than one input drug.
+ */
+export const buildEvidenceSubgraph = async (drugs: string[]): Promise<AnalysisResult> => {
+  if ((await readStore(NODE_STORE, store => store.count())) === 0) {
+    throw new Error('The local knowledge store is empty. Import TWOSIDES, SIDER or DrugBank files first.');
+  }
+
+  const resolved = await Promise.all(drugs.map(async d => ({ name: d, id: await findDrugId(d) })));
+  const drugIds = Array.from(new Set(resolved.flatMap(r => (r.id ? [r.id] : []))));
+  const missing = resolved.filter(r => !r.id).map(r => r.name);
+  if (drugIds.length === 0) {
+    throw new Error(`None of these drugs were found in the imported datasets: ${drugs.join(', ')}.`);
+  }
+  // Pair records and shared mechanisms both need a second drug; one alone would give a bare node
+  if (drugIds.length < 2) {
+    throw new PredictionError(
+      'invalid_input',
+      `Only one of these drugs was found in the imported datasets. Not found: ${missing.length > 0 ? missing.join(', ') : 'none (duplicate entries)'}.`
+    );
+  }
+
+  const included = new Set(drugIds);
+  const links: GraphLink[] = [];
+  // The same edge may come from several datasets; keep one link and collect their evidence
+  const pushLink = (l: GraphLink, evidence: Evidence) => {
+    const existing = links.find(x => x.source === l.source && x.target === l.target && x.type === l.type);
+    if (!existing) links.push({ source: l.source, target: l.target, type: l.type, strength: l.strength, evidence: [evidence] });
+    else if (!existing.evidence?.some(e => e.identifier === evidence.identifier && e.quote === evidence.quote)) {
+      existing.evidence = [...(existing.evidence ?? []), evidence];
+    }
+  };
+
+  // Pair-specific evidence
+  const pairEffects = (await getPairEffects(drugIds)).sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+  const sideEffectPairs = pairEffects.filter(p => p.sideEffect).slice(0, MAX_PAIR_EFFECTS);
+  const interactionNotes = pairEffects.filter(p => p.description && !p.sideEffect);
+
+  sideEffectPairs.forEach(p => {
+    included.add(p.sideEffect!);
+    p.drugs.forEach(d => pushLink({ source: d, target: p.sideEffect!, type: 'associated_with', strength: p.score }, datasetEvidence(p.dataset)));
+  });
+  interactionNotes.forEach(p =>
+    pushLink({ source: p.drugs[0], target: p.drugs[1], type: 'interacts_with' }, datasetEvidence(p.dataset, p.description))
+  );
+
+  // Mechanisms and mono side effects touched by more than one input drug
+  const usage = new Map<string, StoredLink[]>();
+  const outgoing = await Promise.all(drugIds.map(d =>
+    readStore<StoredLink[]>(LINK_STORE, store => store.index('source').getAll(d))
+  ));
+  outgoing.flat().forEach(l => pushIndexed(usage, l.target, l));
+  Array.from(usage.entries())
+    .filter(([id, ls]) => !included.has(id) && new Set(ls.map(l => l.source)).size > 1)
+    .sort((a, b) => b[1].length - a[1].length)
+    .slice(0, MAX_MECHANISMS)
+    .forEach(([id, ls]) => {
+      included.add(id);
+      ls.forEach(l => pushLink(l, datasetEvidence(l.dataset)));
+    });
+
+  // An interrupted import can leave pair records and links whose entities were never written
+  const nodesById = new Map<string, GraphNode>();
+  (await Promise.all(Array.from(included).map(getStoredNode))).forEach(n => { if (n) nodesById.set(n.id, n); });
+  const storedLinks = links.filter(l => nodesById.has(l.source) && nodesById.has(l.target));
+  const nodes: GraphNode[] = Array.from(nodesById.values()).map(node => {
+    const degree = storedLinks.filter(l => l.source === node.id || l.target === node.id).length;
+    return { ...node, val: node.type === NodeType.DRUG ? 7 : Math.min(10, 3 + degree) };
+  });
+
+  const reportedPairs = sideEffectPairs.filter(p => nodesById.has(p.sideEffect!));
+  const predictions: InteractionPrediction[] = reportedPairs.map(p => ({
+    sideEffect: nodesById.get(p.sideEffect!)?.label ?? p.sideEffect!,
+    nodeId: p.sideEffect,
+    probability: p.score ?? 0,
+    description: `Reported for ${p.drugs.map(d => nodesById.get(d)?.label ?? d).join(' + ')} in ${p.dataset}.`,
+    evidence: [datasetEvidence(p.dataset)]
+  }));
+
+  const summary = [
+    `Evidence subgraph assembled from locally imported datasets for ${drugIds.map(d => nodesById.get(d)?.label ?? d).join(', ')}.`,
+    reportedPairs.length > 0
+      ? `${reportedPairs.length} pair-specific adverse event signal(s) found.`
+      : 'No pair-specific adverse event reports were found.',
+    ...interactionNotes.slice(0, 3).map(p => p.description!),
+    missing.length > 0 ? `Not found in the imported datasets: ${missing.join(', ')}.` : ''
+  ].filter(Boolean).join(' ');
+
+  return { nodes, links: storedLinks, predictions, summary };
+};
+
+// Graphs from other providers use their own ids; those nodes are found by the canonical id of their label
+const findStoredId = async (node: GraphNode): Promise<string | undefined> => {
+  if (await getStoredNode(node.id)) return node.id;
+  if (node.type === NodeType.DRUG) return findDrugId(node.label);
+  const id = entityId(node.type, node.label);
+  return (await getStoredNode(id)) ? id : undefined;
+};
+
+/**
+ * Stored neighbors of one graph node that the graph does not show yet, preferring those linked to
+ * more of the graph's entities. Returns them with every stored link between them and the graph,
+ * with endpoints translated to the graph's node ids. Only the links of the graph's own entities
+ * are read, so the cost follows the size of the graph rather than of the store.
+ */
+export const expandFromStore = async (node: GraphNode, _drugs: string[], graph: GraphNeighborhood): Promise<GraphNeighborhood> => {
+  const storedId = await findStoredId(node);
+  if (!storedId) {
+    throw new Error(`"${node.label}" was not found in the imported datasets.`);
+  }
+
+  const graphIds = new Map<string, string>();
+  const storedIds = await Promise.all(graph.nodes.map(findStoredId));
+  graph.nodes.forEach((n, i) => {
+    const id = storedIds[i];
+    if (id && !graphIds.has(id)) graphIds.set(id, n.id);
+  });
+  graphIds.set(storedId, node.id);
+
+  const otherEnd = (l: StoredLink, id: string) => (l.source === id ? l.target : l.source);
+  const candidates = new Set((await getStoredLinks(storedId)).map(l => otherEnd(l, storedId)).filter(id => !graphIds.has(id)));
+  // Each link between a candidate and the graph shows up once, in the list of its graph endpoint
+  const linksByCandidate = new Map<string, StoredLink[]>();
+  (await Promise.all(Array.from(graphIds.keys()).map(getStoredLinks))).flat().forEach(l => {
+    const candidate = candidates.has(l.source) ? l.source : candidates.has(l.target) ? l.target : null;
+    if (candidate) pushIndexed(linksByCandidate, candidate, l);
+  });
+  const neighbors = Array.from(linksByCandidate, ([id, links]) => ({ id, links }))
+    .sort((a, b) => b.links.length - a.links.length)
+    .slice(0, MAX_NEIGHBORS);
+
+  const toGraphId = (id: string) => graphIds.get(id) ?? id;
+  const links: GraphLink[] = neighbors.flatMap(n => n.links).map(l => ({
+    source: toGraphId(l.source),
+    target: toGraphId(l.target),
+    type: l.type,
+    strength: l.strength,
+    evidence: [datasetEvidence(l.dataset)]
+  }));
+  const stored = await Promise.all(neighbors.map(n => getStoredNode(n.id)));
+  const nodes: GraphNode[] = neighbors.flatMap((n, i) => {
+    const node = stored[i];
+    if (!node) return [];
+    return [{ ...node, val: node.type === NodeType.DRUG ? 7 : Math.min(10, 3 + n.links.length) }];
+  });
+  return { nodes, links };
+};
+
+export const knowledgeStoreProvider: PredictionProvider = {
+  id: 'knowledge',
+  label: 'Local Knowledge Store (TWOSIDES / SIDER / DrugBank)',
+  predict: buildEvidenceSubgraph,
+  expand: expandFromStore
+};
@@ -0,0 +1,84 @@
+import { AnalysisResult, GraphLink, GraphNeighborhood, GraphNode } from "../types";
+import { entityKey, mergeEvidence } from "./ensemble";
+
+export interface MergedNeighborhood {
+  result: AnalysisResult;
+  nodeIds: string[]; // Nodes added to the graph
+  links: [string, string][]; // Endpoints of the links added
+}
+
+const linkKey = (l: GraphLink) => `${l.source}|${l.target}|${l.type}`;
+
+// First id of the form `<id>-2`, `<id>-3`, … that is not taken yet
+const freshId = (id: string, taken: Set<string>) => {
+  let n = 2;
+  while (taken.has(`${id}-${n}`)) n++;
+  return `${id}-${n}`;
+};
+
+/**
+ * Merges a validated neighborhood into an analysis graph. Nodes the graph already has, by label
+ * (ignoring case and punctuation), are not added again; links to them are redirected to the
+ * existing node. An id alone does not make a match: providers number their nodes independently, so
+ * a new entity whose id is already taken gets a fresh one. Links the graph already has gain the
+ * neighborhood's evidence. Added nodes that end up without a link into the graph are left out.
+ */
+export const mergeNeighborhood = (result: AnalysisResult, neighborhood: GraphNeighborhood): MergedNeighborhood => {
+  const existingIds = new Set(result.nodes.map(n => n.id));
+  const keysById = new Map(result.nodes.map(n => [n.id, entityKey(n.label)]));
+  const idsByKey = new Map<string, string>();
+  result.nodes.forEach(n => { if (!idsByKey.has(entityKey(n.label))) idsByKey.set(entityKey(n.label), n.id); });
+  const taken = new Set([...existingIds, ...neighborhood.nodes.map(n => n.id)]);
+  const idMap = new Map<string, string>();
+  const candidates: GraphNode[] = [];
+
+  neighborhood.nodes.forEach(node => {
+    const key = entityKey(node.label);
+    const existing = keysById.get(node.id) === key ? node.id : idsByKey.get(key);
+    if (existing) {
+      idMap.set(node.id, existing);
+      return;
+    }
+    const id = existingIds.has(node.id) ? freshId(node.id, taken) : node.id;
+    taken.add(id);
+    if (id !== node.id) idMap.set(node.id, id);
+    idsByKey.set(key, id);
+    candidates.push({ ...node, id });
+  });
+
+  const links = [...result.links];
+  const indexByKey = new Map(links.map((l, i) => [linkKey(l), i]));
+  const addedLinks: GraphLink[] = [];
+
+  neighborhood.links.forEach(l => {
+    const link = { ...l, source: idMap.get(l.source) ?? l.source, target: idMap.get(l.target) ?? l.target };
+    if (link.source === link.target) return;
+    const index = indexByKey.get(linkKey(link));
+    if (index !== undefined) {
+      links[index] = { ...links[index], evidence: mergeEvidence(links[index].evidence, link.evidence) };
+      return;
+    }
+    indexByKey.set(linkKey(link), links.length);
+    links.push(link);
+    addedLinks.push(link);
+  });
+
+  // New nodes count as linked once a chain of added links leads to a node of the graph
+  const nodeIds = new Set(existingIds);
+  for (let grown = true; grown; ) {
+    grown = false;
+    addedLinks.forEach(({ source, target }) => {
+      if (nodeIds.has(source) === nodeIds.has(target)) return;
+      nodeIds.add(nodeIds.has(source) ? target : source);
+      grown = true;
+    });
+  }
+  const addedNodes = candidates.filter(n => nodeIds.has(n.id));
+  const kept = (l: GraphLink) => nodeIds.has(l.source) && nodeIds.has(l.target);
+
+  return {
+    result: { ...result, nodes: [...result.nodes, ...addedNodes], links: links.filter(kept) },
+    nodeIds: addedNodes.map(n => n.id),
+    links: addedLinks.filter(kept).map((l): [string, string] => [l.source, l.target])
+  };
+};
@@ -0,0 +1,53 @@
+import { GraphNode, NodeType } from "../types";
+
+export type NodeShape = 'circle' | 'square' | 'diamond' | 'triangle' | 'wye' | 'star' | 'cross';
+
+export interface NodeTypeStyle {
+  label: string;
+  color: string;
+  shape: NodeShape;
+}
+
+// Legend order; drugs and side effects keep the colors they always had
+export const NODE_TYPE_STYLES: Record<NodeType, NodeTypeStyle> = {
+  [NodeType.DRUG]: { label: 'Drug', color: '#a855f7', shape: 'circle' },
+  [NodeType.ENZYME]: { label: 'Enzyme', color: '#0ea5e9', shape: 'square' },
+  [NodeType.TRANSPORTER]: { label: 'Transporter', color: '#14b8a6', shape: 'diamond' },
+  [NodeType.RECEPTOR]: { label: 'Receptor / Channel', color: '#6366f1', shape: 'triangle' },
+  [NodeType.PATHWAY]: { label: 'Pathway', color: '#f59e0b', shape: 'wye' },
+  [NodeType.GENE]: { label: 'Gene / Variant', color: '#22c55e', shape: 'star' },
+  [NodeType.CONDITION]: { label: 'Condition', color: '#ec4899', shape: 'cross' },
+  [NodeType.PROTEIN]: { label: 'Target / Protein', color: '#3b82f6', shape: 'circle' },
+  [NodeType.SIDE_EFFECT]: { label: 'Side Effect', color: '#ef4444', shape: 'circle' }
+};
+
+export const NODE_TYPES = Object.keys(NODE_TYPE_STYLES) as NodeType[];
+
+export const nodeTypeStyle = (type: NodeType): NodeTypeStyle =>
+  NODE_TYPE_STYLES[type] ?? { label: type, color: '#94a3b8', shape: 'circle' };
+
+// Everything between the drugs and the outcomes they cause
+export const isMechanismType = (type: NodeType) => type !== NodeType.DRUG && type !== NodeType.SIDE_EFFECT;
+
+// Checked in order, so ion pumps such as "Na+/K+-ATPase" count as transporters rather than enzymes
+const LABEL_RULES: [NodeType, RegExp][] = [
+  [NodeType.GENE, /\*\d|\bHLA-|\brs\d{3,}|\b(gene|allele|variant|polymorphism|genotype)s?\b/i],
+  [NodeType.TRANSPORTER, /transporter|\bP-?gp\b|glycoprotein|\bABC[A-G]\d|\bSLC\d|\bOATP|\bOATs?\d|\bOCTs?\d|\bBCRP\b|\bMATE\d?|\bSERT\b|\bNET\b|\bDAT\b|\bpump\b|ATPase/i],
+  [NodeType.RECEPTOR, /receptor|channel|\bhERG\b|\bKCNH2\b|\b5-HT\d|\bP2Y\d+|adrenoceptor/i],
+  [NodeType.ENZYME, /\bCYP\d|\bUGT\d|\bCOX-?\d|\bMAO(-?[AB])?\b|\bVKORC1\b|\bACE\b|\bPTGS\d|cytochrome|enzyme|cyclooxygenase|\w*(reductase|oxidase|esterase|kinase|synthase|transferase|dehydrogenase|hydrolase|peptidase|protease)\b/i],
+  [NodeType.CONDITION, /impairment|insufficiency|\bpregnan|\b(renal|hepatic|kidney|liver) (disease|failure)\b/i],
+  [NodeType.PATHWAY, /pathway|cascade|signal(l)?ing|synthesis|aggregation|coagulation|repolari[sz]ation|reuptake|filtration|\bsystem\b/i]
+];
+
+/**
+ * Best-effort specific type for a mechanism node that only says PROTEIN (older sessions, local
+ * knowledge imports, models answering with the old enum). Labels that match no rule stay PROTEIN.
+ */
+export const inferNodeType = (label: string): NodeType =>
+  LABEL_RULES.find(([, pattern]) => pattern.test(label))?.[0] ?? NodeType.PROTEIN;
+
+export const refineNode = (node: GraphNode): GraphNode => {
+  if (node.type !== NodeType.PROTEIN) return node;
+  const type = inferNodeType(node.label);
+  return type === NodeType.PROTEIN ? node : { ...node, type };
+};
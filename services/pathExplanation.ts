@@ -0,0 +1,144 @@
+import { AnalysisResult, GraphLink, GraphNode, InteractionPrediction, NodeType } from "../types";
+import { entityKey } from "./ensemble";
+import { linkMechanism, relationDefinition } from "./relationVocabulary";
+
+// Longer chains rarely explain anything; the search stops once MAX_PATHS are found
+const MAX_PATH_LENGTH = 5;
+const MAX_PATHS = 12;
+
+export interface PathStep {
+  from: string;
+  to: string;
+  links: GraphLink[]; // Every edge between the two nodes, in either direction
+}
+
+export interface MechanismPath {
+  nodeIds: string[]; // Starts at an input drug, ends at the outcome
+  steps: PathStep[];
+}
+
+export interface PathDescription {
+  chain: string; // "Warfarin → CYP2C9 ← Aspirin → Platelet aggregation → Bleeding"
+  walkthrough: string[]; // One sentence per edge
+}
+
+const words = (label: string) => label.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length >= 4);
+
+/**
+ * The SIDE_EFFECT node a prediction refers to, by the node id it carries. Sessions recorded before
+ * predictions named their node are matched by label instead. Labels rarely match exactly
+ * ("Bleeding risk" vs "Major Bleeding"), so containment and shared words are tried after an exact
+ * normalized match.
+ */
+export const findOutcomeNode = (prediction: InteractionPrediction, nodes: GraphNode[]): GraphNode | undefined => {
+  const outcomes = nodes.filter(n => n.type === NodeType.SIDE_EFFECT);
+  if (prediction.nodeId) {
+    const referenced = outcomes.find(n => n.id === prediction.nodeId);
+    if (referenced) return referenced;
+  }
+  const key = entityKey(prediction.sideEffect);
+  const exact = outcomes.find(n => entityKey(n.label) === key || entityKey(n.id) === key);
+  if (exact) return exact;
+  const contained = outcomes.find(n => {
+    const nodeKey = entityKey(n.label);
+    return nodeKey.length > 0 && (nodeKey.includes(key) || key.includes(nodeKey));
+  });
+  if (contained) return contained;
+
+  const predictionWords = new Set(words(prediction.sideEffect));
+  let best: GraphNode | undefined;
+  let bestOverlap = 0;
+  outcomes.forEach(n => {
+    const overlap = words(n.label).filter(w => predictionWords.has(w)).length;
+    if (overlap > bestOverlap) {
+      best = n;
+      bestOverlap = overlap;
+    }
+  });
+  return best;
+};
+
+/**
+ * The shortest simple paths from the session's input drugs to an outcome node, following edges in
+ * either direction so that shared mechanisms count ("Warfarin → CYP2C9 ← Aspirin"). Paths never
+ * run through other outcomes and are at most MAX_PATH_LENGTH edges long. The search runs breadth
+ * first and only takes steps from which the outcome is still within reach, so it ends as soon as
+ * MAX_PATHS paths are found. Drug nodes not matching any input drug only serve as start points
+ * when none does.
+ */
+export const findMechanismPaths = (result: AnalysisResult, outcomeId: string, drugs: string[]): MechanismPath[] => {
+  const typeById = new Map(result.nodes.map(n => [n.id, n.type]));
+  const adjacency = new Map<string, Map<string, GraphLink[]>>();
+  const connect = (a: string, b: string, link: GraphLink) => {
+    if (!adjacency.has(a)) adjacency.set(a, new Map());
+    const edges = adjacency.get(a)!;
+    edges.set(b, [...(edges.get(b) ?? []), link]);
+  };
+  result.links.forEach(link => {
+    if (link.source === link.target || !typeById.has(link.source) || !typeById.has(link.target)) return;
+    connect(link.source, link.target, link);
+    connect(link.target, link.source, link);
+  });
+
+  const passable = (id: string) => id === outcomeId || typeById.get(id) !== NodeType.SIDE_EFFECT;
+
+  // Edges between each node and the outcome, never passing through another outcome
+  const distance = new Map<string, number>([[outcomeId, 0]]);
+  const frontier = [outcomeId];
+  for (let i = 0; i < frontier.length; i++) {
+    const id = frontier[i];
+    adjacency.get(id)?.forEach((_, next) => {
+      if (distance.has(next) || !passable(next)) return;
+      distance.set(next, distance.get(id)! + 1);
+      frontier.push(next);
+    });
+  }
+  const reachable = (id: string, edgesSoFar: number) => edgesSoFar + (distance.get(id) ?? Infinity) <= MAX_PATH_LENGTH;
+
+  const inputKeys = new Set(drugs.map(entityKey));
+  const drugNodes = result.nodes.filter(n => n.type === NodeType.DRUG);
+  const inputNodes = drugNodes.filter(n => inputKeys.has(entityKey(n.label)));
+
+  const paths: MechanismPath[] = [];
+  const queue = (inputNodes.length > 0 ? inputNodes : drugNodes).filter(n => reachable(n.id, 0)).map(n => [n.id]);
+  for (let i = 0; i < queue.length && paths.length < MAX_PATHS; i++) {
+    const nodeIds = queue[i];
+    const current = nodeIds[nodeIds.length - 1];
+    if (current === outcomeId) {
+      paths.push({
+        nodeIds,
+        steps: nodeIds.slice(1).map((to, j) => ({ from: nodeIds[j], to, links: adjacency.get(nodeIds[j])!.get(to)! }))
+      });
+      continue;
+    }
+    adjacency.get(current)?.forEach((_, next) => {
+      if (nodeIds.includes(next) || !passable(next) || !reachable(next, nodeIds.length)) return;
+      queue.push([...nodeIds, next]);
+    });
+  }
+
+  // A path against the direction of its edges explains less than one along them
+  const backwardSteps = (path: MechanismPath) => path.steps.filter(s => !s.links.some(l => l.source === s.from)).length;
+  return paths.sort((a, b) => a.steps.length - b.steps.length || backwardSteps(a) - backwardSteps(b));
+};
+
+export const describePath = (path: MechanismPath, nodes: GraphNode[]): PathDescription => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const label = (id: string) => byId.get(id)?.label ?? id;
+
+  const arrows = path.steps.map(step => {
+    const forward = step.links.some(l => l.source === step.from);
+    const backward = step.links.some(l => l.source === step.to);
+    return forward && backward ? '↔' : forward ? '→' : '←';
+  });
+  const chain = path.nodeIds.map((id, i) => (i === 0 ? label(id) : `${arrows[i - 1]} ${label(id)}`)).join(' ');
+
+  const walkthrough = path.steps.flatMap(step =>
+    step.links.map(link => {
+      const mechanism = link.mechanism ?? linkMechanism(link.type, byId.get(link.target));
+      const tag = mechanism === 'unspecified' ? '' : ` (${mechanism})`;
+      return `${label(link.source)} ${relationDefinition(link.type).label} ${label(link.target)}${tag}.`;
+    })
+  );
+  return { chain, walkthrough };
+};
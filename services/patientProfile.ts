@@ -0,0 +1,42 @@
+import { PatientProfile, PharmacogeneticGene } from "../types";
+
+export const PHARMACOGENETIC_GENES: PharmacogeneticGene[] = ['CYP2D6', 'CYP2C9', 'CYP2C19', 'CYP3A5'];
+
+// Drops unset fields, normal phenotypes and blank comorbidities so that equivalent profiles compare equal
+export const normalizePatientProfile = (profile: PatientProfile | undefined): PatientProfile => {
+  if (!profile) return {};
+  const normalized: PatientProfile = {};
+  if (profile.age !== undefined && Number.isFinite(profile.age)) normalized.age = profile.age;
+  if (profile.weightKg !== undefined && Number.isFinite(profile.weightKg)) normalized.weightKg = profile.weightKg;
+  if (profile.egfr !== undefined && Number.isFinite(profile.egfr)) normalized.egfr = profile.egfr;
+  if (profile.hepaticImpairment && profile.hepaticImpairment !== 'none') normalized.hepaticImpairment = profile.hepaticImpairment;
+  if (profile.pregnant) normalized.pregnant = true;
+  const phenotypes = PHARMACOGENETIC_GENES
+    .filter(gene => profile.phenotypes?.[gene] && profile.phenotypes[gene] !== 'normal')
+    .map(gene => [gene, profile.phenotypes![gene]!] as const);
+  if (phenotypes.length > 0) normalized.phenotypes = Object.fromEntries(phenotypes);
+  const comorbidities = Array.from(new Set((profile.comorbidities ?? []).map(c => c.trim()).filter(Boolean)));
+  if (comorbidities.length > 0) normalized.comorbidities = comorbidities.sort((a, b) => a.localeCompare(b));
+  return normalized;
+};
+
+export const isEmptyPatientProfile = (profile: PatientProfile | undefined) =>
+  Object.keys(normalizePatientProfile(profile)).length === 0;
+
+// Stable identity for cache keys; empty for no profile so existing cache entries stay valid
+export const patientProfileKey = (profile: PatientProfile | undefined): string =>
+  isEmptyPatientProfile(profile) ? '' : JSON.stringify(normalizePatientProfile(profile));
+
+// Short human readable facts, used for the prompt and for chips in the UI
+export const describePatientProfile = (profile: PatientProfile | undefined): string[] => {
+  const p = normalizePatientProfile(profile);
+  const facts: string[] = [];
+  if (p.age !== undefined) facts.push(`${p.age} years`);
+  if (p.weightKg !== undefined) facts.push(`${p.weightKg} kg`);
+  if (p.egfr !== undefined) facts.push(`eGFR ${p.egfr} mL/min/1.73 m²`);
+  if (p.hepaticImpairment) facts.push(`${p.hepaticImpairment} hepatic impairment`);
+  if (p.pregnant) facts.push('pregnant');
+  Object.entries(p.phenotypes ?? {}).forEach(([gene, phenotype]) => facts.push(`${gene} ${phenotype} metabolizer`));
+  (p.comorbidities ?? []).forEach(c => facts.push(c));
+  return facts;
+};
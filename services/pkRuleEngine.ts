@@ -0,0 +1,168 @@
+import { AnalysisResult, GraphLink, GraphNode, NodeType } from "../types";
+import { PK_ENZYMES, PK_INTERACTION_TABLE, PK_NAME_ALIASES, PkEnzyme, PkStrength } from "../data/pkInteractionTable";
+
+export type PkRole = 'substrate' | 'inhibitor' | 'inducer';
+// The table is curated, not exhaustive: a claim it does not cover is unverified rather than wrong
+export type PkVerdict = 'confirmed' | 'contradicted' | 'unverified';
+
+export interface PkProfile {
+  substrateOf: PkEnzyme[];
+  inhibits: Partial<Record<PkEnzyme, PkStrength>>;
+  induces: Partial<Record<PkEnzyme, PkStrength>>;
+}
+
+// Interaction the rule table predicts for a drug pair, independent of the model output
+export interface ExpectedPkInteraction {
+  perpetrator: string;
+  victim: string;
+  enzyme: PkEnzyme;
+  mechanism: 'inhibition' | 'induction';
+  strength: PkStrength;
+  effect: string;
+  mentionedInGraph: boolean;
+}
+
+export interface PkLinkCheck {
+  link: GraphLink;
+  drug: string;
+  enzyme: PkEnzyme;
+  role: PkRole;
+  verdict: PkVerdict;
+  note: string;
+}
+
+export interface PkCrossCheckReport {
+  checks: PkLinkCheck[];
+  expected: ExpectedPkInteraction[];
+}
+
+export const normalizePkName = (name: string) => {
+  const key = name.trim().toLowerCase().replace(/\s+/g, ' ');
+  return PK_NAME_ALIASES[key] ?? key;
+};
+
+// Per-drug view of the enzyme-centric table, built once
+const PROFILES = new Map<string, PkProfile>();
+const profileFor = (name: string): PkProfile => {
+  let profile = PROFILES.get(name);
+  if (!profile) {
+    profile = { substrateOf: [], inhibits: {}, induces: {} };
+    PROFILES.set(name, profile);
+  }
+  return profile;
+};
+
+PK_ENZYMES.forEach(enzyme => {
+  const entry = PK_INTERACTION_TABLE[enzyme];
+  entry.substrates.forEach(d => profileFor(d).substrateOf.push(enzyme));
+  (Object.keys(entry.inhibitors) as PkStrength[]).forEach(strength =>
+    entry.inhibitors[strength].forEach(d => { profileFor(d).inhibits[enzyme] = strength; }));
+  (Object.keys(entry.inducers) as PkStrength[]).forEach(strength =>
+    entry.inducers[strength].forEach(d => { profileFor(d).induces[enzyme] = strength; }));
+});
+
+export const getPkProfile = (drug: string): PkProfile | undefined => PROFILES.get(normalizePkName(drug));
+
+// Maps free-text node labels such as "Cytochrome P450 3A4", "CYP 2D6" or "ABCB1" to a table enzyme
+export const resolveEnzyme = (label: string): PkEnzyme | null => {
+  const text = label.toLowerCase();
+  if (/p-?gp\b|p-glycoprotein|abcb1|mdr1/.test(text)) return 'P-gp';
+  const match = text.match(/(?:cyp|cytochrome\s*p450)\s*-?\s*(\d[a-z]\d{1,2})/);
+  if (!match) return null;
+  const enzyme = `CYP${match[1].toUpperCase()}` as PkEnzyme;
+  return PK_ENZYMES.includes(enzyme) ? enzyme : null;
+};
+
+// Interprets an edge label from the drug's point of view
+const resolveRole = (type: string, drugIsSource: boolean): PkRole | null => {
+  const t = type.toLowerCase();
+  if (drugIsSource) {
+    if (/inhibit|block/.test(t)) return 'inhibitor';
+    if (/induc/.test(t)) return 'inducer';
+    if (/substrate|metaboli[sz]ed|cleared|transported/.test(t)) return 'substrate';
+  } else if (/metaboli[sz]es|transports|clears/.test(t)) {
+    return 'substrate';
+  }
+  return null;
+};
+
+const checkRole = (drug: string, enzyme: PkEnzyme, role: PkRole): Pick<PkLinkCheck, 'verdict' | 'note'> => {
+  const profile = getPkProfile(drug);
+  if (!profile) {
+    return { verdict: 'unverified', note: `${drug} is not in the bundled PK table.` };
+  }
+  const inhibition = profile.inhibits[enzyme];
+  const induction = profile.induces[enzyme];
+  switch (role) {
+    case 'inhibitor':
+      if (inhibition) return { verdict: 'confirmed', note: `Listed as a ${inhibition} ${enzyme} inhibitor.` };
+      if (induction) return { verdict: 'contradicted', note: `Listed as a ${induction} ${enzyme} inducer, not an inhibitor.` };
+      return { verdict: 'unverified', note: `Not listed as a ${enzyme} inhibitor in the table.` };
+    case 'inducer':
+      if (induction) return { verdict: 'confirmed', note: `Listed as a ${induction} ${enzyme} inducer.` };
+      if (inhibition) return { verdict: 'contradicted', note: `Listed as a ${inhibition} ${enzyme} inhibitor, not an inducer.` };
+      return { verdict: 'unverified', note: `Not listed as a ${enzyme} inducer in the table.` };
+    case 'substrate':
+      if (profile.substrateOf.includes(enzyme)) return { verdict: 'confirmed', note: `Listed as a ${enzyme} substrate.` };
+      return { verdict: 'unverified', note: `Not listed as a ${enzyme} substrate in the table.` };
+  }
+};
+
+// All perpetrator → victim interactions implied by the table for a drug list
+export const deriveExpectedInteractions = (drugs: string[]): Omit<ExpectedPkInteraction, 'mentionedInGraph'>[] => {
+  const expected: Omit<ExpectedPkInteraction, 'mentionedInGraph'>[] = [];
+  drugs.forEach(perpetrator => {
+    const perp = getPkProfile(perpetrator);
+    if (!perp) return;
+    drugs.forEach(victim => {
+      if (victim === perpetrator) return;
+      const vic = getPkProfile(victim);
+      if (!vic) return;
+      vic.substrateOf.forEach(enzyme => {
+        const inhibition = perp.inhibits[enzyme];
+        const induction = perp.induces[enzyme];
+        if (inhibition) {
+          expected.push({ perpetrator, victim, enzyme, mechanism: 'inhibition', strength: inhibition, effect: `↑ ${victim} exposure` });
+        }
+        if (induction) {
+          expected.push({ perpetrator, victim, enzyme, mechanism: 'induction', strength: induction, effect: `↓ ${victim} exposure` });
+        }
+      });
+    });
+  });
+  return expected;
+};
+
+/**
+ * Cross-checks every drug–enzyme edge in a result against the rule table and lists the
+ * interactions the table expects, noting whether the graph mentions the perpetrator's role.
+ */
+export const crossCheckPkClaims = (result: AnalysisResult, drugs: string[]): PkCrossCheckReport => {
+  const nodesById = new Map<string, GraphNode>(result.nodes.map(n => [n.id, n]));
+  const checks: PkLinkCheck[] = [];
+
+  result.links.forEach(link => {
+    const source = nodesById.get(link.source);
+    const target = nodesById.get(link.target);
+    if (!source || !target) return;
+
+    const drugIsSource = source.type === NodeType.DRUG && target.type !== NodeType.DRUG;
+    const drugIsTarget = target.type === NodeType.DRUG && source.type !== NodeType.DRUG;
+    if (!drugIsSource && !drugIsTarget) return;
+
+    const drugNode = drugIsSource ? source : target;
+    const enzyme = resolveEnzyme((drugIsSource ? target : source).label);
+    const role = resolveRole(link.type, drugIsSource);
+    if (!enzyme || !role) return;
+
+    checks.push({ link, drug: drugNode.label, enzyme, role, ...checkRole(drugNode.label, enzyme, role) });
+  });
+
+  const claimed = new Set(checks.map(c => `${normalizePkName(c.drug)}|${c.enzyme}|${c.role}`));
+  const expected = deriveExpectedInteractions(drugs).map(e => ({
+    ...e,
+    mentionedInGraph: claimed.has(`${normalizePkName(e.perpetrator)}|${e.enzyme}|${e.mechanism === 'inhibition' ? 'inhibitor' : 'inducer'}`)
+  }));
+
+  return { checks, expected };
+};
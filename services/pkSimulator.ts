@@ -0,0 +1,230 @@
+import { DrugRegimen, DoseRoute } from "../types";
+import { PK_PARAMETERS, PkParameters } from "../data/pkParameters";
+import { PkEnzyme, PkStrength } from "../data/pkInteractionTable";
+import { deriveExpectedInteractions, getPkProfile, normalizePkName } from "./pkRuleEngine";
+
+const DEFAULT_WEIGHT_KG = 70;
+const STEP_HOURS = 0.05;
+const SAMPLE_EVERY_HOURS = 0.5;
+// Assumed share of clearance for a pathway the rule table lists but the parameter set does not quantify
+const DEFAULT_FM = 0.5;
+// Induction builds up with enzyme turnover rather than instantly
+const INDUCTION_ONSET_HALF_LIFE_HOURS = 72;
+
+// Remaining pathway activity chosen so that a sensitive substrate (fm = 0.9) reproduces the FDA
+// strength classes: strong inhibitors ≥5-fold AUC, moderate 2–5-fold, weak 1.25–2-fold; strong
+// inducers ≥80% AUC decrease, moderate 50–80%, weak 20–50%.
+const INHIBITION_ACTIVITY: Record<PkStrength, number> = { strong: 0.11, moderate: 0.33, weak: 0.63 };
+const INDUCTION_ACTIVITY: Record<PkStrength, number> = { strong: 5.4, moderate: 3.1, weak: 1.5 };
+
+export interface ResolvedRegimen {
+  doseMg: number;
+  route: DoseRoute;
+  intervalHours: number;
+  startHour: number;
+}
+
+export interface ExposureMetrics {
+  auc: number; // mg·h/L over the simulated window
+  cmax: number; // mg/L
+  tmax: number; // h
+}
+
+export interface PkModifier {
+  perpetrator: string;
+  enzyme: PkEnzyme;
+  mechanism: 'inhibition' | 'induction';
+  strength: PkStrength;
+  fm: number;
+}
+
+export interface SimulatedDrug {
+  drug: string;
+  regimen: ResolvedRegimen;
+  baseline: number[]; // Concentrations (mg/L) without the other drugs, one per sample time
+  combined: number[]; // Concentrations with the regimen's inhibitors and inducers
+  baselineMetrics: ExposureMetrics;
+  combinedMetrics: ExposureMetrics;
+  modifiers: PkModifier[];
+}
+
+export interface PkSimulation {
+  times: number[]; // Sample times in hours
+  drugs: SimulatedDrug[];
+  unsupported: string[]; // Drugs without bundled PK parameters
+}
+
+export const getPkParameters = (drug: string): PkParameters | undefined => PK_PARAMETERS[normalizePkName(drug)];
+
+export const isRegimenSet = (regimen: DrugRegimen | undefined) =>
+  Boolean(regimen) && Object.values(regimen!).some(v => v !== undefined);
+
+export const resolveRegimen = (regimen: DrugRegimen | undefined, params: PkParameters): ResolvedRegimen => ({
+  doseMg: regimen?.doseMg ?? params.typicalDoseMg,
+  route: regimen?.route ?? 'oral',
+  intervalHours: regimen?.intervalHours ?? params.typicalIntervalHours,
+  startHour: regimen?.startHour ?? 0
+});
+
+const doseTimes = (regimen: ResolvedRegimen, durationHours: number): number[] => {
+  if (regimen.intervalHours <= 0) return regimen.startHour < durationHours ? [regimen.startHour] : [];
+  const times: number[] = [];
+  for (let t = regimen.startHour; t < durationHours; t += regimen.intervalHours) times.push(t);
+  return times;
+};
+
+/**
+ * Integrates a one- or two-compartment model with first-order absorption (RK4, fixed step).
+ * `clearanceScale(t)` multiplies the elimination rate, which is how interactions enter the model.
+ * Returns concentrations in the central compartment at every sample time.
+ */
+export const simulateConcentrations = (
+  params: PkParameters,
+  regimen: ResolvedRegimen,
+  weightKg: number,
+  durationHours: number,
+  clearanceScale: (t: number) => number = () => 1
+): number[] => {
+  const volume = params.volumeLPerKg * weightKg;
+  const centralVolume = volume * (params.twoCompartment?.centralFraction ?? 1);
+  const k12 = params.twoCompartment?.k12 ?? 0;
+  const k21 = params.twoCompartment?.k21 ?? 0;
+  // Clearance from the terminal half-life and total volume; k10 refers to the central compartment
+  const clearance = (Math.LN2 * volume) / params.halfLifeHours;
+  const k10 = clearance / centralVolume;
+  const ka = params.absorptionRate;
+  const intravenous = regimen.route === 'iv';
+  const availableDose = regimen.doseMg * (regimen.route === 'oral' ? params.bioavailability : 1);
+
+  const doses = doseTimes(regimen, durationHours);
+  let nextDose = 0;
+  let depot = 0;
+  let central = 0;
+  let peripheral = 0;
+
+  const derivatives = (d: number, c: number, p: number, k: number) => [
+    -ka * d,
+    ka * d - (k + k12) * c + k21 * p,
+    k12 * c - k21 * p
+  ];
+
+  const samples: number[] = [];
+  const stepsPerSample = Math.round(SAMPLE_EVERY_HOURS / STEP_HOURS);
+  const totalSteps = Math.round(durationHours / STEP_HOURS);
+  for (let step = 0; step <= totalSteps; step++) {
+    const t = step * STEP_HOURS;
+    while (nextDose < doses.length && doses[nextDose] <= t + 1e-9) {
+      if (intravenous) central += availableDose;
+      else depot += availableDose;
+      nextDose++;
+    }
+    if (step % stepsPerSample === 0) samples.push(central / centralVolume);
+
+    const k = k10 * clearanceScale(t);
+    const h = STEP_HOURS;
+    const k1 = derivatives(depot, central, peripheral, k);
+    const k2 = derivatives(depot + (h / 2) * k1[0], central + (h / 2) * k1[1], peripheral + (h / 2) * k1[2], k);
+    const k3 = derivatives(depot + (h / 2) * k2[0], central + (h / 2) * k2[1], peripheral + (h / 2) * k2[2], k);
+    const k4 = derivatives(depot + h * k3[0], central + h * k3[1], peripheral + h * k3[2], k);
+    depot += (h / 6) * (k1[0] + 2 * k2[0] + 2 * k3[0] + k4[0]);
+    central += (h / 6) * (k1[1] + 2 * k2[1] + 2 * k3[1] + k4[1]);
+    peripheral += (h / 6) * (k1[2] + 2 * k2[2] + 2 * k3[2] + k4[2]);
+  }
+  return samples;
+};
+
+export const exposureMetrics = (concentrations: number[], times: number[]): ExposureMetrics => {
+  let auc = 0;
+  let cmax = 0;
+  let tmax = 0;
+  concentrations.forEach((c, i) => {
+    if (i > 0) auc += ((c + concentrations[i - 1]) / 2) * (times[i] - times[i - 1]);
+    if (c > cmax) {
+      cmax = c;
+      tmax = times[i];
+    }
+  });
+  return { auc, cmax, tmax };
+};
+
+// CL(t)/CL₀ = Σ fmₑ·activityₑ(t) + (1 − Σ fmₑ); perpetrators act from their own start time.
+// Perpetrator concentrations are not modeled: each acts with the fixed strength of its table class.
+const clearanceScaleFor = (modifiers: PkModifier[], starts: Map<string, number>) => (t: number) => {
+  const byEnzyme = new Map<PkEnzyme, { fm: number; activity: number }>();
+  modifiers.forEach(m => {
+    const entry = byEnzyme.get(m.enzyme) ?? { fm: m.fm, activity: 1 };
+    const elapsed = t - (starts.get(m.perpetrator) ?? 0);
+    if (elapsed >= 0) {
+      if (m.mechanism === 'inhibition') {
+        entry.activity *= INHIBITION_ACTIVITY[m.strength];
+      } else {
+        const onset = 1 - Math.pow(0.5, elapsed / INDUCTION_ONSET_HALF_LIFE_HOURS);
+        entry.activity *= 1 + (INDUCTION_ACTIVITY[m.strength] - 1) * onset;
+      }
+    }
+    byEnzyme.set(m.enzyme, entry);
+  });
+  let affected = 0;
+  let scale = 0;
+  byEnzyme.forEach(({ fm, activity }) => {
+    affected += fm;
+    scale += fm * activity;
+  });
+  return scale + Math.max(0, 1 - affected);
+};
+
+/**
+ * Simulates every drug of a regimen that has bundled PK parameters, once on its own and once
+ * with the inhibitors and inducers the CYP450/P-gp rule table finds among the other drugs.
+ */
+export const simulateRegimen = (
+  drugs: string[],
+  regimens: (DrugRegimen | undefined)[] = [],
+  options: { weightKg?: number; durationHours?: number } = {}
+): PkSimulation => {
+  const weightKg = options.weightKg ?? DEFAULT_WEIGHT_KG;
+  const durationHours = options.durationHours ?? 168;
+  const times = Array.from({ length: Math.round(durationHours / SAMPLE_EVERY_HOURS) + 1 }, (_, i) => i * SAMPLE_EVERY_HOURS);
+
+  const starts = new Map<string, number>();
+  drugs.forEach((drug, i) => starts.set(drug, regimens[i]?.startHour ?? 0));
+  const expected = deriveExpectedInteractions(drugs);
+
+  const simulated: SimulatedDrug[] = [];
+  const unsupported: string[] = [];
+  drugs.forEach((drug, i) => {
+    const params = getPkParameters(drug);
+    if (!params) {
+      unsupported.push(drug);
+      return;
+    }
+    const regimen = resolveRegimen(regimens[i], params);
+    const substrateOf = getPkProfile(drug)?.substrateOf ?? [];
+    const modifiers: PkModifier[] = expected
+      .filter(e => e.victim === drug)
+      .map(e => ({
+        perpetrator: e.perpetrator,
+        enzyme: e.enzyme,
+        mechanism: e.mechanism,
+        strength: e.strength,
+        fm: params.fm?.[e.enzyme] ?? (substrateOf.includes(e.enzyme) ? DEFAULT_FM : 0)
+      }))
+      .filter(m => m.fm > 0);
+
+    const baseline = simulateConcentrations(params, regimen, weightKg, durationHours);
+    const combined = modifiers.length > 0
+      ? simulateConcentrations(params, regimen, weightKg, durationHours, clearanceScaleFor(modifiers, starts))
+      : baseline;
+    simulated.push({
+      drug,
+      regimen,
+      baseline,
+      combined,
+      baselineMetrics: exposureMetrics(baseline, times),
+      combinedMetrics: exposureMetrics(combined, times),
+      modifiers
+    });
+  });
+
+  return { times, drugs: simulated, unsupported };
+};
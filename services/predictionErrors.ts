@@ -0,0 +1,98 @@
+export type PredictionErrorKind =
+  | 'invalid_input'
+  | 'auth'
+  | 'quota'
+  | 'network'
+  | 'timeout'
+  | 'cancelled'
+  | 'malformed_output'
+  | 'safety_block'
+  | 'unknown';
+
+// Only transient failures are worth retrying automatically
+const RETRYABLE: PredictionErrorKind[] = ['network', 'quota'];
+
+export const ERROR_GUIDANCE: Record<PredictionErrorKind, { title: string; guidance: string }> = {
+  invalid_input: {
+    title: 'Check the input',
+    guidance: 'Correct the highlighted drug entries and run the prediction again.'
+  },
+  auth: {
+    title: 'Authentication failed',
+    guidance: 'The API key is missing, invalid or lacks access to this model. Set API_KEY in your .env file and restart the dev server, or switch to an offline provider with PREDICTION_PROVIDER=fixture.'
+  },
+  quota: {
+    title: 'Quota or rate limit reached',
+    guidance: 'The API rejected the request because of rate limits or exhausted quota. Wait a minute before retrying, or check the usage limits of your API project.'
+  },
+  network: {
+    title: 'Network problem',
+    guidance: 'The prediction service could not be reached. Check your internet connection, proxy or firewall and try again.'
+  },
+  timeout: {
+    title: 'Request timed out',
+    guidance: 'The model did not answer in time. Large drug combinations take longer; try again, analyze fewer drugs, or raise PREDICTION_TIMEOUT_MS.'
+  },
+  cancelled: {
+    title: 'Prediction cancelled',
+    guidance: 'The request was cancelled. Nothing was saved to the history.'
+  },
+  malformed_output: {
+    title: 'Unusable model output',
+    guidance: 'The model returned a response that is not a valid analysis. Re-running usually resolves this.'
+  },
+  safety_block: {
+    title: 'Blocked by safety filters',
+    guidance: 'The model declined to answer this request. Check the drug names for unusual wording and try again.'
+  },
+  unknown: {
+    title: 'Prediction failed',
+    guidance: 'An unexpected error occurred. Check the browser console for details and try again.'
+  }
+};
+
+export class PredictionError extends Error {
+  readonly kind: PredictionErrorKind;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(kind: PredictionErrorKind, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'PredictionError';
+    this.kind = kind;
+    this.retryable = RETRYABLE.includes(kind);
+    this.cause = cause;
+  }
+}
+
+export const isPredictionError = (error: unknown): error is PredictionError => error instanceof PredictionError;
+
+// Maps SDK, fetch and parsing failures onto the error taxonomy
+export const classifyError = (error: unknown): PredictionError => {
+  if (isPredictionError(error)) return error;
+
+  const message = (error instanceof Error && error.message) || String(error);
+  // SDK errors carry the HTTP status; anything else may be thrown, so check before reading it
+  const rawStatus = typeof error === 'object' && error !== null ? (error as { status?: unknown }).status : undefined;
+  const status = typeof rawStatus === 'number' ? rawStatus : undefined;
+
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new PredictionError('cancelled', 'The prediction was cancelled.', error);
+  }
+  if (status === 401 || status === 403 || /api[ _-]?key|permission[ _]denied|unauthenticated/i.test(message)) {
+    return new PredictionError('auth', message, error);
+  }
+  if (status === 429 || /resource[ _]exhausted|quota|rate limit/i.test(message)) {
+    return new PredictionError('quota', message, error);
+  }
+  if ((status !== undefined && status >= 500) || /failed to fetch|networkerror|network request failed|econn|etimedout|unavailable/i.test(message)) {
+    return new PredictionError('network', message, error);
+  }
+  if (error instanceof SyntaxError) {
+    return new PredictionError('malformed_output', `The model response was not valid JSON: ${message}`, error);
+  }
+  if (/safety|blocked|prohibited/i.test(message)) {
+    return new PredictionError('safety_block', message, error);
+  }
+  return new PredictionError('unknown', message, error);
+};
@@ -0,0 +1,321 @@
+import {
+  GenerationMetadata,
+  GraphNeighborhood,
+  GraphNode,
+  PatientProfile,
+  PredictOptions,
+  PredictionProvider,
+  PredictionProviderId,
+  RunSettings,
+  ValidationWarning
+} from "../types";
+import { geminiProvider } from "./geminiService";
+import { fixtureProvider } from "./fixtureService";
+import { gnnProvider } from "./gnnService";
+import { knowledgeStoreProvider } from "./knowledgeStore";
+import { ValidatedAnalysis, validateAnalysisResult } from "./resultValidator";
+import { getCachedAnalysis, putCachedAnalysis } from "./resultCache";
+import { PredictionError, classifyError } from "./predictionErrors";
+import { mergeEnsemble } from "./ensemble";
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n >= 0 ? n : fallback;
+};
+
+// Pro models routinely need 30–60 s for a multi-drug analysis
+export const DEFAULT_TIMEOUT_MS = readNumber(process.env.PREDICTION_TIMEOUT_MS, 90_000);
+export const DEFAULT_MAX_RETRIES = readNumber(process.env.PREDICTION_MAX_RETRIES, 2);
+const BACKOFF_BASE_MS = 1_000;
+export const DEFAULT_ENSEMBLE_SIZE = 5;
+// Ensemble members are sampled hotter than single runs so that their disagreement reflects uncertainty
+const ENSEMBLE_TEMPERATURE = 0.7;
+
+const PROVIDERS: Record<PredictionProviderId, PredictionProvider> = {
+  gemini: geminiProvider,
+  fixture: fixtureProvider,
+  gnn: gnnProvider,
+  knowledge: knowledgeStoreProvider
+};
+
+const isProviderId = (value: string): value is PredictionProviderId => value in PROVIDERS;
+
+// PREDICTION_PROVIDER selects the backend explicitly. Without it we fall back to Gemini when
+// an API key is configured and to the offline fixtures otherwise, so the app always runs.
+export const resolveProviderId = (): PredictionProviderId => {
+  const configured = (process.env.PREDICTION_PROVIDER || '').trim().toLowerCase();
+  if (configured) {
+    if (isProviderId(configured)) return configured;
+    console.warn(`Unknown PREDICTION_PROVIDER "${configured}", falling back to default.`);
+  }
+  return process.env.API_KEY ? 'gemini' : 'fixture';
+};
+
+export const getPredictionProvider = (id: PredictionProviderId = resolveProviderId()): PredictionProvider =>
+  PROVIDERS[id];
+
+export const listPredictionProviders = (): PredictionProvider[] => Object.values(PROVIDERS);
+
+export interface PredictionOptions {
+  forceRefresh?: boolean; // Skip the cache lookup (the fresh result still replaces the cached one)
+  signal?: AbortSignal; // User cancellation
+  timeoutMs?: number; // Per attempt; 0 disables the timeout
+  maxRetries?: number; // Additional attempts for transient errors
+  onRetry?: (attempt: number, delayMs: number, error: PredictionError) => void;
+  patient?: PatientProfile; // Passed to patient-aware providers and part of the cache key
+  settings?: RunSettings; // Reproduces an earlier session's prompt version, model and temperature
+}
+
+export interface PredictionOutcome extends ValidatedAnalysis {
+  cachedAt?: number; // Set when the result came from the cache
+  ensembleSize?: number; // Number of runs merged into the result
+  generation?: GenerationMetadata;
+}
+
+const cancelledError = () => new PredictionError('cancelled', 'The prediction was cancelled.');
+
+// Resolves after `ms` unless the signal aborts first
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// One provider call bounded by the user's signal and a timeout. The race also covers
+// providers that ignore the abort signal, so the UI is never left waiting.
+const attemptPrediction = (
+  call: (signal: AbortSignal) => Promise<unknown>,
+  signal: AbortSignal | undefined,
+  timeoutMs: number
+) => {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  return new Promise<unknown>((resolve, reject) => {
+    const onAbort = () => {
+      controller.abort();
+      reject(cancelledError());
+    };
+    const timer = timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+          reject(new PredictionError('timeout', `No response within ${Math.round(timeoutMs / 1000)} s.`));
+        }, timeoutMs)
+      : undefined;
+    const cleanup = () => {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    call(controller.signal).then(
+      value => { cleanup(); resolve(value); },
+      error => {
+        cleanup();
+        // An abort we triggered ourselves surfaces from the SDK as a generic AbortError
+        if (timedOut) reject(new PredictionError('timeout', `No response within ${Math.round(timeoutMs / 1000)} s.`, error));
+        else if (signal?.aborted) reject(cancelledError());
+        else reject(classifyError(error));
+      }
+    );
+  });
+};
+
+const toPredictOptions = (options: PredictionOptions, temperature?: number): Omit<PredictOptions, 'signal'> => ({
+  temperature: temperature ?? options.settings?.temperature,
+  patient: options.patient,
+  promptVersion: options.settings?.promptVersion,
+  modelId: options.settings?.modelId
+});
+
+const generationMetadata = (
+  provider: PredictionProvider,
+  predictOptions: Omit<PredictOptions, 'signal'>,
+  rawResponses: string[]
+): GenerationMetadata => ({
+  providerId: provider.id,
+  providerVersion: provider.version,
+  ...provider.runSettings?.(predictOptions),
+  generatedAt: Date.now(),
+  rawResponses
+});
+
+// Reproductions of earlier settings bypass the cache, whose key only tracks the current prompt and model
+const cacheTarget = (provider: PredictionProvider, options: PredictionOptions): PredictionProvider => {
+  if (!options.settings || !provider.runSettings) return provider;
+  const requested = provider.runSettings(toPredictOptions(options));
+  const current = provider.runSettings({});
+  return requested.modelId === current.modelId && requested.promptVersion === current.promptVersion
+    ? provider
+    : { ...provider, version: undefined };
+};
+
+// Provider call with retries for transient errors; `validate` rejects or repairs each raw result
+const withRetries = async <T>(
+  call: (signal: AbortSignal) => Promise<unknown>,
+  validate: (raw: unknown) => T,
+  options: PredictionOptions
+): Promise<T> => {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return validate(await attemptPrediction(call, options.signal, timeoutMs));
+    } catch (error) {
+      const classified = classifyError(error);
+      if (!classified.retryable || attempt >= maxRetries) throw classified;
+      // Exponential backoff with jitter: ~1 s, 2 s, 4 s, ...
+      const delayMs = BACKOFF_BASE_MS * 2 ** attempt + Math.random() * 250;
+      options.onRetry?.(attempt + 1, delayMs, classified);
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
+
+// Every result goes through validation so that malformed output never reaches the graph;
+// the unvalidated output is returned alongside.
+const fetchValidated = (
+  drugs: string[],
+  provider: PredictionProvider,
+  options: PredictionOptions,
+  temperature?: number
+) => withRetries(
+  signal => provider.predict(drugs, { ...toPredictOptions(options, temperature), signal }),
+  raw => ({ ...validateAnalysisResult(raw), rawResponse: JSON.stringify(raw) }),
+  options
+);
+
+// Results of versioned providers are cached per drug set, independent of input order.
+export const runPrediction = async (
+  drugs: string[],
+  provider: PredictionProvider = getPredictionProvider(),
+  options: PredictionOptions = {}
+): Promise<PredictionOutcome> => {
+  const cacheProvider = cacheTarget(provider, options);
+  if (!options.forceRefresh) {
+    const cached = await getCachedAnalysis(drugs, cacheProvider, options.patient);
+    if (cached) return { ...cached.analysis, cachedAt: cached.createdAt };
+  }
+
+  const { rawResponse, ...validated } = await fetchValidated(drugs, provider, options);
+  const analysis = { ...validated, generation: generationMetadata(provider, toPredictOptions(options), [rawResponse]) };
+  await putCachedAnalysis(drugs, cacheProvider, analysis, options.patient);
+  return analysis;
+};
+
+export interface EnsembleOptions extends PredictionOptions {
+  size?: number; // Number of independent runs to merge
+  onRunComplete?: (completed: number, total: number) => void;
+}
+
+// Ensembles are cached apart from single runs and per size, since their results differ in kind
+const ensembleCacheProvider = (provider: PredictionProvider, size: number): PredictionProvider =>
+  provider.version ? { ...provider, version: `${provider.version}+ensemble-${size}` } : provider;
+
+/**
+ * Self-consistency ensemble: runs the provider `size` times in parallel at a higher temperature and
+ * merges the results, attaching mean, spread and agreement to every prediction. Failed runs are left
+ * out with a warning; the ensemble only fails when every run does.
+ */
+export const runEnsemblePrediction = async (
+  drugs: string[],
+  provider: PredictionProvider = getPredictionProvider(),
+  options: EnsembleOptions = {}
+): Promise<PredictionOutcome> => {
+  const size = Math.max(1, Math.round(options.size ?? DEFAULT_ENSEMBLE_SIZE));
+  const cacheProvider = ensembleCacheProvider(cacheTarget(provider, options), size);
+  const temperature = options.settings?.temperature ?? ENSEMBLE_TEMPERATURE;
+  if (!options.forceRefresh) {
+    const cached = await getCachedAnalysis(drugs, cacheProvider, options.patient);
+    if (cached) return { ...cached.analysis, cachedAt: cached.createdAt, ensembleSize: size };
+  }
+
+  let completed = 0;
+  const settled = await Promise.allSettled(
+    Array.from({ length: size }, () =>
+      fetchValidated(drugs, provider, options, temperature).then(analysis => {
+        options.onRunComplete?.(++completed, size);
+        return analysis;
+      })
+    )
+  );
+  if (options.signal?.aborted) throw cancelledError();
+
+  const succeeded = settled.flatMap(s => (s.status === 'fulfilled' ? [s.value] : []));
+  const failed = settled.flatMap(s => (s.status === 'rejected' ? [classifyError(s.reason)] : []));
+  if (succeeded.length === 0) throw failed[0];
+
+  // Runs tend to need the same repairs; report each distinct one once
+  const warnings = new Map<string, ValidationWarning>();
+  for (const w of succeeded.flatMap(a => a.warnings)) warnings.set(`${w.code}:${w.message}`, w);
+  for (const e of failed) {
+    warnings.set(`ENSEMBLE_RUN_FAILED:${e.message}`, {
+      code: 'ENSEMBLE_RUN_FAILED',
+      message: `An ensemble run failed and was left out (${e.message}).`
+    });
+  }
+
+  const analysis = {
+    result: mergeEnsemble(succeeded.map(a => a.result)),
+    warnings: [...warnings.values()],
+    generation: generationMetadata(provider, toPredictOptions(options, temperature), succeeded.map(a => a.rawResponse))
+  };
+  // Partial ensembles are not cached so the next request gets a full set of runs
+  if (failed.length === 0) await putCachedAnalysis(drugs, cacheProvider, analysis, options.patient);
+  return { ...analysis, ensembleSize: succeeded.length };
+};
+
+export interface ExpansionOutcome {
+  neighborhood: GraphNeighborhood; // Validated; links may point at nodes of the expanded graph
+  warnings: ValidationWarning[];
+  providerId: PredictionProviderId; // Provider that answered, after the knowledge store fallback
+}
+
+/**
+ * Asks for further neighbors of one node in a regimen's graph, with the same timeout, retries and
+ * validation as an analysis. Providers that cannot expand nodes (fixtures, the GNN) fall back to
+ * the local knowledge store. Expansions are not cached: they depend on the graph they extend.
+ */
+export const runNodeExpansion = async (
+  node: GraphNode,
+  drugs: string[],
+  graph: GraphNeighborhood,
+  provider: PredictionProvider = getPredictionProvider(),
+  options: PredictionOptions = {}
+): Promise<ExpansionOutcome> => {
+  const expanding = provider.expand ? provider : knowledgeStoreProvider;
+  const { result, warnings } = await withRetries(
+    signal => expanding.expand!(node, drugs, graph, { ...toPredictOptions(options), signal }),
+    raw => validateAnalysisResult(raw, { knownNodes: graph.nodes, graphOnly: true }),
+    options
+  );
+  return { neighborhood: { nodes: result.nodes, links: result.links }, warnings, providerId: expanding.id };
+};
+
+// Explains how a session's recorded settings differ from what its provider runs with today
+export const describeOutdatedSettings = (generation: GenerationMetadata | undefined): string | null => {
+  const current = generation && PROVIDERS[generation.providerId]?.runSettings?.({});
+  if (!generation || !current) return null;
+  const changes: string[] = [];
+  if (generation.promptVersion && generation.promptVersion !== current.promptVersion) {
+    changes.push(`prompt ${generation.promptVersion} → ${current.promptVersion}`);
+  }
+  if (generation.modelId && generation.modelId !== current.modelId) {
+    changes.push(`model ${generation.modelId} → ${current.modelId}`);
+  }
+  if (generation.schemaVersion && generation.schemaVersion !== current.schemaVersion) {
+    changes.push(`schema ${generation.schemaVersion} → ${current.schemaVersion}`);
+  }
+  return changes.length > 0 ? `Produced with earlier settings (${changes.join(', ')}).` : null;
+};
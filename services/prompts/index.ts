@@ -0,0 +1,34 @@
+import { PromptTemplate } from "./types";
+import { PredictionError } from "../predictionErrors";
+import { interactionPromptV3 } from "./interactionV3";
+import { interactionPromptV4 } from "./interactionV4";
+import { interactionPromptV5 } from "./interactionV5";
+import { interactionPromptV6 } from "./interactionV6";
+import { interactionPromptV7 } from "./interactionV7";
+import { neighborhoodPromptV1 } from "./neighborhoodV1";
+
+export type { NeighborhoodPromptTemplate, PromptTemplate } from "./types";
+export { INTERACTION_SCHEMA_VERSION, interactionResponseSchema, neighborhoodResponseSchema } from "./responseSchema";
+
+// Earlier versions (v1, v2) predate the template registry and cannot be re-rendered
+const TEMPLATES: Record<string, PromptTemplate> = {
+  v3: interactionPromptV3,
+  v4: interactionPromptV4,
+  v5: interactionPromptV5,
+  v6: interactionPromptV6,
+  v7: interactionPromptV7
+};
+
+// New analyses use this version; bump it together with a new template so cached results are not reused
+export const CURRENT_PROMPT_VERSION = 'v7';
+
+export const hasPromptTemplate = (version: string) => version in TEMPLATES;
+
+export const getPromptTemplate = (version: string = CURRENT_PROMPT_VERSION): PromptTemplate => {
+  const template = TEMPLATES[version];
+  if (!template) throw new PredictionError('invalid_input', `Prompt version "${version}" is no longer available.`);
+  return template;
+};
+
+// Node expansions are not cached or reproduced, so only the current neighborhood template is kept
+export const neighborhoodPrompt = neighborhoodPromptV1;
@@ -0,0 +1,19 @@
+import { PromptTemplate } from "./types";
+import { ANALYSIS_STEPS, CLINICAL_GRADING, EVIDENCE_REQUIREMENTS, GRAPH_REQUIREMENTS, PATIENT_ADJUSTMENT } from "./sections";
+
+// Clinical grading, evidence and patient context, with the drugs quoted inline
+export const interactionPromptV3: PromptTemplate = {
+  version: 'v3',
+  render: (drugs, patientFacts) => {
+    const patientSection = patientFacts.length > 0
+      ? `
+    **Patient Context**: The combination is taken by a patient with the following characteristics: ${patientFacts.join('; ')}.${PATIENT_ADJUSTMENT}`
+      : '';
+    return `
+    Act as a senior Clinical Toxicologist and Biomedical Knowledge Graph expert. 
+    Perform a high-precision analysis of the potential polypharmacy interactions between the following list of drugs: "${drugs.join('", "')}".
+    ${ANALYSIS_STEPS}
+    ${patientSection}    ${GRAPH_REQUIREMENTS}${CLINICAL_GRADING}${EVIDENCE_REQUIREMENTS}
+  `;
+  }
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_PROMPT_VERSION, getPromptTemplate } from './index';
+
+// v3 predates the input blocks and quotes the drugs inline
+const BLOCK_VERSIONS = ['v4', 'v5', 'v6', 'v7'];
+
+// Values that cannot occur in the template text, with quotes and a line break JSON has to escape
+const DRUGS = ['Markerdrug-Qx7', 'Second "Qx7" drug\nnext line'];
+const FACTS = ['Markercondition-Qx7', '70 years'];
+
+// The instructions mention the tags too; the block itself is their last occurrence
+const between = (text: string, tag: string) => {
+  const open = `<${tag}>`;
+  const close = `</${tag}>`;
+  const start = text.lastIndexOf(open);
+  const end = text.indexOf(close, start);
+  return start < 0 || end < 0 ? null : { body: text.slice(start + open.length, end), outside: text.slice(0, start) + text.slice(end + close.length) };
+};
+
+describe.each(BLOCK_VERSIONS)('interaction prompt %s', version => {
+  const prompt = getPromptTemplate(version).render(DRUGS, FACTS);
+  const drugBlock = between(prompt, 'drug_list');
+  const patientBlock = drugBlock && between(drugBlock.outside, 'patient_profile');
+
+  it('puts the drugs JSON-encoded into <drug_list>', () => {
+    expect(drugBlock).not.toBeNull();
+    expect(JSON.parse(drugBlock!.body)).toEqual(DRUGS);
+    expect(drugBlock!.body).not.toContain('\nnext line');
+  });
+
+  it('puts the patient facts JSON-encoded into <patient_profile>', () => {
+    expect(patientBlock).not.toBeNull();
+    expect(JSON.parse(patientBlock!.body)).toEqual(FACTS);
+  });
+
+  it('keeps user values out of the rest of the prompt', () => {
+    expect(patientBlock!.outside).not.toContain('Qx7');
+    expect(patientBlock!.outside).not.toContain('Markercondition');
+  });
+
+  it('leaves the patient block out without facts', () => {
+    expect(getPromptTemplate(version).render(DRUGS, [])).not.toContain('</patient_profile>');
+  });
+});
+
+it('renders new analyses with a block template', () => {
+  expect(BLOCK_VERSIONS).toContain(CURRENT_PROMPT_VERSION);
+});
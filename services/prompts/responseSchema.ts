@@ -0,0 +1,98 @@
+import { Type, Schema } from "@google/genai";
+import { NodeType } from "../../types";
+import { RELATION_TYPES } from "../relationVocabulary";
+
+// Bump when the response structure changes; recorded with every session next to the prompt version
+export const INTERACTION_SCHEMA_VERSION = '6';
+
+const evidenceSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      source: { type: Type.STRING, enum: ["label", "literature", "database", "guideline", "inference"] },
+      identifier: { type: Type.STRING, description: "PMID, database accession or label section" },
+      quote: { type: Type.STRING },
+      level: { type: Type.STRING, enum: ["high", "moderate", "low", "theoretical"] }
+    },
+    required: ["source", "level"]
+  }
+};
+
+const nodesSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      label: { type: Type.STRING },
+      type: { type: Type.STRING, enum: Object.values(NodeType) },
+      val: { type: Type.NUMBER, description: "Relative importance size, 1-10" },
+      description: { type: Type.STRING, description: "Scientific description of the entity." }
+    },
+    required: ["id", "label", "type", "description"]
+  }
+};
+
+const linksSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      source: { type: Type.STRING },
+      target: { type: Type.STRING },
+      type: { type: Type.STRING, enum: RELATION_TYPES, description: "Relation from source to target" },
+      mechanism: { type: Type.STRING, enum: ["PK", "PD"] },
+      strength: { type: Type.NUMBER, description: "Magnitude of the effect, 0-1" },
+      evidence: evidenceSchema
+    },
+    required: ["source", "target", "type", "mechanism", "strength", "evidence"]
+  }
+};
+
+export const interactionResponseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: {
+      type: Type.STRING,
+      description: "A detailed clinical summary explaining the mechanism of the interaction (PK/PD) among the combination."
+    },
+    nodes: nodesSchema,
+    links: linksSchema,
+    predictions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          sideEffect: { type: Type.STRING },
+          nodeId: { type: Type.STRING, description: "Id of the SIDE_EFFECT node in nodes that represents this side effect" },
+          probability: { type: Type.NUMBER },
+          description: { type: Type.STRING },
+          severity: { type: Type.STRING, enum: ["contraindicated", "major", "moderate", "minor"] },
+          onset: { type: Type.STRING, enum: ["rapid", "delayed", "unspecified"] },
+          management: {
+            type: Type.OBJECT,
+            properties: {
+              action: { type: Type.STRING, enum: ["avoid", "adjust_dose", "monitor", "no_action"] },
+              recommendation: { type: Type.STRING }
+            },
+            required: ["action", "recommendation"]
+          },
+          evidence: evidenceSchema
+        },
+        required: ["sideEffect", "nodeId", "probability", "description", "severity", "onset", "management", "evidence"]
+      }
+    }
+  },
+  required: ["summary", "nodes", "links", "predictions"]
+};
+
+// Neighbors of a single node: the same nodes and links, without summary and predictions
+export const neighborhoodResponseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    nodes: nodesSchema,
+    links: linksSchema
+  },
+  required: ["nodes", "links"]
+};
@@ -0,0 +1,85 @@
+// Prompt text shared between template versions. Edit a section only together with a new template
+// version: older templates render from these blocks too and must keep producing the same prompt.
+
+export const ANALYSIS_STEPS = `
+    Execute the following cognitive analysis steps to ensure accuracy:
+    1. **Pharmacokinetic (PK) Analysis**: Evaluate if these drugs compete for the same metabolic enzymes (specifically CYP450 isozymes like CYP3A4, CYP2D6, CYP2C9). Is one drug an inhibitor or inducer of the others' metabolism? Check for P-glycoprotein (P-gp) transporter interactions.
+    2. **Pharmacodynamic (PD) Analysis**: Evaluate if the drugs act on the same receptors or physiological pathways (e.g., additive CNS depression, QT prolongation, serotonin syndrome risk, or bleeding risk). Consider cumulative effects of multiple drugs.
+    3. **Graph Construction**: Construct a causal subgraph that explains *why* the interactions occur.`;
+
+export const PATIENT_ADJUSTMENT = `
+    Adjust the analysis to this patient: account for reduced renal or hepatic clearance, age- and weight-related dosing,
+    pregnancy risks, pharmacogenomic metabolizer status and the listed comorbidities. Raise or lower probabilities and severities
+    accordingly, and state in the summary how the patient context changes the assessment.
+`;
+
+export const GRAPH_REQUIREMENTS = `
+    The subgraph should include:
+       - **Drug Nodes**: The input drugs.
+       - **Mechanism Nodes**: Specific enzymes (e.g., "CYP3A4"), receptors (e.g., "5-HT Receptor"), or pathways involved.
+       - **Outcome Nodes**: The predicted clinical side effects.
+       - **Links**: Scientifically accurate edge labels (e.g., "inhibits", "substrate_of", "prolongs", "synergizes_with").
+    
+    For every node, provide a concise, high-quality scientific description.
+    Provide a confidence score (0.0 to 1.0) for the predicted side effects based on established medical literature.
+`;
+
+const TYPED_NODE_LIST = `
+    The subgraph should include:
+       - **Drug Nodes** (type "DRUG"): The input drugs.
+       - **Mechanism Nodes**, each with the most specific type that applies:
+           - "ENZYME": metabolic or target enzymes (e.g. "CYP3A4", "COX-1", "VKORC1").
+           - "TRANSPORTER": uptake and efflux transporters (e.g. "P-glycoprotein (ABCB1)", "OATP1B1", "SERT").
+           - "RECEPTOR": receptors and ion channels (e.g. "5-HT2A Receptor", "hERG (KCNH2)").
+           - "PATHWAY": physiological processes (e.g. "Platelet aggregation", "Cardiac repolarization").
+           - "GENE": pharmacogenes or variants that change the interaction (e.g. "CYP2C19*2").
+           - "CONDITION": patient conditions that drive the interaction (e.g. "Renal impairment").
+           - "PROTEIN": only for protein targets that fit none of the above.
+       - **Outcome Nodes** (type "SIDE_EFFECT"): The predicted clinical side effects.
+`;
+
+const GRAPH_QUALITY = `    
+    For every node, provide a concise, high-quality scientific description.
+    Provide a confidence score (0.0 to 1.0) for the predicted side effects based on established medical literature.
+`;
+
+// From v5: mechanism nodes carry one of the typed ontology categories instead of a generic PROTEIN
+export const TYPED_GRAPH_REQUIREMENTS = `${TYPED_NODE_LIST}       - **Links**: Scientifically accurate edge labels (e.g., "inhibits", "substrate_of", "prolongs", "synergizes_with").
+${GRAPH_QUALITY}`;
+
+// From v6: the free-text link bullet gives way to LINK_REQUIREMENTS
+export const TYPED_NODE_REQUIREMENTS = `${TYPED_NODE_LIST}${GRAPH_QUALITY}`;
+
+// From v6: links use the controlled relation vocabulary and carry a mechanism class and strength
+export const LINK_REQUIREMENTS = `
+    **Links**: Every link points from the acting entity to the one it acts on and has:
+       - "type": exactly one of "inhibits", "induces", "activates", "substrate_of", "binds", "displaces_from",
+         "increases", "decreases", "synergizes_with", "modulates", "causes", "contributes_to", "interacts_with" or
+         "associated_with". Express passive relations from the acting side: a drug is "substrate_of" an enzyme,
+         an enzyme never "metabolizes" a drug.
+       - "mechanism": "PK" when the link changes exposure (metabolism, transport, protein binding) or "PD" when it
+         changes the effect at the same exposure (receptor, pathway and outcome links).
+       - "strength": 0.0 to 1.0 for the clinical magnitude, e.g. 0.9 for a strong CYP3A4 inhibitor, 0.5 for a
+         moderate one, 0.2 for a weak one.
+`;
+
+export const CLINICAL_GRADING = `
+    **Clinical Grading**: For every predicted side effect, also provide:
+       - "severity": "contraindicated", "major", "moderate" or "minor", following standard drug interaction references.
+       - "onset": "rapid" (within 24 hours), "delayed" (days to weeks) or "unspecified".
+       - "management": an "action" ("avoid", "adjust_dose", "monitor" or "no_action") and a concise, specific "recommendation" (e.g. "Monitor INR twice weekly for the first two weeks").
+`;
+
+// From v7: predictions name their outcome node instead of leaving it to be matched by label
+export const OUTCOME_NODE_REFERENCE = `
+    **Outcome Nodes**: Every predicted side effect has a "nodeId": the "id" of the SIDE_EFFECT node in "nodes" that
+    represents it. Add that node if the graph does not have it yet.
+`;
+
+export const EVIDENCE_REQUIREMENTS = `
+    **Evidence**: For every link and every predicted side effect, list the evidence that supports it:
+       - "source": "label" (product labeling), "literature", "database" (e.g. DrugBank), "guideline" or "inference" (your own mechanistic reasoning).
+       - "identifier": a PMID (e.g. "PMID:12345678"), a database accession or the label section. Only cite identifiers you are certain exist; never invent a PMID.
+       - "quote": a short supporting excerpt or paraphrase.
+       - "level": "high", "moderate", "low" or "theoretical".
+       If a claim is not backed by a source you can name, mark it as "inference" with level "theoretical".`;
@@ -0,0 +1,10 @@
+export interface PromptTemplate {
+  version: string; // Part of the provider version, and with it of the cache key
+  render: (drugs: string[], patientFacts: string[]) => string;
+}
+
+// Asks for the further neighbors of one node in an existing interaction graph
+export interface NeighborhoodPromptTemplate {
+  version: string;
+  render: (node: { id: string; label: string; type: string }, drugs: string[], knownNeighbors: string[]) => string;
+}
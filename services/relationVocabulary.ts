@@ -0,0 +1,126 @@
+import { GraphNode, NodeType, RelationMechanism, RelationPolarity, RelationType } from "../types";
+
+export interface RelationDefinition {
+  label: string;
+  polarity: RelationPolarity;
+  mechanism: RelationMechanism | null; // null: decided by the target, see linkMechanism
+}
+
+export const RELATIONS: Record<RelationType, RelationDefinition> = {
+  inhibits: { label: 'inhibits', polarity: 'inhibiting', mechanism: null },
+  induces: { label: 'induces', polarity: 'activating', mechanism: 'PK' },
+  activates: { label: 'activates', polarity: 'activating', mechanism: null },
+  substrate_of: { label: 'substrate of', polarity: 'neutral', mechanism: 'PK' },
+  binds: { label: 'binds', polarity: 'neutral', mechanism: null },
+  displaces_from: { label: 'displaces from', polarity: 'neutral', mechanism: 'PK' },
+  increases: { label: 'increases', polarity: 'activating', mechanism: 'PD' },
+  decreases: { label: 'decreases', polarity: 'inhibiting', mechanism: 'PD' },
+  synergizes_with: { label: 'synergizes with', polarity: 'activating', mechanism: 'PD' },
+  modulates: { label: 'modulates', polarity: 'neutral', mechanism: 'PD' },
+  causes: { label: 'causes', polarity: 'activating', mechanism: 'PD' },
+  contributes_to: { label: 'contributes to', polarity: 'activating', mechanism: 'PD' },
+  interacts_with: { label: 'interacts with', polarity: 'neutral', mechanism: 'unspecified' },
+  associated_with: { label: 'associated with', polarity: 'neutral', mechanism: 'unspecified' }
+};
+
+// Neutral edges keep the theme's link color
+export const POLARITY_STYLES: Record<RelationPolarity, { label: string; color: string | null }> = {
+  activating: { label: 'Activates / increases', color: '#22c55e' },
+  inhibiting: { label: 'Inhibits / decreases', color: '#ef4444' },
+  neutral: { label: 'Binds / associated', color: null }
+};
+
+export const MECHANISM_STYLES: Record<RelationMechanism, { label: string; dash: string | null }> = {
+  PK: { label: 'Pharmacokinetic', dash: '6 4' },
+  PD: { label: 'Pharmacodynamic', dash: null },
+  unspecified: { label: 'Unspecified', dash: '2 4' }
+};
+
+// Stroke width for a 0-1 strength; links without one keep the original width
+export const strengthWidth = (strength?: number) => (strength === undefined ? 1.5 : 1 + strength * 3);
+
+export const RELATION_TYPES = Object.keys(RELATIONS) as RelationType[];
+export const RELATION_MECHANISMS: RelationMechanism[] = ['PK', 'PD', 'unspecified'];
+
+const UNKNOWN_RELATION: RelationDefinition = { label: 'related to', polarity: 'neutral', mechanism: 'unspecified' };
+
+// Tolerates links that predate the vocabulary, e.g. from sessions saved before it existed
+export const relationDefinition = (type: string): RelationDefinition =>
+  RELATIONS[type as RelationType] ?? UNKNOWN_RELATION;
+
+export const isRelationType = (value: string): value is RelationType => value in RELATIONS;
+
+// Drug-metabolizing enzymes and plasma binding proteins; enzymes such as COX-1 or VKORC1 are drug targets (PD)
+const PK_TARGET_LABEL = /\b(CYP|UGT)\s*-?\d|cytochrome|albumin|acid glycoprotein/i;
+
+// Inhibiting, activating or binding a transporter or metabolizing enzyme changes exposure; anything else the effect
+export const linkMechanism = (type: string, target?: Pick<GraphNode, 'type' | 'label'>): RelationMechanism => {
+  const { mechanism } = relationDefinition(type);
+  if (mechanism) return mechanism;
+  if (!target) return 'PD';
+  return target.type === NodeType.TRANSPORTER || PK_TARGET_LABEL.test(target.label) ? 'PK' : 'PD';
+};
+
+export interface NormalizedRelation {
+  type: RelationType;
+  reversed: boolean; // The label was phrased from the target's side ("metabolizes"); swap the endpoints
+}
+
+// Labels the model and older data used for vocabulary relations
+const RELATION_ALIASES: Record<string, NormalizedRelation> = {
+  targets: { type: 'binds', reversed: false },
+  binds_to: { type: 'binds', reversed: false },
+  metabolized_by: { type: 'substrate_of', reversed: false },
+  transported_by: { type: 'substrate_of', reversed: false },
+  metabolizes: { type: 'substrate_of', reversed: true },
+  transports: { type: 'substrate_of', reversed: true },
+  inhibited_by: { type: 'inhibits', reversed: true },
+  induced_by: { type: 'induces', reversed: true },
+  activated_by: { type: 'activates', reversed: true },
+  antagonizes: { type: 'inhibits', reversed: false },
+  blocks: { type: 'inhibits', reversed: false },
+  agonist_of: { type: 'activates', reversed: false },
+  stimulates: { type: 'activates', reversed: false },
+  prolongs: { type: 'increases', reversed: false },
+  potentiates: { type: 'increases', reversed: false },
+  enhances: { type: 'increases', reversed: false },
+  reduces: { type: 'decreases', reversed: false },
+  lowers: { type: 'decreases', reversed: false },
+  regulates: { type: 'modulates', reversed: false },
+  leads_to: { type: 'causes', reversed: false },
+  results_in: { type: 'causes', reversed: false },
+  caused_by: { type: 'causes', reversed: true },
+  mediates: { type: 'contributes_to', reversed: false },
+  co_reported_with: { type: 'associated_with', reversed: false },
+  predicted_link: { type: 'associated_with', reversed: false }
+};
+
+// Last resort for phrasings without an alias ("strongly inhibits metabolism of")
+const RELATION_PATTERNS: [RegExp, RelationType][] = [
+  [/inhibit|block|antagoni/, 'inhibits'],
+  [/induc/, 'induces'],
+  [/substrate|metaboli[sz]ed|transported/, 'substrate_of'],
+  [/displac/, 'displaces_from'],
+  [/agoni|activat|stimulat/, 'activates'],
+  [/synerg|additive/, 'synergizes_with'],
+  [/increas|prolong|potentiat|enhanc|elevat|rais/, 'increases'],
+  [/decreas|reduc|lower|attenuat/, 'decreases'],
+  [/bind/, 'binds'],
+  [/regulat|modulat/, 'modulates'],
+  [/contribut|mediat/, 'contributes_to'],
+  [/cause|lead|result/, 'causes'],
+  [/interact/, 'interacts_with'],
+  [/associat|correlat|co_?report/, 'associated_with']
+];
+
+/**
+ * Maps a free-text edge label onto the controlled vocabulary: exact names first, then known
+ * aliases (some of which flip the direction), then keyword patterns. Returns null when nothing fits.
+ */
+export const normalizeRelation = (value: string): NormalizedRelation | null => {
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (isRelationType(key)) return { type: key, reversed: false };
+  if (RELATION_ALIASES[key]) return RELATION_ALIASES[key];
+  const pattern = RELATION_PATTERNS.find(([regex]) => regex.test(key));
+  return pattern ? { type: pattern[1], reversed: false } : null;
+};
@@ -0,0 +1,101 @@
+import { GenerationMetadata, PatientProfile, PredictionProvider } from "../types";
+import { drugSetKey } from "./drugSet";
+import { patientProfileKey } from "./patientProfile";
+import { openDatabase, promisifyRequest, transactionDone } from "./indexedDb";
+import { ValidatedAnalysis } from "./resultValidator";
+
+const DB_NAME = 'neurograph_cache';
+const DB_VERSION = 1;
+const STORE = 'analyses';
+
+// Cached analyses are reused for a week unless invalidated manually
+export const DEFAULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Served cache hits report the settings and raw output of the call that produced them
+export type CachedPayload = ValidatedAnalysis & { generation?: GenerationMetadata };
+
+export interface CachedAnalysis {
+  key: string;
+  drugs: string[];
+  providerId: string;
+  version: string;
+  analysis: CachedPayload;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// Only providers that declare a version are cached: the key must change whenever the model or prompt does
+export const isCacheable = (provider: PredictionProvider): provider is PredictionProvider & { version: string } =>
+  Boolean(provider.version);
+
+// Results for a patient profile are cached apart from the unconditioned analysis of the same drugs
+export const cacheKey = (drugs: string[], provider: PredictionProvider, patient?: PatientProfile): string => {
+  const base = `${provider.id}:${provider.version ?? ''}:${drugSetKey(drugs)}`;
+  const profile = provider.patientAware ? patientProfileKey(patient) : '';
+  return profile ? `${base}:${profile}` : base;
+};
+
+const openCacheDb = () =>
+  openDatabase(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: 'key' });
+  });
+
+// Runs one request against the cache store; cache failures are logged and never fail a prediction
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> => {
+  try {
+    const db = await openCacheDb();
+    const tx = db.transaction(STORE, mode);
+    const value = await promisifyRequest(fn(tx.objectStore(STORE)));
+    await transactionDone(tx);
+    db.close();
+    return value;
+  } catch (e) {
+    console.error('Result cache unavailable:', e);
+    return undefined;
+  }
+};
+
+export const getCachedAnalysis = async (
+  drugs: string[],
+  provider: PredictionProvider,
+  patient?: PatientProfile
+): Promise<CachedAnalysis | null> => {
+  if (!isCacheable(provider)) return null;
+  const key = cacheKey(drugs, provider, patient);
+  const entry = await withStore<CachedAnalysis | undefined>('readonly', store => store.get(key));
+  if (!entry) return null;
+  if (entry.expiresAt <= Date.now()) {
+    await withStore('readwrite', store => store.delete(key));
+    return null;
+  }
+  return entry;
+};
+
+export const putCachedAnalysis = async (
+  drugs: string[],
+  provider: PredictionProvider,
+  analysis: CachedPayload,
+  patient?: PatientProfile,
+  ttlMs: number = DEFAULT_CACHE_TTL_MS
+): Promise<void> => {
+  if (!isCacheable(provider)) return;
+  const now = Date.now();
+  const entry: CachedAnalysis = {
+    key: cacheKey(drugs, provider, patient),
+    drugs,
+    providerId: provider.id,
+    version: provider.version,
+    analysis,
+    createdAt: now,
+    expiresAt: now + ttlMs
+  };
+  await withStore('readwrite', store => store.put(entry));
+};
+
+export const invalidateCachedAnalysis = async (drugs: string[], provider: PredictionProvider, patient?: PatientProfile): Promise<void> => {
+  await withStore('readwrite', store => store.delete(cacheKey(drugs, provider, patient)));
+};
+
+export const clearAnalysisCache = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+};
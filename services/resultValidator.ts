@@ -0,0 +1,402 @@
+import {
+  AnalysisResult,
+  Evidence,
+  EvidenceLevel,
+  EvidenceSource,
+  GraphLink,
+  GraphNode,
+  InteractionOnset,
+  InteractionPrediction,
+  InteractionSeverity,
+  ManagementAction,
+  ManagementRecommendation,
+  NodeType,
+  ValidationWarning,
+  ValidationWarningCode
+} from "../types";
+import { PredictionError } from "./predictionErrors";
+import { inferNodeType, refineNode } from "./nodeOntology";
+import { RELATION_MECHANISMS, linkMechanism, normalizeRelation } from "./relationVocabulary";
+
+export interface ValidatedAnalysis {
+  result: AnalysisResult;
+  warnings: ValidationWarning[];
+}
+
+export interface ValidationOptions {
+  knownNodes?: GraphNode[]; // Nodes of the graph being extended; links may reference them without repeating them
+  graphOnly?: boolean; // Neighborhood responses carry no summary or predictions
+}
+
+// Common synonyms the model uses instead of the schema enum values
+const NODE_TYPE_ALIASES: Record<string, NodeType> = {
+  DRUG: NodeType.DRUG,
+  COMPOUND: NodeType.DRUG,
+  MEDICATION: NodeType.DRUG,
+  PROTEIN: NodeType.PROTEIN,
+  TARGET: NodeType.PROTEIN,
+  MECHANISM: NodeType.PROTEIN,
+  ENZYME: NodeType.ENZYME,
+  ISOZYME: NodeType.ENZYME,
+  TRANSPORTER: NodeType.TRANSPORTER,
+  CARRIER: NodeType.TRANSPORTER,
+  RECEPTOR: NodeType.RECEPTOR,
+  ION_CHANNEL: NodeType.RECEPTOR,
+  CHANNEL: NodeType.RECEPTOR,
+  PATHWAY: NodeType.PATHWAY,
+  PROCESS: NodeType.PATHWAY,
+  GENE: NodeType.GENE,
+  VARIANT: NodeType.GENE,
+  ALLELE: NodeType.GENE,
+  CONDITION: NodeType.CONDITION,
+  COMORBIDITY: NodeType.CONDITION,
+  DISEASE: NodeType.CONDITION,
+  SIDE_EFFECT: NodeType.SIDE_EFFECT,
+  SIDEEFFECT: NodeType.SIDE_EFFECT,
+  ADVERSE_EVENT: NodeType.SIDE_EFFECT,
+  OUTCOME: NodeType.SIDE_EFFECT
+};
+
+const EVIDENCE_SOURCE_ALIASES: Record<string, EvidenceSource> = {
+  LABEL: 'label',
+  LABELING: 'label',
+  PRODUCT_LABEL: 'label',
+  PACKAGE_INSERT: 'label',
+  SMPC: 'label',
+  LITERATURE: 'literature',
+  PUBMED: 'literature',
+  STUDY: 'literature',
+  CLINICAL_TRIAL: 'literature',
+  CASE_REPORT: 'literature',
+  DATABASE: 'database',
+  DRUGBANK: 'database',
+  FAERS: 'database',
+  GUIDELINE: 'guideline',
+  INFERENCE: 'inference',
+  MODEL_INFERENCE: 'inference',
+  MECHANISTIC: 'inference',
+  THEORETICAL: 'inference'
+};
+
+// Accepts our own levels as well as the common letter and reliability scales
+const EVIDENCE_LEVEL_ALIASES: Record<string, EvidenceLevel> = {
+  HIGH: 'high',
+  A: 'high',
+  ESTABLISHED: 'high',
+  MODERATE: 'moderate',
+  B: 'moderate',
+  PROBABLE: 'moderate',
+  LOW: 'low',
+  C: 'low',
+  SUSPECTED: 'low',
+  POSSIBLE: 'low',
+  THEORETICAL: 'theoretical',
+  D: 'theoretical'
+};
+
+const SEVERITY_ALIASES: Record<string, InteractionSeverity> = {
+  CONTRAINDICATED: 'contraindicated',
+  CONTRAINDICATION: 'contraindicated',
+  MAJOR: 'major',
+  SEVERE: 'major',
+  SERIOUS: 'major',
+  MODERATE: 'moderate',
+  MINOR: 'minor',
+  MILD: 'minor'
+};
+
+const ONSET_ALIASES: Record<string, InteractionOnset> = {
+  RAPID: 'rapid',
+  IMMEDIATE: 'rapid',
+  ACUTE: 'rapid',
+  DELAYED: 'delayed',
+  SLOW: 'delayed',
+  UNSPECIFIED: 'unspecified',
+  UNKNOWN: 'unspecified'
+};
+
+const MANAGEMENT_ACTION_ALIASES: Record<string, ManagementAction> = {
+  AVOID: 'avoid',
+  AVOID_COMBINATION: 'avoid',
+  ADJUST_DOSE: 'adjust_dose',
+  DOSE_ADJUST: 'adjust_dose',
+  DOSE_ADJUSTMENT: 'adjust_dose',
+  MONITOR: 'monitor',
+  MONITORING: 'monitor',
+  NO_ACTION: 'no_action',
+  NONE: 'no_action'
+};
+
+// Fallback when only free text is given: "avoid" beats "dose" beats "monitor"
+const inferManagementAction = (text: string): ManagementAction => {
+  const lower = text.toLowerCase();
+  if (/\bavoid|contraindicat|do not (use|combine|co-?administer)/.test(lower)) return 'avoid';
+  if (/\bdose|dosage|reduce|titrat/.test(lower)) return 'adjust_dose';
+  if (/\bmonitor|check|measure|observe/.test(lower)) return 'monitor';
+  return 'no_action';
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+const asNumber = (value: unknown): number | null => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const normalizeKey = (value: unknown) => asText(value).toUpperCase().replace(/[\s-]+/g, '_');
+
+const normalizeNodeType = (value: unknown): NodeType | null => NODE_TYPE_ALIASES[normalizeKey(value)] ?? null;
+
+// Bare PubMed ids ("12345678", "PMID 12345678") are rewritten to "PMID:12345678"
+const normalizeIdentifier = (value: unknown): string => {
+  const text = asText(value);
+  const pmid = text.match(/^(?:PMID\s*:?\s*)?(\d{5,9})$/i);
+  return pmid ? `PMID:${pmid[1]}` : text;
+};
+
+// Probabilities occasionally come back as percentages (e.g. 85 instead of 0.85)
+const normalizeProbability = (value: number): number => (value > 1 && value <= 100 ? value / 100 : clamp(value, 0, 1));
+
+/**
+ * Checks a raw model response against the AnalysisResult contract and repairs what it can:
+ * unknown node types, duplicate ids, dangling links and out-of-range scores. Everything that
+ * was changed or dropped is reported as a warning so the UI can surface it next to the result.
+ * Only a response that is not an object at all is rejected outright.
+ */
+export const validateAnalysisResult = (raw: unknown, options: ValidationOptions = {}): ValidatedAnalysis => {
+  if (!isObject(raw)) {
+    throw new PredictionError('malformed_output', "The model returned a malformed analysis (expected a JSON object).");
+  }
+
+  const warnings: ValidationWarning[] = [];
+  const warn = (code: ValidationWarningCode, message: string) => warnings.push({ code, message });
+
+  const listField = (field: 'nodes' | 'links' | 'predictions'): unknown[] => {
+    const value = raw[field];
+    if (Array.isArray(value)) return value;
+    warn('MISSING_FIELD', `Response did not contain a "${field}" list; treated as empty.`);
+    return [];
+  };
+
+  // Evidence entries without a recognizable source type are dropped; a missing level defaults
+  // to "theoretical" for inferences and "low" otherwise
+  const normalizeEvidence = (value: unknown, owner: string): Evidence[] | undefined => {
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value)) {
+      warn('INVALID_EVIDENCE', `Evidence for ${owner} is not a list and was ignored.`);
+      return undefined;
+    }
+    const evidence: Evidence[] = [];
+    value.forEach((item, index) => {
+      const source = isObject(item) ? EVIDENCE_SOURCE_ALIASES[normalizeKey(item.source)] : undefined;
+      if (!isObject(item) || !source) {
+        warn('INVALID_EVIDENCE', `Evidence #${index + 1} for ${owner} has no recognizable source type and was dropped.`);
+        return;
+      }
+      let level = EVIDENCE_LEVEL_ALIASES[normalizeKey(item.level)];
+      if (!level) {
+        level = source === 'inference' ? 'theoretical' : 'low';
+        if (asText(item.level)) {
+          warn('INVALID_EVIDENCE', `Evidence level "${asText(item.level)}" for ${owner} is unknown; set to ${level}.`);
+        }
+      }
+      const entry: Evidence = { source, level };
+      const identifier = normalizeIdentifier(item.identifier);
+      if (identifier) entry.identifier = identifier;
+      const quote = asText(item.quote);
+      if (quote) entry.quote = quote;
+      evidence.push(entry);
+    });
+    return evidence.length > 0 ? evidence : undefined;
+  };
+
+  const normalizeManagement = (value: unknown, owner: string): ManagementRecommendation | undefined => {
+    if (typeof value === 'string' && value.trim()) {
+      return { action: inferManagementAction(value), recommendation: value.trim() };
+    }
+    if (!isObject(value)) return undefined;
+    const recommendation = asText(value.recommendation);
+    const action = MANAGEMENT_ACTION_ALIASES[normalizeKey(value.action)];
+    if (!action && !recommendation) {
+      warn('INVALID_PREDICTION', `Management recommendation for ${owner} is empty and was ignored.`);
+      return undefined;
+    }
+    if (!action && asText(value.action)) {
+      warn('INVALID_PREDICTION', `Management action "${asText(value.action)}" for ${owner} is unknown; inferred from the recommendation text.`);
+    }
+    return { action: action ?? inferManagementAction(recommendation), recommendation };
+  };
+
+  // Summary
+  const summary = asText(raw.summary);
+  if (!summary && !options.graphOnly) {
+    warn('MISSING_FIELD', 'Response did not contain a summary.');
+  }
+
+  // Nodes
+  const nodes: GraphNode[] = [];
+  const nodeIds = new Set<string>();
+  const idsByLabel = new Map<string, string>();
+
+  listField('nodes').forEach((item, index) => {
+    if (!isObject(item)) {
+      warn('INVALID_NODE', `Node #${index + 1} is not an object and was dropped.`);
+      return;
+    }
+    const label = asText(item.label);
+    const id = asText(item.id) || label;
+    if (!id) {
+      warn('INVALID_NODE', `Node #${index + 1} has neither an id nor a label and was dropped.`);
+      return;
+    }
+    if (nodeIds.has(id)) {
+      warn('DUPLICATE_NODE', `Duplicate node id "${id}" was merged into its first occurrence.`);
+      return;
+    }
+
+    let type = normalizeNodeType(item.type);
+    if (!type) {
+      type = inferNodeType(label || id);
+      warn('UNKNOWN_NODE_TYPE', `Node "${label || id}" has unknown type "${asText(item.type)}"; shown as ${type}.`);
+    }
+
+    // Generic PROTEIN answers (older prompts, unspecific models) are narrowed down by label
+    const node: GraphNode = refineNode({ id, label: label || id, type });
+    const val = asNumber(item.val);
+    if (val !== null) {
+      node.val = clamp(val, 1, 10);
+      if (node.val !== val) {
+        warn('OUT_OF_RANGE', `Node "${node.label}" size ${val} was clamped to ${node.val}.`);
+      }
+    }
+    const description = asText(item.description);
+    if (description) node.description = description;
+
+    nodes.push(node);
+    nodeIds.add(id);
+    // Like duplicate ids, a repeated label resolves to its first node
+    if (!idsByLabel.has(node.label.toLowerCase())) idsByLabel.set(node.label.toLowerCase(), id);
+  });
+
+  // Links may reference a node by its label instead of its id; resolve those before giving up.
+  // Nodes of the response take precedence over known nodes with the same id or label.
+  const knownNodes = options.knownNodes ?? [];
+  const knownIds = new Set(knownNodes.map(n => n.id));
+  const knownIdsByLabel = new Map(knownNodes.map(n => [n.label.toLowerCase(), n.id]));
+  const resolveEndpoint = (value: unknown): string | null => {
+    const ref = asText(isObject(value) ? value.id : value);
+    if (!ref) return null;
+    if (nodeIds.has(ref)) return ref;
+    return idsByLabel.get(ref.toLowerCase()) ?? (knownIds.has(ref) ? ref : knownIdsByLabel.get(ref.toLowerCase()) ?? null);
+  };
+
+  const links: GraphLink[] = [];
+  const linkKeys = new Set<string>();
+  const nodesById = new Map([...knownNodes, ...nodes].map(n => [n.id, n]));
+
+  listField('links').forEach((item, index) => {
+    if (!isObject(item)) {
+      warn('INVALID_LINK', `Link #${index + 1} is not an object and was dropped.`);
+      return;
+    }
+    let source = resolveEndpoint(item.source);
+    let target = resolveEndpoint(item.target);
+    const rawType = asText(item.type);
+    if (!source || !target) {
+      warn('DANGLING_LINK', `Link "${asText(item.source)}" → "${asText(item.target)}" (${rawType || 'untyped'}) references a missing node and was dropped.`);
+      return;
+    }
+    if (source === target) {
+      warn('INVALID_LINK', `Link ${source} → ${target} (${rawType || 'untyped'}) connects a node to itself and was dropped.`);
+      return;
+    }
+    const relation = rawType ? normalizeRelation(rawType) : null;
+    if (rawType && !relation) {
+      warn('UNKNOWN_RELATION', `Link ${source} → ${target} has unknown relation "${rawType}"; shown as associated_with.`);
+    }
+    const type = relation?.type ?? 'associated_with';
+    // Passive phrasings ("metabolizes", "inhibited_by") are stored from the acting side
+    if (relation?.reversed) [source, target] = [target, source];
+    const key = `${source}\u0000${target}\u0000${type}`;
+    if (linkKeys.has(key)) {
+      warn('DUPLICATE_LINK', `Duplicate link ${source} → ${target} (${type}) was removed.`);
+      return;
+    }
+
+    const mechanism = asText(item.mechanism);
+    const link: GraphLink = {
+      source,
+      target,
+      type,
+      mechanism: RELATION_MECHANISMS.find(m => m.toLowerCase() === mechanism.toLowerCase()) ?? linkMechanism(type, nodesById.get(target))
+    };
+    const strength = asNumber(item.strength);
+    if (strength !== null) {
+      link.strength = clamp(strength, 0, 1);
+      if (link.strength !== strength) {
+        warn('OUT_OF_RANGE', `Link ${source} → ${target} strength ${strength} was clamped to ${link.strength}.`);
+      }
+    }
+    const evidence = normalizeEvidence(item.evidence, `link ${source} → ${target}`);
+    if (evidence) link.evidence = evidence;
+
+    links.push(link);
+    linkKeys.add(key);
+  });
+
+  // Predictions
+  const predictions: InteractionPrediction[] = [];
+  const seenEffects = new Set<string>();
+
+  (options.graphOnly ? [] : listField('predictions')).forEach((item, index) => {
+    if (!isObject(item) || !asText(item.sideEffect)) {
+      warn('INVALID_PREDICTION', `Prediction #${index + 1} has no side effect name and was dropped.`);
+      return;
+    }
+    const sideEffect = asText(item.sideEffect);
+    if (seenEffects.has(sideEffect.toLowerCase())) {
+      warn('DUPLICATE_PREDICTION', `Duplicate prediction "${sideEffect}" was removed.`);
+      return;
+    }
+
+    const rawProbability = asNumber(item.probability);
+    let probability = 0;
+    if (rawProbability === null) {
+      warn('INVALID_PREDICTION', `Prediction "${sideEffect}" has no numeric probability; set to 0%.`);
+    } else {
+      probability = normalizeProbability(rawProbability);
+      if (probability !== rawProbability) {
+        warn('OUT_OF_RANGE', `Probability ${rawProbability} for "${sideEffect}" was normalized to ${probability.toFixed(2)}.`);
+      }
+    }
+
+    const prediction: InteractionPrediction = { sideEffect, probability, description: asText(item.description) };
+    // The outcome node is referenced like a link endpoint; without a valid one it is matched by label later
+    if (asText(item.nodeId)) {
+      const nodeId = resolveEndpoint(item.nodeId);
+      if (nodeId && nodesById.get(nodeId)?.type === NodeType.SIDE_EFFECT) prediction.nodeId = nodeId;
+      else warn('INVALID_PREDICTION', `Prediction "${sideEffect}" refers to "${asText(item.nodeId)}", which is not a side effect node of the graph.`);
+    }
+    if (asText(item.severity)) {
+      const severity = SEVERITY_ALIASES[normalizeKey(item.severity)];
+      if (severity) prediction.severity = severity;
+      else warn('INVALID_PREDICTION', `Severity "${asText(item.severity)}" for "${sideEffect}" is unknown and was ignored.`);
+    }
+    if (asText(item.onset)) prediction.onset = ONSET_ALIASES[normalizeKey(item.onset)] ?? 'unspecified';
+    const management = normalizeManagement(item.management, `"${sideEffect}"`);
+    if (management) prediction.management = management;
+    const evidence = normalizeEvidence(item.evidence, `"${sideEffect}"`);
+    if (evidence) prediction.evidence = evidence;
+
+    predictions.push(prediction);
+    seenEffects.add(sideEffect.toLowerCase());
+  });
+
+  return { result: { nodes, links, predictions, summary }, warnings };
+};
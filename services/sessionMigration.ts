@@ -0,0 +1,32 @@
+import { AnalysisResult, AnalysisSession, CombinationAnalysis, GraphLink } from "../types";
+import { refineNode } from "./nodeOntology";
+import { isRelationType, normalizeRelation } from "./relationVocabulary";
+
+// Free-text edge labels of older sessions are mapped onto the relation vocabulary
+const migrateLink = (link: GraphLink): GraphLink => {
+  if (isRelationType(link.type)) return link;
+  const relation = normalizeRelation(link.type);
+  const type = relation?.type ?? 'associated_with';
+  return relation?.reversed ? { ...link, type, source: link.target, target: link.source } : { ...link, type };
+};
+
+const migrateResult = (result: AnalysisResult): AnalysisResult => ({
+  ...result,
+  nodes: result.nodes.map(refineNode),
+  links: result.links.map(migrateLink)
+});
+
+const migrateEntry = <T extends CombinationAnalysis>(entry: T): T =>
+  entry.result ? { ...entry, result: migrateResult(entry.result) } : entry;
+
+/**
+ * Upgrades a session saved by an earlier version: mechanism nodes that only say PROTEIN are
+ * reclassified as enzymes, transporters, receptors and so on, and free-text edge labels are mapped
+ * onto the relation vocabulary. Current sessions pass through unchanged.
+ */
+export const migrateSession = (session: AnalysisSession): AnalysisSession => ({
+  ...session,
+  result: migrateResult(session.result),
+  decomposition: session.decomposition?.map(migrateEntry),
+  alternatives: session.alternatives?.map(c => ({ ...c, entries: c.entries.map(migrateEntry) }))
+});
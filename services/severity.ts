@@ -0,0 +1,27 @@
+import { InteractionPrediction, InteractionSeverity } from "../types";
+
+export const SEVERITY_ORDER: InteractionSeverity[] = ['contraindicated', 'major', 'moderate', 'minor'];
+
+// Ungraded predictions sort after every graded one
+const rank = (severity?: InteractionSeverity) => (severity ? SEVERITY_ORDER.indexOf(severity) : SEVERITY_ORDER.length);
+
+// Most severe first; ties are broken by probability
+export const compareBySeverity = (a: InteractionPrediction, b: InteractionPrediction) =>
+  rank(a.severity) - rank(b.severity) || b.probability - a.probability;
+
+export const compareByProbability = (a: InteractionPrediction, b: InteractionPrediction) =>
+  b.probability - a.probability || rank(a.severity) - rank(b.severity);
+
+export const mostSevere = (severities: (InteractionSeverity | undefined)[]): InteractionSeverity | undefined =>
+  severities.reduce<InteractionSeverity | undefined>((worst, s) => (rank(s) < rank(worst) ? s : worst), undefined);
+
+// Discounts probabilities of milder outcomes when ranking combinations by risk
+const SEVERITY_WEIGHT: Record<InteractionSeverity, number> = {
+  contraindicated: 1,
+  major: 1,
+  moderate: 0.7,
+  minor: 0.4
+};
+const UNGRADED_WEIGHT = 0.7;
+
+export const severityWeight = (severity?: InteractionSeverity) => (severity ? SEVERITY_WEIGHT[severity] : UNGRADED_WEIGHT);
@@ -1,7 +1,13 @@
 
 export enum NodeType {
   DRUG = 'DRUG',
-  PROTEIN = 'PROTEIN',
+  ENZYME = 'ENZYME', // e.g. CYP3A4, COX-2
+  TRANSPORTER = 'TRANSPORTER', // e.g. P-gp, OATP1B1, SERT
+  RECEPTOR = 'RECEPTOR', // Receptors and ion channels, e.g. 5-HT3, hERG
+  PATHWAY = 'PATHWAY', // Physiological processes, e.g. "Platelet aggregation"
+  GENE = 'GENE', // Pharmacogenes and variants, e.g. "CYP2C19*2", "HLA-B*57:01"
+  CONDITION = 'CONDITION', // Patient conditions that modify the interaction, e.g. "Renal impairment"
+  PROTEIN = 'PROTEIN', // Any other protein target; the only mechanism type of sessions saved before the ontology grew
   SIDE_EFFECT = 'SIDE_EFFECT'
 }
 
@@ -13,17 +19,78 @@ export interface GraphNode {
   description?: string;
 }
 
+export type EvidenceSource = 'label' | 'literature' | 'database' | 'guideline' | 'inference';
+
+// Strength of the support, from regulatory/curated sources down to mechanistic reasoning
+export type EvidenceLevel = 'high' | 'moderate' | 'low' | 'theoretical';
+
+export interface Evidence {
+  source: EvidenceSource;
+  identifier?: string; // e.g. "PMID:12345678", "DrugBank DB00682", "Label §7 Drug Interactions"
+  quote?: string; // Short supporting excerpt
+  level: EvidenceLevel;
+}
+
+// Controlled edge vocabulary; see services/relationVocabulary.ts for polarity and mechanism class
+export type RelationType =
+  | 'inhibits'
+  | 'induces'
+  | 'activates'
+  | 'substrate_of'
+  | 'binds'
+  | 'displaces_from'
+  | 'increases'
+  | 'decreases'
+  | 'synergizes_with'
+  | 'modulates'
+  | 'causes'
+  | 'contributes_to'
+  | 'interacts_with'
+  | 'associated_with';
+
+export type RelationPolarity = 'activating' | 'inhibiting' | 'neutral';
+
+// PK: changes exposure (metabolism, transport, binding); PD: changes the effect at the same exposure
+export type RelationMechanism = 'PK' | 'PD' | 'unspecified';
+
 export interface GraphLink {
   source: string;
   target: string;
-  type: string; // e.g., "targets", "interacts_with", "causes"
-  strength?: number;
+  type: RelationType;
+  mechanism?: RelationMechanism; // Defaults from the relation and the target's node type when absent
+  strength?: number; // 0-1 magnitude of the effect
+  evidence?: Evidence[];
+}
+
+export interface EnsembleStats {
+  runs: number; // Ensemble members that reported this side effect
+  agreement: number; // Fraction of all ensemble members that reported it (0-1)
+  stdDev: number; // Sample standard deviation of the probability across reporting members
+  lower: number; // 95% confidence interval of the mean probability
+  upper: number;
+}
+
+export type InteractionSeverity = 'contraindicated' | 'major' | 'moderate' | 'minor';
+
+export type InteractionOnset = 'rapid' | 'delayed' | 'unspecified'; // rapid: within 24 h
+
+export type ManagementAction = 'avoid' | 'adjust_dose' | 'monitor' | 'no_action';
+
+export interface ManagementRecommendation {
+  action: ManagementAction;
+  recommendation: string; // e.g. "Monitor INR closely during the first two weeks"
 }
 
 export interface InteractionPrediction {
   sideEffect: string;
-  probability: number;
+  nodeId?: string; // SIDE_EFFECT node of the graph the prediction refers to (absent in older sessions)
+  probability: number; // Mean across ensemble members when `ensemble` is set
   description: string;
+  severity?: InteractionSeverity;
+  onset?: InteractionOnset;
+  management?: ManagementRecommendation;
+  evidence?: Evidence[];
+  ensemble?: EnsembleStats;
 }
 
 export interface AnalysisResult {
@@ -33,14 +100,142 @@ export interface AnalysisResult {
   summary: string;
 }
 
+export type ValidationWarningCode =
+  | 'MISSING_FIELD'
+  | 'INVALID_NODE'
+  | 'DUPLICATE_NODE'
+  | 'UNKNOWN_NODE_TYPE'
+  | 'UNKNOWN_RELATION'
+  | 'INVALID_LINK'
+  | 'DANGLING_LINK'
+  | 'DUPLICATE_LINK'
+  | 'INVALID_PREDICTION'
+  | 'DUPLICATE_PREDICTION'
+  | 'OUT_OF_RANGE'
+  | 'INVALID_EVIDENCE'
+  | 'ENSEMBLE_RUN_FAILED'
+  | 'UNRESOLVED_DRUG';
+
+export interface ValidationWarning {
+  code: ValidationWarningCode;
+  message: string;
+}
+
+export type DoseRoute = 'oral' | 'iv' | 'im' | 'sc';
+
+// Dosing schedule of one drug; unset fields fall back to typical values
+export interface DrugRegimen {
+  doseMg?: number;
+  route?: DoseRoute;
+  intervalHours?: number; // 0 for a single dose
+  startHour?: number; // Offset from the start of the regimen
+}
+
 export interface DrugOption {
   value: string;
   label: string;
 }
 
+export type HepaticImpairment = 'none' | 'mild' | 'moderate' | 'severe'; // Child-Pugh A/B/C for the impaired grades
+
+export type MetabolizerPhenotype = 'poor' | 'intermediate' | 'normal' | 'rapid' | 'ultrarapid';
+
+export type PharmacogeneticGene = 'CYP2D6' | 'CYP2C9' | 'CYP2C19' | 'CYP3A5';
+
+// Patient characteristics that condition the analysis; every field is optional
+export interface PatientProfile {
+  age?: number; // Years
+  weightKg?: number;
+  egfr?: number; // mL/min/1.73 m²
+  hepaticImpairment?: HepaticImpairment;
+  pregnant?: boolean;
+  phenotypes?: Partial<Record<PharmacogeneticGene, MetabolizerPhenotype>>;
+  comorbidities?: string[];
+}
+
+// One sub-combination of a multi-drug regimen, analyzed on its own
+export interface CombinationAnalysis {
+  drugs: string[];
+  result?: AnalysisResult;
+  warnings?: ValidationWarning[];
+  risk?: number; // Severity-weighted peak probability (0-1)
+  error?: string; // Set when this combination could not be analyzed
+}
+
+// One regimen with a drug swapped for a same-indication substitute
+export interface AlternativeAnalysis extends CombinationAnalysis {
+  substitute: string;
+  indication: string;
+}
+
+export interface AlternativeComparison {
+  target: string; // Drug of the original regimen that was replaced
+  entries: AlternativeAnalysis[];
+  createdAt: number;
+}
+
 export interface AnalysisSession {
   id: string;
   drugs: string[]; // List of drugs in the analysis
   result: AnalysisResult;
   timestamp: number;
+  warnings?: ValidationWarning[]; // Repairs applied while validating the model output
+  providerId?: PredictionProviderId; // Backend that produced the result (absent in older sessions)
+  cachedAt?: number; // Set when the result was served from the cache instead of a fresh call
+  ensembleSize?: number; // Number of merged analyses for self-consistency ensembles
+  decomposition?: CombinationAnalysis[]; // Pairs (and optionally triplets) of the regimen
+  patient?: PatientProfile; // Profile the analysis was conditioned on
+  regimens?: DrugRegimen[]; // Dosing per drug, aligned with `drugs`
+  generation?: GenerationMetadata; // Absent in sessions recorded before metadata was kept
+  alternatives?: AlternativeComparison[]; // Latest comparison per replaced drug
+  expansions?: NodeExpansion[]; // Neighborhoods fetched on demand, already merged into `result`
+}
+
+// Nodes and links only, e.g. the neighbors of one node
+export type GraphNeighborhood = Pick<AnalysisResult, 'nodes' | 'links'>;
+
+// Neighbors of one node that were fetched on demand and merged into a session's graph
+export interface NodeExpansion {
+  nodeId: string; // Node that was expanded
+  providerId: PredictionProviderId; // Backend the neighbors came from
+  timestamp: number;
+  nodeIds: string[]; // Nodes the expansion added to the graph
+  links: [string, string][]; // Endpoints of the links it added
+}
+
+export type PredictionProviderId = 'gemini' | 'fixture' | 'gnn' | 'knowledge';
+
+export interface PredictOptions {
+  signal?: AbortSignal; // Aborts the underlying request when the user cancels or the timeout fires
+  temperature?: number; // Sampling temperature override for providers that support it
+  patient?: PatientProfile;
+  promptVersion?: string; // Prompt template to render; defaults to the provider's current one
+  modelId?: string; // Model override, used to reproduce earlier sessions
+}
+
+// Generation parameters of a prompt-based provider call
+export interface RunSettings {
+  modelId?: string;
+  promptVersion?: string;
+  schemaVersion?: string;
+  temperature?: number;
+}
+
+// What produced a session's result, kept so that results stay reproducible after prompt or model changes
+export interface GenerationMetadata extends RunSettings {
+  providerId: PredictionProviderId;
+  providerVersion?: string;
+  generatedAt: number;
+  rawResponses?: string[]; // Unvalidated provider output, one per run
+}
+
+export interface PredictionProvider {
+  id: PredictionProviderId;
+  label: string; // Human readable name shown next to results
+  version?: string; // Model and prompt version; results are only cached for versioned providers
+  patientAware?: boolean; // Whether predictions take the patient profile into account
+  runSettings?: (options: PredictOptions) => RunSettings; // Resolved settings, for prompt-based providers
+  predict: (drugs: string[], options?: PredictOptions) => Promise<AnalysisResult>;
+  // Further neighbors of a node in a regimen's graph, for providers that can look them up
+  expand?: (node: GraphNode, drugs: string[], graph: GraphNeighborhood, options?: PredictOptions) => Promise<GraphNeighborhood>;
 }
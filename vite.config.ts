@@ -9,7 +9,13 @@ export default defineConfig(({ mode }) => {
     define: {
       // Polyfill process.env for the Google GenAI SDK and API Key usage
       'process.env': {
-        API_KEY: JSON.stringify(env.API_KEY || process.env.API_KEY || "")
+        API_KEY: JSON.stringify(env.API_KEY || process.env.API_KEY || ""),
+        // Prediction backend: "gemini", "fixture" (offline replay) or "gnn" (local R-GCN) or
+        // "knowledge" (imported datasets). Empty picks automatically.
+        PREDICTION_PROVIDER: JSON.stringify(env.PREDICTION_PROVIDER || process.env.PREDICTION_PROVIDER || ""),
+        // Per-attempt timeout and number of automatic retries for transient errors
+        PREDICTION_TIMEOUT_MS: JSON.stringify(env.PREDICTION_TIMEOUT_MS || process.env.PREDICTION_TIMEOUT_MS || ""),
+        PREDICTION_MAX_RETRIES: JSON.stringify(env.PREDICTION_MAX_RETRIES || process.env.PREDICTION_MAX_RETRIES || "")
       }
     },
     build: {